@@ -0,0 +1,34 @@
+// Acid - damage-over-time face
+// Green bubbling liquid made of moving value noise and pulsing cells.
+
+precision highp float;
+
+uniform float time;
+varying vec2 vUV;
+
+float hash21(vec2 n) {
+    return fract(sin(dot(n, vec2(12.9898, 4.1414))) * 43758.5453);
+}
+
+float noise(vec2 x) {
+    vec2 i = floor(x);
+    vec2 f = fract(x);
+    vec2 u = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash21(i), hash21(i + vec2(1.0, 0.0)), u.x),
+               mix(hash21(i + vec2(0.0, 1.0)), hash21(i + vec2(1.0, 1.0)), u.x), u.y);
+}
+
+void main(void) {
+    vec2 p = vUV * 12.0;
+    float n = noise(p + vec2(time * 0.3, time * 0.2)) * 0.6 + noise(p * 2.0 - time * 0.5) * 0.4;
+
+    // Bubbles: one per cell, growing and popping
+    vec2 cell = floor(p * 0.5);
+    vec2 local = fract(p * 0.5) - 0.5;
+    float phase = fract(time * 0.4 + hash21(cell));
+    float bubble = smoothstep(0.05, 0.0, abs(length(local) - phase * 0.4)) * (1.0 - phase);
+
+    vec3 color = mix(vec3(0.05, 0.25, 0.02), vec3(0.45, 1.0, 0.1), n);
+    color += vec3(0.6, 1.0, 0.4) * bubble;
+    gl_FragColor = vec4(color, 1.0);
+}
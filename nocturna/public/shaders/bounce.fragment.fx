@@ -0,0 +1,18 @@
+// Bounce - face pushing the player away
+// Blue rings expanding from the center of the face.
+
+precision highp float;
+
+uniform float time;
+varying vec2 vUV;
+
+void main(void) {
+    vec2 p = vUV - 0.5;
+    float d = length(p);
+    float rings = sin(d * 60.0 - time * 6.0) * 0.5 + 0.5;
+    rings = pow(rings, 4.0);
+    float glow = 0.3 + 0.2 * sin(time * 3.0);
+
+    vec3 color = vec3(0.02, 0.05, 0.2) + vec3(0.2, 0.6, 1.0) * rings * (1.0 - d) + vec3(0.1, 0.2, 0.5) * glow;
+    gl_FragColor = vec4(color, 1.0);
+}
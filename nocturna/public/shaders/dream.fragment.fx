@@ -0,0 +1,39 @@
+// Dream - slowly drifting pastel clouds for the walls of the "dream" theme
+
+precision highp float;
+
+uniform float time;
+varying vec2 vUV;
+
+float hash21(vec2 n) {
+    return fract(sin(dot(n, vec2(12.9898, 4.1414))) * 43758.5453);
+}
+
+float noise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash21(i), hash21(i + vec2(1.0, 0.0)), f.x),
+               mix(hash21(i + vec2(0.0, 1.0)), hash21(i + vec2(1.0, 1.0)), f.x), f.y);
+}
+
+float fbm(vec2 p) {
+    float value = 0.0;
+    float amplitude = 0.5;
+    for (int i = 0; i < 5; i++) {
+        value += amplitude * noise(p);
+        p *= 2.0;
+        amplitude *= 0.5;
+    }
+    return value;
+}
+
+void main(void) {
+    vec2 p = vUV * 4.0;
+    float clouds = fbm(p + vec2(time * 0.03, time * 0.02) + fbm(p - time * 0.02));
+
+    vec3 deep = vec3(0.08, 0.05, 0.16);
+    vec3 pastel = vec3(0.45, 0.3, 0.6);
+    vec3 color = mix(deep, pastel, smoothstep(0.35, 0.85, clouds));
+    gl_FragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,17 @@
+// Safe floor - face the player can stand on
+// Dim tiles with a slowly breathing cyan outline.
+
+precision highp float;
+
+uniform float time;
+varying vec2 vUV;
+
+void main(void) {
+    vec2 p = vUV * 20.0;
+    vec2 grid = abs(fract(p) - 0.5);
+    float line = smoothstep(0.45, 0.5, max(grid.x, grid.y));
+    float pulse = 0.6 + 0.4 * sin(time * 1.5);
+
+    vec3 color = vec3(0.06, 0.07, 0.09) + vec3(0.1, 0.6, 0.7) * line * pulse;
+    gl_FragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,25 @@
+// Sky - vertical gradient between two colors, sprinkled with faint stars
+
+precision highp float;
+
+uniform vec3 topColor;
+uniform vec3 bottomColor;
+uniform float time;
+varying vec3 vDirection;
+
+float hash31(vec3 p) {
+    return fract(sin(dot(p, vec3(12.9898, 78.233, 45.164))) * 43758.5453);
+}
+
+void main(void) {
+    vec3 direction = normalize(vDirection);
+    vec3 color = mix(bottomColor, topColor, smoothstep(-0.6, 0.8, direction.y));
+
+    // Stars: sparse cells of the direction, twinkling slowly
+    vec3 cell = floor(direction * 120.0);
+    float star = step(0.997, hash31(cell));
+    float twinkle = 0.5 + 0.5 * sin(time * 2.0 + hash31(cell + 7.0) * 6.2831);
+    color += vec3(star * twinkle * 0.6);
+
+    gl_FragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,29 @@
+// Tar - sticky face
+// Dark purple viscous surface slowly flowing, with glossy highlights.
+
+precision highp float;
+
+uniform float time;
+varying vec2 vUV;
+
+float hash21(vec2 n) {
+    return fract(sin(dot(n, vec2(12.9898, 4.1414))) * 43758.5453);
+}
+
+float noise(vec2 x) {
+    vec2 i = floor(x);
+    vec2 f = fract(x);
+    vec2 u = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash21(i), hash21(i + vec2(1.0, 0.0)), u.x),
+               mix(hash21(i + vec2(0.0, 1.0)), hash21(i + vec2(1.0, 1.0)), u.x), u.y);
+}
+
+void main(void) {
+    vec2 p = vUV * 6.0;
+    float n = noise(p + vec2(time * 0.05, -time * 0.08));
+    n = noise(p + n * 2.0 + time * 0.03);
+    float highlight = smoothstep(0.7, 0.9, n);
+
+    vec3 color = mix(vec3(0.04, 0.01, 0.06), vec3(0.2, 0.05, 0.25), n) + vec3(0.5, 0.4, 0.6) * highlight * 0.4;
+    gl_FragColor = vec4(color, 1.0);
+}
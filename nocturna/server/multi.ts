@@ -91,6 +91,17 @@ class RoomManager {
         return this.rooms.get(id);
     }
 
+    getFreeRoomId() : string {
+        let roomId = getRandomId();
+
+        // Check if the roomId already exists
+        // If it does, generate a new one
+        while(this.rooms.has(roomId)) {
+            roomId = getRandomId();
+        }
+        return roomId;
+    }
+
     createRoom(id, connection) {
         if(this.rooms.size >= RoomManager.MAX_ROOMS) {
             connection.sendError(MultiProtocol.CREATE_CMD, "Max rooms reached");
@@ -172,7 +183,9 @@ class Connection {
             if(msg.cmd === MultiProtocol.CALL_CMD) this.call(msg.remoteId, msg.offer);
             else if(msg.cmd === MultiProtocol.ANSWER_CMD) this.answer(msg.remoteId, msg.answer);
             else if(msg.cmd === MultiProtocol.ICE_CANDIDATE_CMD) this.addICECandidate(msg.remoteId, msg.candidate);
-            else if(msg.cmd === MultiProtocol.JOIN_CMD) this.roomManager.joinRoom(this.roomId as string, msg.playerId, this);
+            else if(msg.cmd === MultiProtocol.JOIN_CMD) this.roomManager.joinRoom(msg.roomId ?? this.roomId, msg.playerId, this);
+            else if(msg.cmd === MultiProtocol.CREATE_CMD) this.roomManager.createRoom(this.roomManager.getFreeRoomId(), this);
+            else if(msg.cmd === MultiProtocol.LEAVE_CMD) this.leave();
         });
 
         ws.on('close', () => {
@@ -182,6 +195,15 @@ class Connection {
         });
     }
 
+    // The client leaves its room but keeps the connection, to create or join another room
+    private leave() {
+        if(!this.roomId) {
+            this.sendError(MultiProtocol.LEAVE_CMD, "Not in a room");
+            return;
+        }
+        this.roomManager.leaveRoom(this.roomId, this.participantId, this);
+    }
+
     private forward(remoteId: string, req: any) {
         const room = this.roomManager.getRoom(this.roomId);
         if(!room) {
@@ -247,15 +269,7 @@ export class MultiProtocol {
     }
 
     private createRoom(connection: Connection) {
-        let roomId = getRandomId();
-
-        // Check if the roomId already exists
-        // If it does, generate a new one
-        while(this.roomManager.getRoom(roomId)) {
-            roomId = getRandomId();
-        }
-
-        this.roomManager.createRoom(roomId, connection);
+        this.roomManager.createRoom(this.roomManager.getFreeRoomId(), connection);
     }
 
     handleConnection(ws: any) {
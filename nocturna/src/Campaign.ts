@@ -0,0 +1,151 @@
+/**
+ * Campaign.ts defines the singleplayer campaign: chapters of ordered levels and their unlock rules.
+ *
+ * Responsibilities:
+ * - Loads the campaign manifest (`game_levels.json`) and supports the legacy flat level list.
+ * - Evaluates the unlock rules of each level against the player's progress.
+ * - Finds the level following a given level, across chapters.
+ *
+ * Usage:
+ * - Use `await Campaign.load(fileName)` to load a manifest from assets/levels/.
+ * - Use `isUnlocked(file, progress)` to know if a level can be played.
+ * - Use `getNextLevel(file)` to continue the campaign after a win.
+ * - The player progress is provided by `PlayerProgress`.
+ *
+ * Manifest format:
+ * { "chapters": [ { "name": "...", "levels": [ { "name": "...", "file": "...", "unlock": { "previous": true, "coins": 10 } } ] } ] }
+ * Every condition of `unlock` must hold: `previous` (the previous level is completed), `level` (a given level file
+ * is completed) and `coins` (at least this many coins collected over the whole campaign). Levels without `unlock`
+ * are always available.
+ */
+
+/**
+ * UnlockRule lists the conditions to unlock a level.
+ */
+export interface UnlockRule {
+    previous?: boolean;
+    level?: string;
+    coins?: number;
+}
+
+/**
+ * CampaignLevel describes one level of the campaign.
+ */
+export interface CampaignLevel {
+    name: string;
+    file: string;
+    unlock?: UnlockRule;
+}
+
+/**
+ * CampaignChapter is a named group of ordered levels.
+ */
+export interface CampaignChapter {
+    name: string;
+    levels: CampaignLevel[];
+}
+
+/**
+ * CampaignProgress gives the player progress needed to evaluate unlock rules.
+ */
+export interface CampaignProgress {
+    isCompleted(file: string): boolean;
+    getTotalCoins(): number;
+}
+
+/**
+ * Campaign holds the chapters of the campaign and evaluates unlock rules.
+ */
+export class Campaign {
+    private chapters: CampaignChapter[];
+
+    /**
+     * Constructs a campaign from a manifest.
+     * @param manifest Either `{ chapters: [...] }` or a flat list of `{ name, file }` (single chapter, no unlock rules).
+     */
+    constructor(manifest: any) {
+        if (Array.isArray(manifest)) {
+            this.chapters = [{ name: "", levels: manifest }];
+        } else if (manifest && Array.isArray(manifest.chapters)) {
+            this.chapters = manifest.chapters;
+        } else {
+            throw new Error("Invalid campaign manifest: expected a list of levels or a chapters array");
+        }
+    }
+
+    /**
+     * Loads a campaign manifest from the levels directory.
+     * @param fileName The manifest file name (e.g. "game_levels.json").
+     */
+    public static async load(fileName: string): Promise<Campaign> {
+        const response = await fetch("/assets/levels/" + fileName);
+        if (!response.ok) {
+            throw new Error(`Failed to load ${fileName}: ${response.status} ${response.statusText}`);
+        }
+        return new Campaign(await response.json());
+    }
+
+    /**
+     * Returns the chapters of the campaign.
+     */
+    public getChapters(): CampaignChapter[] {
+        return this.chapters;
+    }
+
+    /**
+     * Returns all the levels of the campaign, in play order.
+     */
+    public getLevels(): CampaignLevel[] {
+        return this.chapters.reduce((levels, chapter) => levels.concat(chapter.levels), [] as CampaignLevel[]);
+    }
+
+    /**
+     * Returns the level using the given file, or null if it is not part of the campaign.
+     * @param file The level file.
+     */
+    public getLevel(file: string): CampaignLevel | null {
+        return this.getLevels().find(level => level.file === file) ?? null;
+    }
+
+    /**
+     * Returns the level following the given one, or null if it is the last level (or not in the campaign).
+     * @param file The current level file.
+     */
+    public getNextLevel(file: string): CampaignLevel | null {
+        const levels = this.getLevels();
+        const index = levels.findIndex(level => level.file === file);
+        if (index < 0 || index + 1 >= levels.length) {
+            return null;
+        }
+        return levels[index + 1];
+    }
+
+    /**
+     * Checks whether a level can be played.
+     * @param file The level file.
+     * @param progress The player progress.
+     * @returns True if every condition of the level's unlock rule holds.
+     */
+    public isUnlocked(file: string, progress: CampaignProgress): boolean {
+        const levels = this.getLevels();
+        const index = levels.findIndex(level => level.file === file);
+        if (index < 0) {
+            return false;
+        }
+
+        const rule = levels[index].unlock;
+        if (!rule) {
+            return true;
+        }
+        if (rule.previous && index > 0 && !progress.isCompleted(levels[index - 1].file)) {
+            return false;
+        }
+        if (rule.level && !progress.isCompleted(rule.level)) {
+            return false;
+        }
+        if (rule.coins && progress.getTotalCoins() < rule.coins) {
+            return false;
+        }
+        return true;
+    }
+}
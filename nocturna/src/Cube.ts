@@ -1,15 +1,21 @@
-import { Scene, Vector3, MeshBuilder, Color3, PhysicsAggregate, PhysicsShapeType, PhysicsBody } from "@babylonjs/core";
+import { Scene, Vector3, MeshBuilder, Color3, PhysicsAggregate, PhysicsShapeType, PhysicsBody, ShaderMaterial, Observer, Mesh } from "@babylonjs/core";
 import { Face } from "./Face";
-import { createEvilPortalMaterial, createLavaMaterial } from "./Shaders/NocturnaShaders";
+import { createAcidMaterial, createBounceMaterial, createEvilPortalMaterial, createLavaMaterial, createSafeFloorMaterial, createTarMaterial } from "./Shaders/NocturnaShaders";
 import { CollisionGroup } from "./types";
+import { CubeFace, FaceHazard, LevelSchema, ThemeData } from "./LevelSchema";
+import { Environment } from "./Environment";
+import { LevelScope } from "./LevelScope";
 
 /**
  * Cube represents the main cubic structure in Nocturna, serving as the central environment for gameplay.
  * 
  * Responsibilities:
  * - Creates and manages the six faces of the cube, each as a Face object.
- * - Handles physics setup for each face, including collision detection (especially for the bottom/lava face).
- * - Supports observer pattern for collision events (CubeCollisionObserver).
+ * - Gives each face the behavior declared by the level (`Cube.faces`): kill (lava), damage (acid), bounce, sticky (tar),
+ *   safe floor or inert, each hazard with its own shader material.
+ * - Handles physics setup for each face, including collision detection for the faces with a hazard.
+ * - Supports observer pattern for collision events (CubeCollisionObserver), reporting the face and its hazard.
+ * - Builds the environment of the level theme (lights, fog, skybox, ambient particles) and dresses the faces with its look.
  * - Provides serialization for saving/loading cube state.
  * - Supports multiplayer setup by adding separators and portal effects for multi-mode.
  * - Manages cleanup and disposal of all cube resources.
@@ -20,10 +26,22 @@ export class Cube {
     private faces: Face[] = [];
     private mesh: any;
     private collisionObserver: CubeCollisionObserver | null = null;
-    private lavaObserver: any;
+    private shaderMaterials: ShaderMaterial[] = [];
+    private timeObserver: Observer<Scene> | null = null;
+    private separators: Mesh[] = [];
+    private environment: Environment | null = null;
 
     public static readonly Type: string = "Cube";
 
+    /** Shader material of each hazard; inert faces keep their plain material. */
+    private static readonly HazardMaterials: { [hazard in FaceHazard]?: (scene: Scene) => ShaderMaterial } = {
+        kill: createLavaMaterial,
+        damage: createAcidMaterial,
+        bounce: createBounceMaterial,
+        sticky: createTarMaterial,
+        safe: createSafeFloorMaterial,
+    };
+
     /**
      * Constructs a new Cube.
      * @param scene - The Babylon.js scene.
@@ -36,7 +54,7 @@ export class Cube {
 
     /**
      * Sets the collision observer for the cube.
-     * @param observer - The observer to notify on bottom face collisions.
+     * @param observer - The observer to notify on collisions with the faces having a hazard.
      */
     public setCollisionObserver(observer: CubeCollisionObserver): void {
         this.collisionObserver = observer;
@@ -54,9 +72,12 @@ export class Cube {
      * @param scene - The Babylon.js scene.
      * @param position - The position of the cube.
      * @param size - The size of the cube.
+     * @param faces - The hazard of the faces differing from the defaults (bottom face killing, others inert).
+     * @param theme - The theme of the level, if any (default: the "classic" theme).
      * @returns The created Cube instance.
      */
-    public static create(scene: Scene, position: Vector3 = Vector3.Zero(), size: number): Cube {
+    public static create(scene: Scene, position: Vector3 = Vector3.Zero(), size: number, faces?: { [face in CubeFace]?: FaceHazard },
+                         theme?: ThemeData): Cube {
         const cube = new Cube(scene, size);
 
         const mesh = MeshBuilder.CreateBox("cubeMesh", { size: size }, scene);
@@ -64,16 +85,23 @@ export class Cube {
         mesh.isVisible = false;
         cube.mesh = mesh; 
 
-        cube.createPlanes();
+        cube.environment = new Environment(scene, theme, position, size);
+        cube.shaderMaterials.push(cube.environment.getSkyMaterial());
+        cube.createPlanes(LevelSchema.faces(faces));
+        cube.timeObserver = LevelScope.of(scene).observe(scene.onBeforeRenderObservable, () => {
+            const time = performance.now() / 1000;
+            cube.shaderMaterials.forEach(material => material.setFloat("time", time));
+        });
 
         return cube;
     }
 
     /**
      * Creates the six faces of the cube, sets up their colors, physics, and special materials.
-     * The bottom face uses a lava shader and notifies the collision observer on contact.
+     * The faces with a hazard use its shader material; the faces whose hazard acts on contact notify the collision observer.
+     * @param hazards - The hazard of each face.
      */
-    private createPlanes() {
+    private createPlanes(hazards: { [face in CubeFace]: FaceHazard }) {
         const colors = [
             new Color3(1, 0, 0), // Red
             new Color3(0, 1, 0), // Green
@@ -98,46 +126,56 @@ export class Cube {
             new Vector3(-Math.PI / 2, 0, 0),
             new Vector3(Math.PI / 2, 0, 0)
         ];
-        const names = [
-            "Front",
-            "Back",
-            "Right",
-            "Left",
-            "Top",
-            "Bottom"
-        ];
+        const names = LevelSchema.CubeFaces;
         for (let i = 0; i < 6; i++) {
-            const face = new Face(this.scene, this.size, this.mesh, positions[i], names[i], colors[i], rotations[i]);
+            const hazard = hazards[names[i]];
+            const face = new Face(this.scene, this.size, this.mesh, positions[i], names[i], colors[i], rotations[i], hazard,
+                this.environment.getSettings().faces);
             this.faces.push(face);
             // Add physics to the face if the physics engine is enabled
             if (this.scene.getPhysicsEngine()) {
                 const aggregate = new PhysicsAggregate(face.getMesh(), PhysicsShapeType.BOX, { mass: 0 });
 
-                if(names[i] === "Bottom") {
+                if (hazard !== "inert" && hazard !== "safe") {
                     aggregate.body.setCollisionCallbackEnabled(true);
-                    // Add collision detection for the bottom face
+                    // Add collision detection for the faces acting on contact
                     aggregate.shape.filterMembershipMask = CollisionGroup.FACES;
                     aggregate.shape.filterCollideMask = 0xFFFFFFFF; // Allow all collisions
-                    
-                    aggregate.body.getCollisionObservable().add((collider) => {
+
+                    LevelScope.of(this.scene).observe(aggregate.body.getCollisionObservable(), (collider) => {
                         if (this.collisionObserver) {
-                            this.collisionObserver.onBottomCollision(collider.collidedAgainst);
+                            this.collisionObserver.onFaceCollision({
+                                collider: collider.collidedAgainst,
+                                face: face.getName(),
+                                hazard: hazard,
+                                normal: face.getNormal().negate(),
+                            });
                         }
                     });
                 }
             }
 
-            if(names[i] === "Bottom") {
-                // Set lava shader for the bottom face
-                const lavaMaterial = createLavaMaterial(this.scene);
-                face.getMesh().material = lavaMaterial;
-                const lavaObserver = this.scene.registerBeforeRender(() => {
-                    lavaMaterial.setFloat("time", performance.now() / 1000);
-                });
+            const createMaterial = Cube.HazardMaterials[hazard];
+            if (createMaterial) {
+                // Replace the plain material by the shader of the hazard
+                const material = createMaterial(this.scene);
+                face.getMesh().material.dispose();
+                face.getMesh().material = material;
+            }
+            if (face.getMesh().material instanceof ShaderMaterial) {
+                this.shaderMaterials.push(face.getMesh().material as ShaderMaterial);
             }
         }
     }
 
+    /**
+     * Returns the face whose outward normal is the given direction, if any.
+     * @param normal - The outward normal (unit vector along an axis).
+     */
+    public getFaceAt(normal: Vector3): Face | undefined {
+        return this.faces.find(face => face.getNormal().equalsWithEpsilon(normal));
+    }
+
     /**
      * Disposes all resources associated with the cube, including faces, meshes, materials, and observers.
      */
@@ -162,8 +200,20 @@ export class Cube {
             this.mesh.dispose();
         }
 
-        this.scene.onBeforeRenderObservable.remove(this.lavaObserver);
-        this.lavaObserver = null;
+        // Dispose the multiplayer separators and their shared portal material
+        this.separators.forEach(separator => {
+            separator.physicsBody?.dispose();
+            separator.material?.dispose();
+            separator.dispose();
+        });
+        this.separators = [];
+
+        this.scene.onBeforeRenderObservable.remove(this.timeObserver);
+        this.timeObserver = null;
+        this.shaderMaterials = [];
+
+        this.environment?.dispose();
+        this.environment = null;
 
         this.faces = [];
         this.mesh = null;
@@ -236,9 +286,15 @@ export class Cube {
             new PhysicsAggregate(verticalPlatform, PhysicsShapeType.BOX, { mass: 0 });
 
             aggregate.body.setCollisionCallbackEnabled(true);
-            aggregate.body.getCollisionObservable().add((collider) => {
+            LevelScope.of(this.scene).observe(aggregate.body.getCollisionObservable(), (collider) => {
                 if (this.collisionObserver) {
-                    this.collisionObserver.onBottomCollision(collider.collidedAgainst);
+                    // The horizontal separator kills like lava
+                    this.collisionObserver.onFaceCollision({
+                        collider: collider.collidedAgainst,
+                        face: horizontalPlatform.name,
+                        hazard: "kill",
+                        normal: Vector3.Up(),
+                    });
                 }
             });
         }
@@ -249,10 +305,9 @@ export class Cube {
         const portalMat = createEvilPortalMaterial(this.scene);
         horizontalPlatform.material = portalMat;
         verticalPlatform.material = portalMat;
+        this.separators.push(horizontalPlatform, verticalPlatform);
 
-        this.scene.registerBeforeRender(() => {
-            portalMat.setFloat("time", performance.now() / 1000);
-        });
+        this.shaderMaterials.push(portalMat);
 
         // Optionally, these platforms could be parented to the face mesh
         // horizontalPlatform.parent = mesh;
@@ -266,6 +321,13 @@ export class Cube {
         return this.mesh;
     }
 
+    /**
+     * Returns the environment of the level theme.
+     */
+    public getEnvironment(): Environment {
+        return this.environment;
+    }
+
     /**
      * Returns all faces of the cube.
      */
@@ -274,22 +336,43 @@ export class Cube {
     }
 
     /**
-     * Serializes the cube's position and size for saving or exporting.
-     * @returns An object containing the cube's position and size.
+     * Serializes the cube's position, size and face hazards for saving or exporting.
+     * @returns An object containing the cube's position, size and the hazards differing from the defaults.
      */
     public serialize(): any {
-        const data = {
-            position: this.mesh.position,
+        const data: any = {
+            position: LevelSchema.vec3(this.mesh.position),
             size: this.size,
         };
+        const faces = {};
+        this.faces
+            .filter(face => face.getHazard() !== LevelSchema.DefaultFaces[face.getName()])
+            .forEach(face => faces[face.getName()] = face.getHazard());
+        if (Object.keys(faces).length > 0) {
+            data.faces = faces;
+        }
         return data;
     }
 }
 
+/**
+ * FaceCollision describes a collision between an object and a face of the cube having a hazard.
+ */
+export interface FaceCollision {
+    /** The body touching the face. */
+    collider: PhysicsBody;
+    /** The name of the face (e.g. "Bottom"), or of the multiplayer separator. */
+    face: string;
+    /** The hazard of the face. */
+    hazard: FaceHazard;
+    /** Inward normal of the face, pointing to the cube center. */
+    normal: Vector3;
+}
+
 /**
  * CubeCollisionObserver is an interface for objects that want to be notified
- * when a collision occurs with the bottom face of the cube (e.g., for player death).
+ * when a collision occurs with a face of the cube having a hazard (e.g., for player death on the lava).
  */
 export interface CubeCollisionObserver {
-    onBottomCollision: (collider: PhysicsBody) => void;
+    onFaceCollision: (collision: FaceCollision) => void;
 }
\ No newline at end of file
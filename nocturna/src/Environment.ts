@@ -0,0 +1,226 @@
+import { Color3, Color4, DynamicTexture, HemisphericLight, Light, Mesh, MeshBuilder, ParticleSystem, PointLight, Scene, ShaderMaterial, Vector3 } from "@babylonjs/core";
+import { ParticleEffect, ThemeData, ThemeParticles, ThemeSettings } from "./LevelSchema";
+import { ThemeCatalog } from "./ThemeCatalog";
+import { createSkyMaterial } from "./Shaders/NocturnaShaders";
+
+/**
+ * Environment.ts defines the Environment class, which builds the theme of a level around the cube.
+ *
+ * Responsibilities:
+ * - Resolves the `theme` block of the level against the built-in themes of the ThemeCatalog.
+ * - Creates the light rig (a hemispheric light and an optional glow at the center of the cube), the fog,
+ *   the skybox (a gradient sky) and the ambient particles (dream dust, embers, snow).
+ * - Keeps the `theme` block of the level so the editor saves it unchanged.
+ *
+ * Usage:
+ * - Created by the Cube with the theme of the level; the look of the faces (`getSettings().faces`) is applied by the Cube.
+ * - Call `dispose()` to remove the lights, the fog, the skybox and the particles from the scene.
+ */
+
+/**
+ * ParticlePreset describes how the particles of an ambient effect move.
+ */
+interface ParticlePreset {
+    direction1: Vector3;
+    direction2: Vector3;
+    minEmitPower: number;
+    maxEmitPower: number;
+    minLifeTime: number;
+    maxLifeTime: number;
+    minSize: number;
+    maxSize: number;
+}
+
+/**
+ * Environment holds the lights, fog, skybox and ambient particles of a level theme.
+ */
+export class Environment {
+    /** Size of the skybox; it follows the camera, so it only has to fit in the camera range. */
+    private static readonly SkySize: number = 8000;
+
+    /** Movement of the particles of each ambient effect. */
+    private static readonly ParticlePresets: { [effect in ParticleEffect]?: ParticlePreset } = {
+        // Dream dust floats slowly in every direction
+        dust: {
+            direction1: new Vector3(-1, -0.5, -1), direction2: new Vector3(1, 1, 1),
+            minEmitPower: 5, maxEmitPower: 15, minLifeTime: 8, maxLifeTime: 14, minSize: 2, maxSize: 5,
+        },
+        embers: {
+            direction1: new Vector3(-0.3, 1, -0.3), direction2: new Vector3(0.3, 1, 0.3),
+            minEmitPower: 30, maxEmitPower: 60, minLifeTime: 4, maxLifeTime: 7, minSize: 2, maxSize: 4,
+        },
+        snow: {
+            direction1: new Vector3(-0.2, -1, -0.2), direction2: new Vector3(0.2, -1, 0.2),
+            minEmitPower: 20, maxEmitPower: 40, minLifeTime: 10, maxLifeTime: 16, minSize: 3, maxSize: 6,
+        },
+    };
+
+    private scene: Scene;
+    private data: ThemeData | undefined;
+    private settings: ThemeSettings;
+    private lights: Light[] = [];
+    private skybox: Mesh | null = null;
+    private skyMaterial: ShaderMaterial | null = null;
+    private particles: ParticleSystem | null = null;
+    private previousClearColor: Color4;
+
+    /**
+     * Constructs the environment of a level and adds it to the scene.
+     * @param scene The Babylon.js scene.
+     * @param data The `theme` block of the level, if any.
+     * @param center The center of the cube.
+     * @param size The size of the cube (half of its width).
+     */
+    constructor(scene: Scene, data: ThemeData | undefined, center: Vector3, size: number) {
+        this.scene = scene;
+        this.data = data;
+        this.settings = ThemeCatalog.resolve(data);
+        this.previousClearColor = scene.clearColor.clone();
+
+        this.createLights(center, size);
+        this.createFog();
+        this.createSkybox();
+        this.createParticles(center, size);
+    }
+
+    /**
+     * Returns the complete settings of the theme.
+     */
+    public getSettings(): ThemeSettings {
+        return this.settings;
+    }
+
+    /**
+     * Returns the material of the sky, whose "time" uniform makes the stars twinkle.
+     */
+    public getSkyMaterial(): ShaderMaterial | null {
+        return this.skyMaterial;
+    }
+
+    /**
+     * Returns the `theme` block of the level, unchanged, or undefined if the level has none.
+     */
+    public serialize(): ThemeData | undefined {
+        return this.data;
+    }
+
+    /**
+     * Creates the hemispheric light and the glow at the center of the cube.
+     */
+    private createLights(center: Vector3, size: number) {
+        const { color, groundColor, intensity, direction, glow } = this.settings.light;
+        const light = new HemisphericLight("themeLight", new Vector3(direction.x, direction.y, direction.z), this.scene);
+        light.diffuse = Color3.FromHexString(color);
+        light.groundColor = Color3.FromHexString(groundColor);
+        light.intensity = intensity;
+        this.lights.push(light);
+
+        if (glow > 0) {
+            const glowLight = new PointLight("themeGlow", center.clone(), this.scene);
+            glowLight.diffuse = Color3.FromHexString(color);
+            glowLight.intensity = glow;
+            glowLight.range = size * 3;
+            this.lights.push(glowLight);
+        }
+    }
+
+    /**
+     * Sets the exponential fog of the scene, and the background to the bottom color of the sky.
+     */
+    private createFog() {
+        const { color, density } = this.settings.fog;
+        this.scene.fogMode = density > 0 ? Scene.FOGMODE_EXP2 : Scene.FOGMODE_NONE;
+        this.scene.fogColor = Color3.FromHexString(color);
+        this.scene.fogDensity = density;
+        this.scene.clearColor = Color4.FromColor3(Color3.FromHexString(this.settings.skybox.bottomColor));
+    }
+
+    /**
+     * Creates the skybox: a box following the camera, painted with the sky gradient.
+     */
+    private createSkybox() {
+        const { topColor, bottomColor } = this.settings.skybox;
+        this.skyMaterial = createSkyMaterial(this.scene);
+        this.skyMaterial.setColor3("topColor", Color3.FromHexString(topColor));
+        this.skyMaterial.setColor3("bottomColor", Color3.FromHexString(bottomColor));
+        this.skyMaterial.backFaceCulling = false;
+
+        this.skybox = MeshBuilder.CreateBox("skyBox", { size: Environment.SkySize, sideOrientation: Mesh.BACKSIDE }, this.scene);
+        this.skybox.material = this.skyMaterial;
+        this.skybox.infiniteDistance = true;
+        this.skybox.isPickable = false;
+    }
+
+    /**
+     * Creates the ambient particles, emitted everywhere in the cube.
+     */
+    private createParticles(center: Vector3, size: number) {
+        const settings: ThemeParticles = this.settings.particles;
+        const preset = Environment.ParticlePresets[settings.effect];
+        if (!preset || settings.count <= 0) {
+            return;
+        }
+
+        const particles = new ParticleSystem("ambientParticles", settings.count, this.scene);
+        particles.particleTexture = this.createParticleTexture();
+        particles.emitter = center.clone();
+        particles.minEmitBox = new Vector3(-size, -size, -size).scale(0.9);
+        particles.maxEmitBox = new Vector3(size, size, size).scale(0.9);
+
+        const color = Color3.FromHexString(settings.color);
+        particles.color1 = Color4.FromColor3(color, 1);
+        particles.color2 = Color4.FromColor3(color, 0.5);
+        particles.colorDead = Color4.FromColor3(color, 0);
+        particles.blendMode = ParticleSystem.BLENDMODE_ADD;
+
+        particles.direction1 = preset.direction1;
+        particles.direction2 = preset.direction2;
+        particles.minEmitPower = preset.minEmitPower;
+        particles.maxEmitPower = preset.maxEmitPower;
+        particles.minLifeTime = preset.minLifeTime;
+        particles.maxLifeTime = preset.maxLifeTime;
+        particles.minSize = preset.minSize;
+        particles.maxSize = preset.maxSize;
+        // Keep about `count` particles alive, already spread when the level starts
+        particles.emitRate = settings.count / ((preset.minLifeTime + preset.maxLifeTime) / 2);
+        particles.preWarmCycles = 100;
+        particles.preWarmStepOffset = 10;
+        particles.start();
+        this.particles = particles;
+    }
+
+    /**
+     * Draws a soft white dot, tinted by the colors of the particles.
+     */
+    private createParticleTexture(): DynamicTexture {
+        const texture = new DynamicTexture("ambientParticleTexture", { width: 32, height: 32 }, this.scene, false);
+        const ctx = texture.getContext();
+        const gradient = ctx.createRadialGradient(16, 16, 0, 16, 16, 16);
+        gradient.addColorStop(0, "rgba(255, 255, 255, 1)");
+        gradient.addColorStop(1, "rgba(255, 255, 255, 0)");
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, 32, 32);
+        texture.hasAlpha = true;
+        texture.update();
+        return texture;
+    }
+
+    /**
+     * Removes the lights, the fog, the skybox and the particles from the scene.
+     */
+    public dispose() {
+        this.lights.forEach(light => light.dispose());
+        this.lights = [];
+
+        this.scene.fogMode = Scene.FOGMODE_NONE;
+        this.scene.clearColor = this.previousClearColor;
+
+        this.skybox?.dispose();
+        this.skyMaterial?.dispose();
+        this.skybox = null;
+        this.skyMaterial = null;
+
+        this.particles?.dispose();
+        this.particles = null;
+    }
+}
@@ -1,4 +1,7 @@
-import { Color3, HemisphericLight, Mesh, MeshBuilder, PhysicsAggregate, PhysicsShapeType, PointLight, Scene, StandardMaterial, Texture, TransformNode, Vector3 } from "@babylonjs/core";
+import { Color3, Mesh, MeshBuilder, PhysicsAggregate, PhysicsShapeType, PointLight, Scene, StandardMaterial, Texture, TransformNode, Vector3 } from "@babylonjs/core";
+import { FaceHazard, ThemeFaces } from "./LevelSchema";
+import { createThemeFaceMaterial } from "./Shaders/NocturnaShaders";
+import { GroundSensor } from "./GroundSensor";
 
 export class Face {
     private scene: Scene;
@@ -8,10 +11,15 @@ export class Face {
     private cubeFace: string;
     private color: Color3;
     private rotation: Vector3;
+    private hazard: FaceHazard;
+    private look: ThemeFaces;
     private mesh: Mesh;
 
-    constructor(scene: Scene, size: number, parent: any, position: Vector3, cubeFace: string, color: Color3, rotation: Vector3) {
+    constructor(scene: Scene, size: number, parent: any, position: Vector3, cubeFace: string, color: Color3, rotation: Vector3, hazard: FaceHazard = "inert",
+                look: ThemeFaces = { color: "#1a1a1a", texture: "", shader: "" }) {
         this.rotation = rotation;
+        this.hazard = hazard;
+        this.look = look;
         this.scene = scene;
         this.size = size;
         this.parent = parent;
@@ -31,19 +39,50 @@ export class Face {
         plane.parent = this.parent;
         plane.name = this.cubeFace;
 
-        // Adjust the position to be relative to the parent cube
-        const material = new StandardMaterial(this.cubeFace + "Material", this.scene);
-        material.diffuseColor = new Color3(0.1, 0.1, 0.1); // Dark color, but not completely black
-        material.backFaceCulling = false; // Ensure the texture is visible from all angles
-        material.specularColor = Color3.Black(); // No specular highlights
-        plane.material = material;
-
-        const pointLight = new HemisphericLight("hemisphericLight", new Vector3(this.position.x / 2, this.position.y / 2, this.position.z / 2), this.scene); // Place light at the center
-        pointLight.intensity = 0.2; // Lower intensity for a dimmer effect
+        // Dress the face with the look of the theme: a shader, or a color and an optional texture
+        if (this.look.shader) {
+            const shaderMaterial = createThemeFaceMaterial(this.scene, this.look.shader);
+            shaderMaterial.backFaceCulling = false;
+            plane.material = shaderMaterial;
+        } else {
+            const material = new StandardMaterial(this.cubeFace + "Material", this.scene);
+            material.diffuseColor = Color3.FromHexString(this.look.color);
+            if (this.look.texture) {
+                material.diffuseTexture = new Texture(this.look.texture, this.scene);
+            }
+            material.backFaceCulling = false; // Ensure the texture is visible from all angles
+            material.specularColor = Color3.Black(); // No specular highlights
+            plane.material = material;
+        }
+        // Safe and sticky faces can be stood on, like platforms
+        if (this.hazard === "safe" || this.hazard === "sticky") {
+            GroundSensor.setWalkable(plane);
+        }
     }
 
     public getMesh() : Mesh {
         return this.mesh;
     }
 
+    /**
+     * Returns the name of the face ("Front", "Back", "Right", "Left", "Top" or "Bottom").
+     */
+    public getName(): string {
+        return this.cubeFace;
+    }
+
+    /**
+     * Returns the behavior of the face when the player touches it.
+     */
+    public getHazard(): FaceHazard {
+        return this.hazard;
+    }
+
+    /**
+     * Returns the outward normal of the face, pointing from the cube center to the face.
+     */
+    public getNormal(): Vector3 {
+        return this.position.normalizeToNew();
+    }
+
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { AbstractMesh, Observer, Quaternion, Scene, TargetCamera, Vector3 } from "@babylonjs/core";
+import { Cube } from "./Cube";
+import { LevelScope } from "./LevelScope";
+
+/**
+ * FaceGravity.ts defines the "face gravity" mode of Nocturna, in which the player can play on every face of the cube.
+ *
+ * Responsibilities:
+ * - Tracks the active face: the wall the player plays against, with its "up" direction (opposite to gravity)
+ *   and its "right" direction (the lateral movement axis).
+ * - Detects when the player walks (or jumps) off an edge of the active face and switches to the adjacent face,
+ *   the world appearing to rotate around the player. The faces killing the player (e.g. the lava) never become active.
+ * - Notifies observers of the new face, so that they reorient gravity, the player controller and the cameras.
+ * - Provides the FaceCamera, a camera following the player while looking at the active face.
+ *
+ * Usage:
+ * - Enabled by the `faceGravity` flag of the level metadata. The player starts on the back face, the face levels
+ *   are built against (gravity towards -Y, moving along X).
+ * - Create a FaceGravity with the cube, register an observer and call `update(position, velocity)` every frame.
+ * - Use `setFrame(frame)` to put the player back on a face it was on (e.g. when respawning at a checkpoint).
+ */
+
+/**
+ * FaceFrame describes the orientation of the player on a face of the cube.
+ * The three vectors are unit axes: `right` = `up` × `normal`.
+ */
+export interface FaceFrame {
+    /** Outward normal of the face, pointing from the cube center to the wall (the camera looks along it). */
+    normal: Vector3;
+    /** Up direction on the face, opposite to gravity. */
+    up: Vector3;
+    /** Lateral movement direction on the face. */
+    right: Vector3;
+}
+
+/**
+ * FaceGravityObserver defines the interface for objects that want to be notified when the active face changes.
+ */
+export interface FaceGravityObserver {
+    onFaceChange(frame: FaceFrame): void;
+}
+
+/**
+ * FaceGravity tracks the active face of the cube and switches to the adjacent face at the edges.
+ */
+export class FaceGravity {
+    /** Frame of the back face, the face levels are built against. */
+    public static readonly StartFrame: FaceFrame = {
+        normal: new Vector3(0, 0, 1),
+        up: new Vector3(0, 1, 0),
+        right: new Vector3(1, 0, 0),
+    };
+    /** Distance to the edge of a face at which the player switches to the adjacent face. */
+    private static readonly EdgeMargin: number = 15;
+
+    private cube: Cube;
+    private frame: FaceFrame;
+    private observers: FaceGravityObserver[] = [];
+
+    /**
+     * Constructs a new FaceGravity, the player starting on the back face.
+     * @param cube The cube of the level.
+     */
+    constructor(cube: Cube) {
+        this.cube = cube;
+        this.frame = FaceGravity.StartFrame;
+    }
+
+    /**
+     * Returns the frame of the active face.
+     */
+    public getFrame(): FaceFrame {
+        return this.frame;
+    }
+
+    /**
+     * Makes a face active, e.g. the face of the checkpoint the player respawns at, and notifies the observers.
+     * @param frame The frame of the face, as returned by `getFrame()`.
+     */
+    public setFrame(frame: FaceFrame) {
+        this.frame = frame;
+        this.observers.forEach(observer => observer.onFaceChange(frame));
+    }
+
+    /**
+     * Registers an observer to be notified when the active face changes.
+     * @param observer The observer to add.
+     */
+    public addObserver(observer: FaceGravityObserver) {
+        this.observers.push(observer);
+    }
+
+    /**
+     * Switches to the adjacent face if the player goes past an edge of the active face.
+     * Crossing a side edge turns around the "up" axis; crossing the top or bottom edge turns around the "right"
+     * axis and reorients gravity towards the previous face.
+     * @param position The position of the player.
+     * @param velocity The velocity of the player; only the edges the player moves towards are crossed.
+     * @returns True if the active face changed.
+     */
+    public update(position: Vector3, velocity: Vector3): boolean {
+        const { normal, up, right } = this.frame;
+        const local = position.subtract(this.cube.getMesh().position);
+        const limit = this.cube.getSize() - FaceGravity.EdgeMargin;
+        const lateral = Vector3.Dot(local, right);
+        const height = Vector3.Dot(local, up);
+        const lateralSpeed = Vector3.Dot(velocity, right);
+        const verticalSpeed = Vector3.Dot(velocity, up);
+
+        let next: FaceFrame | null = null;
+        if (lateral > limit && lateralSpeed > 0) {
+            next = { normal: right, up: up, right: normal.negate() };
+        } else if (lateral < -limit && lateralSpeed < 0) {
+            next = { normal: right.negate(), up: up, right: normal };
+        } else if (height > limit && verticalSpeed > 0) {
+            next = { normal: up, up: normal.negate(), right: right };
+        } else if (height < -limit && verticalSpeed < 0) {
+            next = { normal: up.negate(), up: normal, right: right };
+        }
+
+        if (!next || this.cube.getFaceAt(next.normal)?.getHazard() === "kill") {
+            return false;
+        }
+        this.frame = next;
+        this.observers.forEach(observer => observer.onFaceChange(next));
+        return true;
+    }
+
+    /**
+     * Removes all observers.
+     */
+    public dispose() {
+        this.observers = [];
+    }
+}
+
+/**
+ * FaceCamera follows a target while looking at the active face, the "up" of the face being the top of the screen.
+ * It swings smoothly onto the new face when the active face changes, at the same pace whatever the frame rate.
+ */
+export class FaceCamera extends TargetCamera {
+    /** Time to cover half of the remaining distance (and rotation), in milliseconds. */
+    private static readonly HalfLife: number = 110;
+
+    private followed: AbstractMesh;
+    private faceGravity: FaceGravity;
+    private distance: number;
+    private height: number;
+    private renderObserver: Observer<Scene> | null;
+
+    /**
+     * Constructs a new FaceCamera, placed at its final position.
+     * @param name The name of the camera.
+     * @param scene The Babylon.js scene.
+     * @param target The mesh to follow.
+     * @param faceGravity The face gravity giving the active face.
+     * @param distance The distance between the target and the camera, away from the face.
+     * @param height The height of the camera above the target, along the "up" of the face.
+     */
+    constructor(name: string, scene: Scene, target: AbstractMesh, faceGravity: FaceGravity, distance: number, height: number = 0) {
+        super(name, Vector3.Zero(), scene);
+        this.followed = target;
+        this.faceGravity = faceGravity;
+        this.distance = distance;
+        this.height = height;
+        this.rotationQuaternion = Quaternion.Identity();
+        // The top of the screen follows the rotation, whatever the axis
+        this.updateUpVectorFromRotation = true;
+        this.follow(1);
+        this.renderObserver = LevelScope.of(scene).observe(scene.onBeforeRenderObservable, () => {
+            this.follow(1 - Math.pow(0.5, scene.getEngine().getDeltaTime() / FaceCamera.HalfLife));
+        });
+    }
+
+    /**
+     * Stops following the target and disposes the camera.
+     * @param doNotRecurse Set to true to not recurse into each children.
+     * @param disposeMaterialAndTextures Set to true to also dispose referenced materials and textures.
+     */
+    public dispose(doNotRecurse?: boolean, disposeMaterialAndTextures: boolean = false): void {
+        if (this.renderObserver !== null) {
+            this.getScene().onBeforeRenderObservable.remove(this.renderObserver);
+            this.renderObserver = null;
+        }
+        super.dispose(doNotRecurse, disposeMaterialAndTextures);
+    }
+
+    /**
+     * Moves the camera towards its position relative to the target on the active face.
+     * @param amount The fraction of the movement to do (1 to jump to the final position).
+     */
+    private follow(amount: number) {
+        const { normal, up } = this.faceGravity.getFrame();
+        const target = this.followed.getAbsolutePosition();
+        const position = target.subtract(normal.scale(this.distance)).addInPlace(up.scale(this.height));
+        const rotation = Quaternion.FromLookDirectionLH(target.subtract(position).normalize(), up);
+
+        this.position = Vector3.Lerp(this.position, position, amount);
+        Quaternion.SlerpToRef(this.rotationQuaternion, rotation, amount, this.rotationQuaternion);
+    }
+}
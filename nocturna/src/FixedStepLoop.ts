@@ -0,0 +1,70 @@
+import { EngineOptions, Scene } from "@babylonjs/core";
+
+/**
+ * FixedStepLoop.ts defines the fixed-timestep clock of the game loop.
+ *
+ * Responsibilities:
+ * - Gives the options running the Babylon.js engine in deterministic lockstep: each rendered frame, the scene
+ *   consumes the real time elapsed in fixed simulation steps (at most `MaxSteps`, the late time being caught
+ *   up in the next frames), so that the game logic and the physics give the same results whatever the refresh
+ *   rate of the monitor.
+ * - Mirrors the time accumulated by the scene but not simulated yet, which Babylon.js keeps private, to give the
+ *   interpolation factor between the last two steps, used to render smooth motion between them.
+ *
+ * Usage:
+ * - Create the engine with `FixedStepLoop.engineOptions()`; every `update(dt)` of the game then receives
+ *   `FixedStepLoop.StepMs` (in milliseconds).
+ * - Call `beginFrame(frameMs)` before the scene animates a frame, `onStep()` at each of its steps
+ *   (`scene.onBeforeStepObservable`), then `alpha()` to interpolate the rendering (see `BaseScene.renderFrame`).
+ * - Call `reset()` when the scene is recreated.
+ */
+export class FixedStepLoop {
+    /** Number of simulation steps per second. */
+    public static readonly Rate: number = 120;
+    /** Duration of a simulation step, in milliseconds. */
+    public static readonly StepMs: number = 1000 / FixedStepLoop.Rate;
+    /** Maximum number of steps simulated for one rendered frame. */
+    public static readonly MaxSteps: number = 8;
+
+    private accumulator: number = 0;
+
+    /**
+     * Returns the engine options stepping the scenes at the fixed rate.
+     */
+    public static engineOptions(): EngineOptions {
+        return {
+            deterministicLockstep: true,
+            lockstepMaxSteps: FixedStepLoop.MaxSteps,
+            timeStep: FixedStepLoop.StepMs / 1000,
+        };
+    }
+
+    /**
+     * Accumulates the time elapsed since the previous frame, as the scene does before stepping.
+     * @param frameMs The real time elapsed since the previous frame, in milliseconds.
+     */
+    public beginFrame(frameMs: number) {
+        this.accumulator += Math.max(Scene.MinDeltaTime, Math.min(frameMs, Scene.MaxDeltaTime));
+    }
+
+    /**
+     * Consumes a simulation step from the accumulated time.
+     */
+    public onStep() {
+        this.accumulator = Math.max(this.accumulator - FixedStepLoop.StepMs, 0);
+    }
+
+    /**
+     * Returns the fraction of a step left in the accumulator (between 0 and 1), to interpolate the rendering.
+     */
+    public alpha(): number {
+        return Math.min(this.accumulator / FixedStepLoop.StepMs, 1);
+    }
+
+    /**
+     * Drops the time accumulated but not simulated yet.
+     */
+    public reset() {
+        this.accumulator = 0;
+    }
+}
@@ -0,0 +1,246 @@
+/**
+ * Checkpoint.ts defines the Checkpoint game object and its factory.
+ *
+ * Responsibilities:
+ * - Implements the Checkpoint class, a pad the player activates by touching it; the player respawns on the last
+ *   activated checkpoint instead of losing the level.
+ * - Shows whether the checkpoint is active (its glow) and plays a sound when it is activated.
+ * - Provides a CheckpointFactory for instantiating checkpoints in the game or editor.
+ * - Integrates with Babylon.js for mesh, material and physics management; the pad follows the rotations of its group.
+ *
+ * Usage:
+ * - Use `CheckpointFactory.create(config)` to create a checkpoint for gameplay (with physics and collision).
+ * - Use `CheckpointFactory.createForEditor(config)` to create a checkpoint for the editor (without physics).
+ * - The checkpoint can be visited by a GameObjectVisitor, which decides to `activate()` it.
+ * - Use `getSpawnPosition()` to know where the player respawns.
+ */
+
+import { Color3, Mesh, MeshBuilder, PhysicsAggregate, PhysicsShapeType, Scene, StandardMaterial, StaticSound, Vector3 } from "@babylonjs/core";
+import { CharacterInput, EditorObject, GameObject, GameObjectConfig, GameObjectFactory, GameObjectObserver, GameObjectVisitor, Utils } from "../types";
+import { ObjectEditorImpl } from "./EditorObject";
+import { GroundSensor } from "../GroundSensor";
+
+/**
+ * Checkpoint represents a respawn point of the player.
+ * - Handles mesh, physics, activation feedback and sound.
+ * - Implements the GameObject interface.
+ */
+export class Checkpoint implements GameObject {
+    public static readonly Type: string = "checkpoint";
+    private static nextId: number = 0;
+    /** Height above the pad at which the player respawns. */
+    private static readonly SpawnHeight: number = 10;
+    private static readonly InactiveColor: Color3 = new Color3(0.3, 0.3, 0.35);
+    private static readonly ActiveColor: Color3 = new Color3(0.2, 1, 0.4);
+
+    private scene: Scene;
+    private mesh: Mesh;
+    private material: StandardMaterial;
+    private id: string;
+    private active: boolean = false;
+    private sounds: Map<string, StaticSound> = new Map();
+
+    /**
+     * Constructs a new Checkpoint.
+     * @param mesh The mesh of the pad.
+     * @param material The material of the pad, lit when the checkpoint is active.
+     * @param scene The Babylon.js scene.
+     */
+    constructor(mesh: Mesh, material: StandardMaterial, scene: Scene) {
+        this.mesh = mesh;
+        this.material = material;
+        this.scene = scene;
+        this.id = `${Checkpoint.Type}_${Checkpoint.nextId++}`;
+        this.showActive(false);
+    }
+
+    /**
+     * Adds a sound effect to the checkpoint.
+     * @param name The sound name.
+     * @param sound The StaticSound instance.
+     */
+    public addSound(name: string, sound: StaticSound): void {
+        this.sounds.set(name, sound);
+    }
+
+    /**
+     * Plays a sound effect by name.
+     * @param name The sound name.
+     */
+    public playSound(name: string): void {
+        const sound = this.sounds.get(name);
+        if (sound) {
+            sound.play();
+        } else {
+            console.warn(`Sound ${name} not found for checkpoint.`);
+        }
+    }
+
+    /**
+     * Returns the unique ID of the checkpoint.
+     */
+    public getId(): string {
+        return this.id;
+    }
+
+    /**
+     * Returns the mesh of the pad.
+     */
+    public getMesh(): Mesh {
+        return this.mesh;
+    }
+
+    /**
+     * Returns all meshes associated with the checkpoint.
+     */
+    public getMeshes(): Mesh[] {
+        return [this.mesh];
+    }
+
+    /**
+     * Returns the type of the object ("checkpoint").
+     */
+    public getType(): string {
+        return Checkpoint.Type;
+    }
+
+    /**
+     * Returns the Babylon.js scene.
+     */
+    public getScene(): Scene {
+        return this.scene;
+    }
+
+    /**
+     * Returns true if the checkpoint is the one the player respawns on.
+     */
+    public isActive(): boolean {
+        return this.active;
+    }
+
+    /**
+     * Makes the checkpoint the respawn point of the player: lights the pad and plays the activation sound.
+     */
+    public activate(): void {
+        this.active = true;
+        this.showActive(true);
+        this.playSound("activate");
+    }
+
+    /**
+     * Turns the checkpoint off, when another checkpoint is activated.
+     */
+    public deactivate(): void {
+        this.active = false;
+        this.showActive(false);
+    }
+
+    /**
+     * Returns the position where the player respawns: above the pad, wherever its group has rotated it.
+     */
+    public getSpawnPosition(): Vector3 {
+        const height = this.mesh.scaling.y / 2 + Checkpoint.SpawnHeight;
+        return this.mesh.getAbsolutePosition().add(this.mesh.up.scale(height));
+    }
+
+    private showActive(active: boolean) {
+        const color = active ? Checkpoint.ActiveColor : Checkpoint.InactiveColor;
+        this.material.diffuseColor = color;
+        this.material.emissiveColor = color.scale(active ? 0.6 : 0.1);
+    }
+
+    /**
+     * Accepts a visitor (for the visitor pattern).
+     * @param visitor The GameObjectVisitor.
+     */
+    public accept(visitor: GameObjectVisitor): void {
+        visitor.visitCheckpoint(this);
+    }
+
+    /**
+     * Handles contact events (not used for checkpoints).
+     * @returns Always false.
+     */
+    public onContact(): boolean {
+        return false;
+    }
+
+    /**
+     * Updates the checkpoint (no-op).
+     */
+    public update(_: number, __: CharacterInput): void { }
+
+    /**
+     * Handles logic when the game is paused (no-op).
+     */
+    public onPause(): void { }
+
+    /**
+     * Handles logic when the game is resumed (no-op).
+     */
+    public onResume(): void { }
+
+    /**
+     * Adds an observer to the checkpoint (not used).
+     */
+    public addObserver(_: GameObjectObserver): void { }
+}
+
+/**
+ * CheckpointFactory creates Checkpoint instances for gameplay or the editor.
+ * - Builds the pad mesh, parented to its rotation group, and sets up physics and the activation sound.
+ */
+export class CheckpointFactory implements GameObjectFactory {
+
+    /**
+     * Internal method to create and configure a Checkpoint.
+     * @param config The configuration for the checkpoint.
+     * @param physics Whether to enable physics.
+     */
+    private createImpl(config: GameObjectConfig, physics: boolean): Checkpoint {
+        if (!config.size) {
+            config.size = new Vector3(20, 4, 20);
+        }
+
+        // A unit cylinder scaled to the size, like the loaded models, so the editor resizes it the same way
+        const mesh = MeshBuilder.CreateCylinder(Checkpoint.Type, { diameter: 1, height: 1, tessellation: 24 }, config.scene);
+        mesh.position = Utils.calculatePositionRelativeToParent(config.parent, config.position);
+        mesh.rotation = Utils.calculateRotationRelativeToParent(config.parent, config.rotation);
+        mesh.scaling = config.size;
+        config.parent.addChild(mesh);
+
+        const material = new StandardMaterial("checkpointMaterial", config.scene);
+        mesh.material = material;
+        const checkpoint = new Checkpoint(mesh, material, config.scene);
+
+        if (physics) {
+            const aggregate = new PhysicsAggregate(mesh, PhysicsShapeType.CYLINDER, { mass: 0, friction: 10, restitution: 0 }, config.scene);
+            aggregate.body.setCollisionCallbackEnabled(true);
+            config.parent.addBody(aggregate.body);
+            GroundSensor.setWalkable(mesh, checkpoint);
+        }
+
+        Utils.loadSound(config, "activate", "/assets/sounds/confirmation_001.ogg", (sound) => {
+            checkpoint.addSound("activate", sound);
+        });
+
+        return checkpoint;
+    }
+
+    /**
+     * Creates a Checkpoint for gameplay, with physics and collision.
+     * @param config The configuration for the checkpoint.
+     */
+    public create(config: GameObjectConfig): Checkpoint {
+        return this.createImpl(config, true);
+    }
+
+    /**
+     * Creates a Checkpoint for the editor (no physics).
+     * @param config The configuration for the checkpoint.
+     */
+    public createForEditor(config: GameObjectConfig): EditorObject {
+        const checkpoint = this.createImpl(config, false);
+        return new ObjectEditorImpl(checkpoint, config.properties);
+    }
+}
@@ -5,11 +5,13 @@
  * - Implements the Coin and SuperCoin classes, which represent collectible items in the game.
  * - Handles mesh creation, animation, sound effects, and physics for coins.
  * - Provides factories for creating Coin and SuperCoin objects, both for gameplay and editor use.
+ * - Reads the score of each coin from its level properties (see `CoinProperties`).
  * - Integrates with the visitor pattern for game object interactions.
  * 
  * Usage:
  * - Use `CoinFactory` or `SuperCoinFactory` to create coin objects in the game or editor.
  * - Coins can play sounds, animate rotation, and interact with visitors (e.g., for collection).
+ * - Use `hide()` and `restore()` to take a collected coin out of the level and put it back (checkpoint rollback).
  * - Factories handle mesh loading, sound loading, and optional physics setup.
  */
 
@@ -17,6 +19,8 @@ import { Mesh, Scene, StaticSound, Vector3, PhysicsAggregate, PhysicsShapeType,
 import { App } from "../app";
 import { GameObject, GameObjectVisitor, CharacterInput, GameObjectFactory, GameObjectConfig, Utils, EditorObject } from "../types";
 import { ObjectEditorImpl } from "./EditorObject";
+import { CoinProperties, LevelSchema } from "../LevelSchema";
+import { GroundSensor } from "../GroundSensor";
 
 /**
  * Coin represents a collectible coin in the game.
@@ -86,6 +90,33 @@ export class Coin implements GameObject {
         this.addRotationAnimation(this.scene);
     }
 
+    /**
+     * Gives the coin its physics body: a walkable sphere reporting the collisions with the player.
+     */
+    public enablePhysics(): void {
+        const aggregate = new PhysicsAggregate(this.getMesh(), PhysicsShapeType.SPHERE, { mass: 0, friction: 0, restitution: 0 }, this.scene);
+        aggregate.body.setCollisionCallbackEnabled(true);
+        GroundSensor.setWalkable(this.getMesh(), this);
+    }
+
+    /**
+     * Takes the collected coin out of the level without disposing it: its meshes are hidden and its physics body
+     * is released.
+     */
+    public hide(): void {
+        this.getMesh().physicsBody?.dispose();
+        this.getMesh().physicsBody = null;
+        this.mesh.forEach(m => m.setEnabled(false));
+    }
+
+    /**
+     * Puts a hidden coin back in the level, with a new physics body.
+     */
+    public restore(): void {
+        this.mesh.forEach(m => m.setEnabled(true));
+        this.enablePhysics();
+    }
+
     /**
      * Adds a rotation animation to the coin's mesh.
      * @param scene The Babylon.js scene.
@@ -206,7 +237,8 @@ export class CoinFactory implements GameObjectFactory {
      * @param config The configuration for the Coin object.
      */
     protected createCoinObject(config: GameObjectConfig) {
-        return new Coin(config.scene, null, 10);
+        const properties = LevelSchema.properties<CoinProperties>(Coin.Type, config.properties);
+        return new Coin(config.scene, null, properties.score);
     }
 
     /**
@@ -232,13 +264,12 @@ export class CoinFactory implements GameObjectFactory {
             meshes.forEach((m) => coin.mesh.push(m as Mesh));
 
             if(physics) {
-                const aggregate = new PhysicsAggregate(meshes[0], PhysicsShapeType.SPHERE, { mass: 0, friction: 0, restitution: 0 }, config.scene);
-                aggregate.body.setCollisionCallbackEnabled(true);
+                coin.enablePhysics();
                 coin.startAnimation();
             }
         });
 
-        Utils.loadSound(config.assetsManager, "collect", "/assets/sounds/coins.ogg", (sound) => {
+        Utils.loadSound(config, "collect", "/assets/sounds/coins.ogg", (sound) => {
             coin.addSound("collect", sound);
         });
 
@@ -272,7 +303,7 @@ export class CoinFactory implements GameObjectFactory {
      */
     public createForEditor(config: GameObjectConfig): EditorObject {
         const coin = this.createImpl(config, false);
-        return new ObjectEditorImpl(coin);
+        return new ObjectEditorImpl(coin, config.properties);
     }
 }
 
@@ -287,7 +318,8 @@ export class SuperCoinFactory extends CoinFactory {
      * @param config The configuration for the SuperCoin object.
      */
     protected createCoinObject(config: GameObjectConfig) {
-        return new SuperCoin(config.scene, null, 100);
+        const properties = LevelSchema.properties<CoinProperties>(SuperCoin.Type, config.properties);
+        return new SuperCoin(config.scene, null, properties.score);
     }
 
     /**
@@ -1,5 +1,6 @@
-import { Color3, Matrix, Mesh, StandardMaterial, Vector3 } from "@babylonjs/core";
+import { Color3, LinesMesh, Matrix, Mesh, MeshBuilder, StandardMaterial, Vector3 } from "@babylonjs/core";
 import { CharacterInput, EditorObject, GameObject } from "../types";
+import { LevelObjectData, LevelSchema, ObjectProperties, PathData } from "../LevelSchema";
 
 
 /**
@@ -9,14 +10,17 @@ import { CharacterInput, EditorObject, GameObject } from "../types";
  * Responsibilities:
  * - Allows moving, rotating, and scaling the associated GameObject using editor controls.
  * - Handles selection state, including visual feedback (scaling and emissive color).
- * - Supports serialization for saving/loading object state in the editor.
+ * - Supports serialization for saving/loading object state in the editor, including its custom properties.
  * - Forwards contact and type queries to the underlying GameObject.
+ * - PathEditorImpl also edits the path of the objects following one (moving platforms) and draws it as a line.
  * 
  * Usage:
  * - Instantiate with a GameObject to wrap it for editor manipulation.
- * - Use `updatePosition`, `updateRotation`, and `updateScale` to transform the object based on input.
+ * - Use `updatePosition`, `updateRotation`, and `updateScale` to transform the object based on input, and `translate`
+ *   to move it with its path.
  * - Use `setSelected` to visually indicate selection.
  * - Use `serialize` to export the object's state.
+ * - Use `addWaypoint` and `removeWaypoint` to edit the path of a PathEditorImpl; other objects refuse them.
  */
 export class ObjectEditorImpl implements EditorObject { 
     private object: GameObject;
@@ -24,13 +28,16 @@ export class ObjectEditorImpl implements EditorObject {
     private readonly lateralspeed: number = 0.05;
     private readonly rotationspeed: number = 0.005;
     private originalEmissiveColor: Color3 | null = null; // Stores the original emissive color
+    private properties: ObjectProperties;
 
     /**
      * Constructs a new ObjectEditorImpl for the given GameObject.
      * @param object The GameObject to wrap for editor manipulation.
+     * @param properties The custom properties of the object, kept as-is for serialization.
      */
-    constructor(object: GameObject) {
+    constructor(object: GameObject, properties: ObjectProperties = {}) {
         this.object = object;
+        this.properties = { ...properties };
     }
 
     /**
@@ -59,6 +66,14 @@ export class ObjectEditorImpl implements EditorObject {
         }
     }
 
+    /**
+     * Moves the object by an offset in level coordinates, whatever its rotation.
+     * @param offset The offset.
+     */
+    public translate(offset: Vector3): void {
+        this.object.getMesh().position.addInPlace(offset);
+    }
+
     /**
      * Updates the object's position based on CharacterInput and delta time.
      * @param dt Delta time.
@@ -157,15 +172,41 @@ export class ObjectEditorImpl implements EditorObject {
     }
 
     /**
-     * Serializes the object's type, position, rotation, and scale for saving.
+     * Returns the custom properties of the object.
      */
-    public serialize(): any {
-        const data = {
+    public getProperties(): ObjectProperties {
+        return this.properties;
+    }
+
+    /**
+     * Adds a waypoint to the path of the object; objects without a path refuse it.
+     * @returns False, the object does not follow a path.
+     */
+    public addWaypoint(_: Vector3): boolean {
+        return false;
+    }
+
+    /**
+     * Removes the last waypoint of the path of the object; objects without a path refuse it.
+     * @returns False, the object does not follow a path.
+     */
+    public removeWaypoint(): boolean {
+        return false;
+    }
+
+    /**
+     * Serializes the object's type, position, rotation, scale and custom properties for saving.
+     */
+    public serialize(): LevelObjectData {
+        const data: LevelObjectData = {
             type: this.object.getType(),
-            position: this.object.getMesh().position,
-            rotation: this.object.getMesh().rotation,
-            size: this.object.getMesh().scaling,
+            position: LevelSchema.vec3(this.object.getMesh().position),
+            rotation: LevelSchema.vec3(this.object.getMesh().rotation),
+            size: LevelSchema.vec3(this.object.getMesh().scaling),
         };
+        if (Object.keys(this.properties).length > 0) {
+            data.properties = { ...this.properties };
+        }
         return data;
     }
 
@@ -182,4 +223,126 @@ export class ObjectEditorImpl implements EditorObject {
     public onContact(): boolean {
         return this.object.onContact();
     }
-}
\ No newline at end of file
+}
+
+/**
+ * PathEditorImpl edits an object following a path (e.g. a moving platform): its waypoints, kept in level coordinates,
+ * are drawn as a line from the object, and saved with the object.
+ */
+export class PathEditorImpl extends ObjectEditorImpl {
+    private static readonly PathColor: Color3 = new Color3(1, 0.6, 0.2);
+    private static readonly SelectedPathColor: Color3 = Color3.Yellow();
+
+    private settings: Omit<PathData, "waypoints">;
+    private waypoints: Vector3[];
+    private gizmo: LinesMesh | null = null;
+    private tracked: boolean = false;
+
+    /**
+     * Constructs a new PathEditorImpl.
+     * @param object The GameObject to wrap for editor manipulation.
+     * @param properties The custom properties of the object, kept as-is for serialization.
+     * @param path The path of the object from the level file, if any; its settings are kept as-is.
+     */
+    constructor(object: GameObject, properties: ObjectProperties = {}, path?: PathData) {
+        super(object, properties);
+        const { waypoints, ...settings } = path ?? { waypoints: [] };
+        this.settings = settings;
+        this.waypoints = waypoints.map((point) => new Vector3(point.x, point.y, point.z));
+    }
+
+    /**
+     * Moves the object and the start of its path.
+     * @param localMovement The movement vector in local space.
+     */
+    public move(localMovement: Vector3): void {
+        super.move(localMovement);
+        this.drawPath();
+    }
+
+    /**
+     * Moves the object and its waypoints by an offset in level coordinates.
+     * @param offset The offset.
+     */
+    public translate(offset: Vector3): void {
+        super.translate(offset);
+        this.waypoints.forEach((point) => point.addInPlace(offset));
+        this.drawPath();
+    }
+
+    /**
+     * Sets the selection state of the object, highlighting its path too.
+     * @param selected True if the object is selected.
+     */
+    public setSelected(selected: boolean): void {
+        super.setSelected(selected);
+        if (this.gizmo) {
+            this.gizmo.color = selected ? PathEditorImpl.SelectedPathColor : PathEditorImpl.PathColor;
+        }
+    }
+
+    /**
+     * Adds a waypoint at the end of the path.
+     * @param point The waypoint, in level coordinates.
+     * @returns True.
+     */
+    public addWaypoint(point: Vector3): boolean {
+        this.waypoints.push(point.clone());
+        this.drawPath();
+        return true;
+    }
+
+    /**
+     * Removes the last waypoint of the path.
+     * @returns False if the path has no waypoint.
+     */
+    public removeWaypoint(): boolean {
+        if (this.waypoints.length === 0) {
+            return false;
+        }
+        this.waypoints.pop();
+        this.drawPath();
+        return true;
+    }
+
+    /**
+     * Draws the path as a line from the object through its waypoints, back to the object for a looping path.
+     * Called again whenever the object or the path changes; does nothing until the mesh of the object is loaded.
+     */
+    public drawPath(): void {
+        const mesh = this.getMesh();
+        if (!mesh) {
+            return;
+        }
+        this.gizmo?.dispose();
+        this.gizmo = null;
+        if (!this.tracked) {
+            // The line goes away with the object (e.g. when it is deleted)
+            mesh.onDisposeObservable.addOnce(() => this.gizmo?.dispose());
+            this.tracked = true;
+        }
+        if (this.waypoints.length === 0) {
+            return;
+        }
+
+        const start = mesh.getAbsolutePosition().clone();
+        const points = [start, ...this.waypoints];
+        if ((this.settings.mode ?? LevelSchema.DefaultPath.mode) === "loop") {
+            points.push(start);
+        }
+        this.gizmo = MeshBuilder.CreateLines("path", { points }, mesh.getScene());
+        this.gizmo.color = this.isSelected() ? PathEditorImpl.SelectedPathColor : PathEditorImpl.PathColor;
+        this.gizmo.isPickable = false;
+    }
+
+    /**
+     * Serializes the object with its path, if it has waypoints.
+     */
+    public serialize(): LevelObjectData {
+        const data = super.serialize();
+        if (this.waypoints.length > 0) {
+            data.path = { waypoints: this.waypoints.map((point) => LevelSchema.vec3(point)), ...this.settings };
+        }
+        return data;
+    }
+}
@@ -2,24 +2,38 @@
  * Platform.ts defines the classes and factories for platforms in Nocturna.
  * 
  * Responsibilities:
- * - Defines fixed and parented platforms, as well as special variants (rocket activation).
+ * - Defines fixed and parented platforms, as well as special variants (rocket activation, moving along a path,
+ *   crumbling, bounce pad, one-way, conveyor).
  * - Handles creation, configuration, physics, observer integration, and parenting.
+ * - Makes every platform a walkable surface for the ground detection of the player (see GroundSensor).
  * - Provides factories to instantiate platforms for gameplay or the editor.
  * - Supports integration with the rocket system (automatic rocket spawning on contact).
+ * - Reads the rocket respawn delay of activation platforms from their level properties (see `RocketSpawnerProperties`).
+ * - Moves the moving platforms along their path (see `PathData`) with an animated body carrying the player.
+ * - Crumbling platforms shake when the player lands on them, fall and come back; bounce pads launch the player;
+ *   one-way platforms let the bodies coming from below through; conveyors carry the player standing on them along
+ *   their length.
  * 
  * Usage:
  * - Use `ParentedPlatformFactory` or `FixedPlatformFactory` to create standard platforms.
  * - Use `ParentedRocketActivationPlatformFactory` or `FixedRocketActivationPlatformFactory` for platforms that spawn rockets.
- * - Platforms can be observed to react to rotations or rocket spawns.
+ * - Use `MovingPlatformFactory` for platforms following a path; in the editor, their path is drawn and editable.
+ * - Use `CrumblingPlatformFactory`, `BouncePlatformFactory`, `OneWayPlatformFactory` or `ConveyorPlatformFactory` for
+ *   the parented variants reacting to contacts; the scene launches the player from bounce pads, crumbles the crumbling
+ *   platforms and hands it the belt of conveyors when visiting them.
+ * - Parented platforms follow the rotations of the parent node; rocket activation platforms can be observed to react to rocket spawns.
  * - The `create` and `createForEditor` methods generate objects for gameplay or the editor.
  */
 
-import { Mesh, Scene, PhysicsAggregate, PhysicsShapeType, Vector3, GlowLayer, Color3, AssetsManager } from "@babylonjs/core";
+import { Mesh, Scene, PhysicsAggregate, PhysicsShapeType, Vector3, GlowLayer, Color3, AssetsManager, PhysicsMotionType, PhysicsPrestepType, AbstractMesh, StaticSound, PhysicsEngineV2, PhysicsBody } from "@babylonjs/core";
 import { App } from "../app";
-import { ParentNodeObserver } from "../ParentNode";
-import { GameObject, CharacterInput, GameObjectObserver, GameObjectFactory, GameObjectConfig, Utils, EditorObject } from "../types";
-import { ObjectEditorImpl } from "./EditorObject";
+import { GameObject, CharacterInput, GameObjectObserver, GameObjectFactory, GameObjectConfig, GameObjectVisitor, Utils, EditorObject, CollisionGroup } from "../types";
+import { ObjectEditorImpl, PathEditorImpl } from "./EditorObject";
 import { FixedRocketFactory, RocketObject } from "./Rocket";
+import { BounceProperties, ConveyorProperties, CrumblingProperties, LevelSchema, PathData, PathMode, RocketSpawnerProperties } from "../LevelSchema";
+import { GroundSensor } from "../GroundSensor";
+import { LevelScope } from "../LevelScope";
+import type { Player } from "./Player";
 
 /**
  * Platform is the base class for all platforms in the game.
@@ -66,34 +80,15 @@ export class Platform implements GameObject {
 
 /**
  * ParentedPlatform represents a platform attached to a ParentNode.
- * Reacts to parent rotation changes to update its physics.
+ * Its physics body follows the rotations of the parent (see `ParentNode.addBody`).
  */
-export class ParentedPlatform extends Platform implements ParentNodeObserver {
+export class ParentedPlatform extends Platform {
     public static readonly Type: string = "parented_platform";
 
     constructor(mesh: Mesh, scene: Scene) {
         super(mesh, scene);
     }
 
-    public onRotationStart(): void {}
-
-    public onRotationChange() {
-        const mesh = this.getMesh();
-        const physicsBody = mesh.physicsBody;
-        if (physicsBody) {
-            // Update physics body position and rotation to match mesh
-            const newPosition = mesh.position;
-            const newRotation = mesh.rotationQuaternion;
-
-            physicsBody.disablePreStep = false;
-            physicsBody.transformNode.position.set(newPosition.x, newPosition.y, newPosition.z);
-            physicsBody.transformNode.rotationQuaternion.set(newRotation.x, newRotation.y, newRotation.z, newRotation.w);
-            this.scene.onAfterRenderObservable.addOnce(() => {
-                physicsBody.disablePreStep = true;
-            });
-        }
-    }
-
     public getType(): string {
         return ParentedPlatform.Type;
     }
@@ -119,6 +114,9 @@ export class FixedPlatform extends Platform  {
  * Handles mesh loading, configuration, physics, and parenting to a ParentNode.
  */
 export class ParentedPlatformFactory implements GameObjectFactory {
+    /** Glow color of the platform, telling the variants apart. */
+    protected color: Color3 = new Color3(0.2, 0.6, 1);
+
     protected createPlatformObject(config: GameObjectConfig): ParentedPlatform {
         return new ParentedPlatform(null, config.scene);
     }
@@ -146,15 +144,16 @@ export class ParentedPlatformFactory implements GameObjectFactory {
                 const glowLayer = new GlowLayer("platformGlow", config.scene);
                 glowLayer.intensity = 0.1;
             }            
-            meshes[1].material.emissiveColor = new Color3(0.2, 0.6, 1); 
+            meshes[1].material.emissiveColor = this.color.clone();
+
+            config.parent.addChild(meshes[0]);
 
             if(physics) {
                 this.setupPhysics(meshes[0], config);
-                config.parent.addObserver(platform);
+                GroundSensor.setWalkable(meshes[0], platform);
+                config.parent.addBody(meshes[0].physicsBody);
             }
 
-            config.parent.addChild(meshes[0]);
-
             meshes.forEach((m) => {
                 m.name = Platform.Type;
                 platform.mesh.push(m as Mesh);
@@ -170,7 +169,7 @@ export class ParentedPlatformFactory implements GameObjectFactory {
 
     public createForEditor(config: GameObjectConfig): EditorObject {
         const platform = this.createImpl(config, false);
-        return new ObjectEditorImpl(platform);        
+        return new ObjectEditorImpl(platform, config.properties);        
     }
 }
 
@@ -201,6 +200,7 @@ export class FixedPlatformFactory implements GameObjectFactory {
             Utils.configureMesh(meshes, config);
             if (physics) {
                 this.setupPhysics(meshes[0], config);
+                GroundSensor.setWalkable(meshes[0], platform);
             }
 
             meshes.forEach((m) => {
@@ -218,7 +218,7 @@ export class FixedPlatformFactory implements GameObjectFactory {
 
     public createForEditor(config: GameObjectConfig): EditorObject {
         const actual_platform = this.createImpl(config, false);
-        return new ObjectEditorImpl(actual_platform);        
+        return new ObjectEditorImpl(actual_platform, config.properties);        
     }
 }
 
@@ -230,14 +230,17 @@ class RocketFactorySpawner {
     private rocketFactory: FixedRocketFactory;
     private assetsManager: AssetsManager;
     private platform: ParentedRocketActivationPlatform | FixedRocketActivationPlatform;
-    private readonly respawnTimer: number = 1500;
+    private readonly respawnTimer: number;
     private timer: number = 0;
 
-    constructor(platform: ParentedRocketActivationPlatform | FixedRocketActivationPlatform) {
+    constructor(platform: ParentedRocketActivationPlatform | FixedRocketActivationPlatform, respawnTimer: number) {
         this.platform = platform;
+        this.respawnTimer = respawnTimer;
         this.rocketFactory = new FixedRocketFactory();
         this.assetsManager = new AssetsManager(platform.getScene());
         this.assetsManager.useDefaultLoadingScreen = false;
+        // The rockets still loading when the level is disposed are dropped
+        LevelScope.of(platform.getScene()).addAssetsManager(this.assetsManager);
     }
 
     public createRocket() {
@@ -276,11 +279,12 @@ class RocketFactorySpawner {
  */
 export class ParentedRocketActivationPlatform extends ParentedPlatform {
     public static readonly Type: string = "parented_rocket_activation_platform";
-    private spawner: RocketFactorySpawner = new RocketFactorySpawner(this);
+    private spawner: RocketFactorySpawner;
     private observers: GameObjectObserver[] = [];
 
-    constructor(mesh: Mesh, scene: Scene) {
+    constructor(mesh: Mesh, scene: Scene, respawnTimer: number = 1500) {
         super(mesh, scene);
+        this.spawner = new RocketFactorySpawner(this, respawnTimer);
     }
 
     public getType(): string {
@@ -317,7 +321,8 @@ export class ParentedRocketActivationPlatform extends ParentedPlatform {
  */
 export class ParentedRocketActivationPlatformFactory extends ParentedPlatformFactory {
     protected createPlatformObject(config: GameObjectConfig): ParentedPlatform {
-        return new ParentedRocketActivationPlatform(null, config.scene);
+        const properties = LevelSchema.properties<RocketSpawnerProperties>(ParentedRocketActivationPlatform.Type, config.properties);
+        return new ParentedRocketActivationPlatform(null, config.scene, properties.respawnTimer);
     }
 
     protected setupPhysics(mesh: Mesh, config: GameObjectConfig): void {
@@ -332,15 +337,16 @@ export class ParentedRocketActivationPlatformFactory extends ParentedPlatformFac
  */
 export class FixedRocketActivationPlatform extends FixedPlatform {
     public static readonly Type: string = "fixed_rocket_activation_platform";
-    private spawner: RocketFactorySpawner = new RocketFactorySpawner(this);
+    private spawner: RocketFactorySpawner;
     private observers: GameObjectObserver[] = [];
 
-    constructor(mesh: Mesh, scene: Scene) {
+    constructor(mesh: Mesh, scene: Scene, respawnTimer: number = 1500) {
         super(mesh, scene);
+        this.spawner = new RocketFactorySpawner(this, respawnTimer);
     }
 
     public getType(): string {
-        return ParentedRocketActivationPlatform.Type;
+        return FixedRocketActivationPlatform.Type;
     }
 
     public onContact(): boolean {
@@ -373,11 +379,691 @@ export class FixedRocketActivationPlatform extends FixedPlatform {
  */
 export class FixedRocketActivationPlatformFactory extends FixedPlatformFactory {
     protected createPlatformObject(config: GameObjectConfig): FixedPlatform {
-        return new FixedRocketActivationPlatform(null, config.scene);
+        const properties = LevelSchema.properties<RocketSpawnerProperties>(FixedRocketActivationPlatform.Type, config.properties);
+        return new FixedRocketActivationPlatform(null, config.scene, properties.respawnTimer);
     }
 
     protected setupPhysics(mesh: Mesh, config: GameObjectConfig): void {
         const agggregate = new PhysicsAggregate(mesh, PhysicsShapeType.BOX, { mass: 0, friction: 10, restitution: 0 }, config.scene);
         agggregate.body.setCollisionCallbackEnabled(true);
     }
-}
\ No newline at end of file
+}
+/**
+ * MovingPlatform is a platform following a path of waypoints (see `PathData`), in the space of its rotation group.
+ * Its physics body is an animated (kinematic) body following the mesh at every physics step, so that its velocity
+ * carries the player standing on it.
+ */
+export class MovingPlatform extends Platform {
+    public static readonly Type: string = "moving_platform";
+    /** Points of the path in the space of the rotation group, the position of the platform first. */
+    private points: Vector3[] = [];
+    /** Speed along the path, in units per ms. */
+    private readonly speed: number;
+    private readonly wait: number;
+    private readonly mode: PathMode;
+    private target: number = 1;
+    private direction: number = 1;
+    private waiting: number;
+
+    /**
+     * Constructs a new MovingPlatform.
+     * @param mesh The mesh of the platform, or null if it is loaded later.
+     * @param scene The Babylon.js scene.
+     * @param path The complete path of the platform (see `LevelSchema.path`).
+     */
+    constructor(mesh: Mesh, scene: Scene, path: Required<PathData>) {
+        super(mesh, scene);
+        this.speed = path.speed / 1000;
+        this.wait = path.wait;
+        this.mode = path.mode;
+        this.waiting = path.wait;
+    }
+
+    public getType(): string {
+        return MovingPlatform.Type;
+    }
+
+    /**
+     * Sets the points of the path, once the mesh is parented to its rotation group.
+     * @param points The points in the space of the rotation group, the position of the platform first.
+     */
+    public setPoints(points: Vector3[]): void {
+        this.points = points;
+    }
+
+    /**
+     * Moves the platform towards its next point, or waits at the point it reached.
+     * @param dt Delta time (ms).
+     */
+    public update(dt: number, __: CharacterInput): void {
+        const mesh = this.getMesh();
+        if (!mesh || this.points.length < 2) {
+            return;
+        }
+        if (this.waiting > 0) {
+            this.waiting -= dt;
+            return;
+        }
+
+        const target = this.points[this.target];
+        const toTarget = target.subtract(mesh.position);
+        const step = this.speed * dt;
+        if (toTarget.length() <= step) {
+            mesh.position.copyFrom(target);
+            this.waiting = this.wait;
+            this.nextTarget();
+        } else {
+            mesh.position.addInPlace(toTarget.normalize().scaleInPlace(step));
+        }
+        // The body reaches the absolute transform of the mesh at the next physics step
+        mesh.computeWorldMatrix(true);
+    }
+
+    /**
+     * Chooses the next point of the path, according to the mode of the path.
+     */
+    private nextTarget(): void {
+        if (this.mode === "loop") {
+            this.target = (this.target + 1) % this.points.length;
+            return;
+        }
+        const next = this.target + this.direction;
+        if (next < 0 || next >= this.points.length) {
+            this.direction = -this.direction;
+        }
+        this.target += this.direction;
+    }
+}
+
+/**
+ * MovingPlatformFactory creates MovingPlatform instances for gameplay or the editor.
+ * Handles mesh loading, parenting to the rotation group, the path and the animated physics body.
+ */
+export class MovingPlatformFactory implements GameObjectFactory {
+
+    /**
+     * Internal method to create and configure a MovingPlatform.
+     * @param config The configuration of the platform, with its path in level coordinates.
+     * @param physics Whether to enable physics.
+     * @param onLoaded Called once the mesh of the platform is loaded and placed.
+     */
+    private createImpl(config: GameObjectConfig, physics: boolean, onLoaded: () => void = () => {}): MovingPlatform {
+        const path = LevelSchema.path(config.path);
+        const platform = new MovingPlatform(null, config.scene, path);
+        if (!config.size) {
+            config.size = new Vector3(40, 10, 40);
+        }
+
+        const model = App.selectedGraphics + "/" + ParentedPlatform.Type + ".glb";
+
+        Utils.createMeshTask(config, MovingPlatform.Type, model, (task) => {
+            const meshes = task.loadedMeshes;
+
+            // The path is followed in the space of the rotation group, so that it rotates with the group
+            const points = [config.position, ...path.waypoints.map((point) => new Vector3(point.x, point.y, point.z))];
+            platform.setPoints(points.map((point) => Utils.calculatePositionRelativeToParent(config.parent, point)));
+
+            config.position = Utils.calculatePositionRelativeToParent(config.parent, config.position);
+            config.rotation = Utils.calculateRotationRelativeToParent(config.parent, config.rotation);
+            Utils.configureMesh(meshes, config);
+
+            if (!config.scene.getGlowLayerByName("platformGlow")) {
+                const glowLayer = new GlowLayer("platformGlow", config.scene);
+                glowLayer.intensity = 0.1;
+            }
+            meshes[1].material.emissiveColor = new Color3(1, 0.6, 0.2);
+
+            config.parent.addChild(meshes[0]);
+
+            if (physics) {
+                const aggregate = new PhysicsAggregate(meshes[0], PhysicsShapeType.BOX, { mass: 0, friction: 10, restitution: 0 }, config.scene);
+                // Unlike the bodies of ParentNode.addBody, the body always follows its mesh, moving or not
+                aggregate.body.setMotionType(PhysicsMotionType.ANIMATED);
+                aggregate.body.setPrestepType(PhysicsPrestepType.ACTION);
+                aggregate.body.disableSync = true;
+                GroundSensor.setWalkable(meshes[0], platform);
+            }
+
+            meshes.forEach((m) => {
+                m.name = Platform.Type;
+                platform.mesh.push(m as Mesh);
+            });
+            onLoaded();
+        });
+
+        return platform;
+    }
+
+    /**
+     * Creates a MovingPlatform for gameplay, with its animated physics body.
+     * @param config The configuration of the platform.
+     */
+    public create(config: GameObjectConfig): MovingPlatform {
+        return this.createImpl(config, true);
+    }
+
+    /**
+     * Creates a MovingPlatform for the editor (no physics, not moving), with its path drawn as a line.
+     * @param config The configuration of the platform.
+     */
+    public createForEditor(config: GameObjectConfig): EditorObject {
+        const editor = new PathEditorImpl(this.createImpl(config, false, () => editor.drawPath()), config.properties, config.path);
+        return editor;
+    }
+}
+
+/**
+ * VariantPlatform is the base class of the parented platforms with a special behavior (crumbling, bounce pad,
+ * one-way, conveyor). It holds their sounds, tells when a new contact starts, and can make the platform intangible.
+ */
+export class VariantPlatform extends ParentedPlatform {
+    /** Time without contact after which a contact is a new touch (ms); touching bodies collide at every step. */
+    private static readonly ContactGap: number = 100;
+    private sounds: Map<string, StaticSound> = new Map();
+    private sinceContact: number = Infinity;
+    private solid: boolean = true;
+    /** Collision group of the body when it is solid, saved the first time it becomes intangible. */
+    private membership: number | null = null;
+
+    constructor(mesh: Mesh, scene: Scene) {
+        super(mesh, scene);
+    }
+
+    /**
+     * Adds a sound effect to the platform.
+     * @param name The sound name.
+     * @param sound The StaticSound instance.
+     */
+    public addSound(name: string, sound: StaticSound): void {
+        this.sounds.set(name, sound);
+    }
+
+    /**
+     * Plays a sound effect by name.
+     * @param name The sound name.
+     */
+    public playSound(name: string): void {
+        const sound = this.sounds.get(name);
+        if (sound) {
+            sound.play();
+        } else {
+            console.warn(`Sound ${name} not found for ${this.getType()}.`);
+        }
+    }
+
+    /**
+     * Records a contact with the platform.
+     * @returns True if the contact starts a new touch, false if the body was already touching the platform.
+     */
+    protected touch(): boolean {
+        const touch = this.sinceContact > VariantPlatform.ContactGap;
+        this.sinceContact = 0;
+        return touch;
+    }
+
+    /**
+     * Makes the platform solid, or lets everything go through it. An intangible platform is not detected as
+     * ground either.
+     * @param solid True to make the platform solid.
+     */
+    protected setSolid(solid: boolean): void {
+        const shape = this.getMesh()?.physicsBody?.shape;
+        if (!shape || solid === this.solid) {
+            return;
+        }
+        if (this.membership === null) {
+            this.membership = shape.filterMembershipMask;
+        }
+        shape.filterMembershipMask = solid ? this.membership : 0;
+        this.solid = solid;
+    }
+
+    public update(dt: number, __: CharacterInput): void {
+        this.sinceContact += dt;
+    }
+}
+
+/**
+ * VariantPlatformFactory creates the parented platforms with a special behavior, with their glow color and sounds.
+ * Their bodies report their collisions, like the rocket activation platforms.
+ */
+abstract class VariantPlatformFactory extends ParentedPlatformFactory {
+    /** Sound files of the platform, by sound name. */
+    protected abstract readonly sounds: { [name: string]: string };
+
+    protected abstract createVariant(config: GameObjectConfig): VariantPlatform;
+
+    protected createPlatformObject(config: GameObjectConfig): ParentedPlatform {
+        const platform = this.createVariant(config);
+        Object.keys(this.sounds).forEach(name => {
+            Utils.loadSound(config, name, this.sounds[name], (sound) => {
+                platform.addSound(name, sound);
+            });
+        });
+        return platform;
+    }
+
+    protected setupPhysics(mesh: Mesh, config: GameObjectConfig): void {
+        const aggregate = new PhysicsAggregate(mesh, PhysicsShapeType.BOX, { mass: 0, friction: 10, restitution: 0 }, config.scene);
+        aggregate.body.setCollisionCallbackEnabled(true);
+    }
+}
+
+/** Stages of a crumbling platform. */
+type CrumblingStage = "solid" | "shaking" | "falling" | "fallen";
+
+/**
+ * CrumblingPlatform shakes when the player lands on it, then falls and disappears, and comes back after a while.
+ * The scene decides to crumble the platform when the player touches it (see `GameObjectVisitor.visitCrumblingPlatform`).
+ * Only its model moves: the physics body stays in place, intangible while the platform is gone.
+ */
+export class CrumblingPlatform extends VariantPlatform {
+    public static readonly Type: string = "crumbling_platform";
+    /** Amplitude of the shaking, in level units. */
+    private static readonly ShakeAmplitude: number = 0.8;
+    /** Speed gained while falling, in units per ms². */
+    private static readonly FallAcceleration: number = 0.002;
+    /** Time the platform is seen falling before disappearing (ms). */
+    private static readonly FallTime: number = 700;
+
+    private readonly delay: number;
+    private readonly respawnTimer: number;
+    private stage: CrumblingStage = "solid";
+    private timer: number = 0;
+    /** Parts of the model and their positions at rest. */
+    private parts: { mesh: AbstractMesh; position: Vector3 }[] = [];
+
+    /**
+     * Constructs a new CrumblingPlatform.
+     * @param mesh The mesh of the platform, or null if it is loaded later.
+     * @param scene The Babylon.js scene.
+     * @param properties The shaking delay and the respawn delay (see `CrumblingProperties`).
+     */
+    constructor(mesh: Mesh, scene: Scene, properties: CrumblingProperties) {
+        super(mesh, scene);
+        this.delay = properties.delay;
+        this.respawnTimer = properties.respawnTimer;
+    }
+
+    public getType(): string {
+        return CrumblingPlatform.Type;
+    }
+
+    public accept(visitor: GameObjectVisitor): void {
+        visitor.visitCrumblingPlatform(this);
+    }
+
+    /**
+     * Starts shaking if the player is on top of the platform, wherever its group has rotated it.
+     * @param player The player touching the platform.
+     */
+    public crumble(player: Player): void {
+        const mesh = this.getMesh();
+        const offset = player.getMesh().getAbsolutePosition().subtract(mesh.getAbsolutePosition());
+        if (this.stage !== "solid" || Vector3.Dot(offset, mesh.up) <= 0) {
+            return;
+        }
+        this.parts = mesh.getChildMeshes(true).map(child => ({ mesh: child, position: child.position.clone() }));
+        this.setStage("shaking");
+        this.playSound("crack");
+    }
+
+    /**
+     * Shakes, drops or brings back the platform, according to its stage.
+     * @param dt Delta time (ms).
+     */
+    public update(dt: number, input: CharacterInput): void {
+        super.update(dt, input);
+        if (this.stage === "solid") {
+            return;
+        }
+        this.timer += dt;
+        switch (this.stage) {
+            case "shaking":
+                this.shake();
+                if (this.timer >= this.delay) {
+                    this.restParts();
+                    this.setSolid(false);
+                    this.setStage("falling");
+                    this.playSound("fall");
+                }
+                break;
+            case "falling":
+                this.fall(dt);
+                if (this.timer >= CrumblingPlatform.FallTime) {
+                    this.getMesh().setEnabled(false);
+                    this.setStage("fallen");
+                }
+                break;
+            case "fallen":
+                if (this.timer >= this.respawnTimer) {
+                    this.restParts();
+                    this.getMesh().setEnabled(true);
+                    this.setSolid(true);
+                    this.setStage("solid");
+                    this.playSound("respawn");
+                }
+                break;
+        }
+    }
+
+    private setStage(stage: CrumblingStage): void {
+        this.stage = stage;
+        this.timer = 0;
+    }
+
+    /**
+     * Moves the parts of the model randomly around their rest positions.
+     */
+    private shake(): void {
+        const amplitude = CrumblingPlatform.ShakeAmplitude;
+        const offset = new Vector3(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).scaleInPlace(2 * amplitude);
+        this.moveParts(offset, true);
+    }
+
+    /**
+     * Moves the parts of the model down, along gravity, faster and faster.
+     * @param dt Delta time (ms).
+     */
+    private fall(dt: number): void {
+        const gravity = this.scene.getPhysicsEngine()?.gravity ?? new Vector3(0, -1, 0);
+        const distance = CrumblingPlatform.FallAcceleration * this.timer * dt;
+        this.moveParts(gravity.normalizeToNew().scaleInPlace(distance), false);
+    }
+
+    /**
+     * Moves the parts of the model by an offset in level units, converted to the space of the platform.
+     * @param offset The offset, in world coordinates.
+     * @param fromRest True to move the parts from their rest positions, false to move them from where they are.
+     */
+    private moveParts(offset: Vector3, fromRest: boolean): void {
+        const local = Vector3.TransformNormal(offset, this.getMesh().getWorldMatrix().clone().invert());
+        this.parts.forEach(part => {
+            const start = fromRest ? part.position : part.mesh.position;
+            part.mesh.position = start.add(local);
+        });
+    }
+
+    private restParts(): void {
+        this.parts.forEach(part => part.mesh.position.copyFrom(part.position));
+    }
+}
+
+/**
+ * CrumblingPlatformFactory creates CrumblingPlatform instances.
+ */
+export class CrumblingPlatformFactory extends VariantPlatformFactory {
+    protected color: Color3 = new Color3(0.8, 0.5, 0.3);
+    protected readonly sounds = {
+        crack: "/assets/sounds/scratch_002.ogg",
+        fall: "/assets/sounds/drop_002.ogg",
+        respawn: "/assets/sounds/maximize_003.ogg",
+    };
+
+    protected createVariant(config: GameObjectConfig): VariantPlatform {
+        const properties = LevelSchema.properties<CrumblingProperties>(CrumblingPlatform.Type, config.properties);
+        return new CrumblingPlatform(null, config.scene, properties);
+    }
+}
+
+/**
+ * BouncePlatform is a bounce pad launching the player landing on it along its up direction.
+ * The scene decides to launch the player when it touches the pad (see `GameObjectVisitor.visitBouncePad`).
+ */
+export class BouncePlatform extends VariantPlatform {
+    public static readonly Type: string = "bounce_pad";
+    /** Minimum delay between two launches (ms), while the player leaves the pad. */
+    private static readonly Cooldown: number = 200;
+
+    private readonly force: number;
+    private sinceLaunch: number = Infinity;
+
+    /**
+     * Constructs a new BouncePlatform.
+     * @param mesh The mesh of the pad, or null if it is loaded later.
+     * @param scene The Babylon.js scene.
+     * @param force The launch speed (see `BounceProperties`).
+     */
+    constructor(mesh: Mesh, scene: Scene, force: number) {
+        super(mesh, scene);
+        this.force = force;
+    }
+
+    public getType(): string {
+        return BouncePlatform.Type;
+    }
+
+    public accept(visitor: GameObjectVisitor): void {
+        visitor.visitBouncePad(this);
+    }
+
+    /**
+     * Launches the player along the up direction of the pad, wherever its group has rotated it, if the player
+     * is on top of the pad.
+     * @param player The player touching the pad.
+     */
+    public launch(player: Player): void {
+        const mesh = this.getMesh();
+        const offset = player.getMesh().getAbsolutePosition().subtract(mesh.getAbsolutePosition());
+        if (this.sinceLaunch < BouncePlatform.Cooldown || Vector3.Dot(offset, mesh.up) <= 0) {
+            return;
+        }
+        this.sinceLaunch = 0;
+        player.launch(mesh.up, this.force);
+        this.playSound("bounce");
+    }
+
+    public update(dt: number, input: CharacterInput): void {
+        super.update(dt, input);
+        this.sinceLaunch += dt;
+    }
+}
+
+/**
+ * BouncePlatformFactory creates BouncePlatform instances.
+ */
+export class BouncePlatformFactory extends VariantPlatformFactory {
+    protected color: Color3 = new Color3(0.3, 1, 0.4);
+    protected readonly sounds = {
+        bounce: "/assets/sounds/bong_001.ogg",
+    };
+
+    protected createVariant(config: GameObjectConfig): VariantPlatform {
+        const properties = LevelSchema.properties<BounceProperties>(BouncePlatform.Type, config.properties);
+        return new BouncePlatform(null, config.scene, properties.force);
+    }
+}
+
+/**
+ * OneWayPlatform lets the bodies coming from below go through it, and holds them once they are above.
+ * Once per step, the one-way platforms of the scene are checked together: the dynamic bodies (the player, a rocket...)
+ * under the top face of one of them, within its outline, stop colliding with the one-way platforms
+ * (see `CollisionGroup.ONE_WAY`) until they are above it, while the other bodies keep standing on them.
+ */
+export class OneWayPlatform extends VariantPlatform {
+    public static readonly Type: string = "one_way_platform";
+    /** Part of the radius of a body that can be below the top face when the platform holds it again. */
+    private static readonly Overlap: number = 0.25;
+    /** One-way platforms of each scene, checked at every step of the scene. */
+    private static platforms: WeakMap<Scene, Set<OneWayPlatform>> = new WeakMap();
+    /** Collide mask of the bodies going through the one-way platforms, before they did. */
+    private static passing: WeakMap<PhysicsBody, number> = new WeakMap();
+    /** Half size of the physics box, along the axes of the platform (computed once the body exists). */
+    private halfSize: Vector3 | null = null;
+
+    constructor(mesh: Mesh, scene: Scene) {
+        super(mesh, scene);
+        OneWayPlatform.register(scene, this);
+    }
+
+    public getType(): string {
+        return OneWayPlatform.Type;
+    }
+
+    /**
+     * Plays the landing sound when a body lands on the platform.
+     * @returns Always false: the platform is not removed.
+     */
+    public onContact(): boolean {
+        if (this.touch()) {
+            this.playSound("land");
+        }
+        return false;
+    }
+
+    /**
+     * Adds a platform to the one-way platforms of its scene; the first one starts checking them at every step.
+     * @param scene The Babylon.js scene.
+     * @param platform The new platform.
+     */
+    private static register(scene: Scene, platform: OneWayPlatform) {
+        if (!this.platforms.has(scene)) {
+            const platforms = new Set<OneWayPlatform>();
+            this.platforms.set(scene, platforms);
+            LevelScope.of(scene).observe(scene.onBeforeStepObservable, () => this.updatePassing(scene, platforms));
+        }
+        this.platforms.get(scene).add(platform);
+    }
+
+    /**
+     * Lets the dynamic bodies of the scene go through the one-way platforms while they are below one of them,
+     * and restores their collide mask once they are below none. The disposed platforms are forgotten.
+     * @param scene The Babylon.js scene.
+     * @param platforms The one-way platforms of the scene.
+     */
+    private static updatePassing(scene: Scene, platforms: Set<OneWayPlatform>) {
+        const solid: OneWayPlatform[] = [];
+        platforms.forEach(platform => {
+            const mesh = platform.getMesh();
+            if (mesh?.isDisposed()) {
+                platforms.delete(platform);
+            } else if (mesh?.physicsBody) {
+                solid.push(platform);
+            }
+        });
+        if (solid.length === 0) {
+            return;
+        }
+
+        const physicsEngine = scene.getPhysicsEngine() as PhysicsEngineV2 | null;
+        (physicsEngine?.getBodies() ?? []).forEach(body => {
+            if (body.getMotionType() === PhysicsMotionType.DYNAMIC && body.shape && !body.transformNode.isDisposed()) {
+                this.setPassing(body, solid.some(platform => platform.isBelow(body)));
+            }
+        });
+    }
+
+    /**
+     * Checks whether a body is under the top face of the platform, within its outline.
+     * @param body The dynamic body.
+     */
+    private isBelow(body: PhysicsBody): boolean {
+        const mesh = this.getMesh();
+        const platformBody = mesh.physicsBody;
+        // The box shape is built in the space of the platform, its size scaled to the level units
+        if (!this.halfSize) {
+            this.halfSize = platformBody.shape.getBoundingBox().extendSize.clone();
+        }
+        const half = this.halfSize;
+        const extent = body.getBoundingBox().extendSizeWorld;
+        const radius = Math.max(extent.x, extent.y, extent.z);
+        const offset = body.getObjectCenterWorld().subtract(platformBody.getObjectCenterWorld());
+        return Vector3.Dot(offset, mesh.up) < half.y + radius * (1 - OneWayPlatform.Overlap)
+            && Math.abs(Vector3.Dot(offset, mesh.right)) < half.x + radius
+            && Math.abs(Vector3.Dot(offset, mesh.forward)) < half.z + radius;
+    }
+
+    /**
+     * Lets a body go through the one-way platforms, or restores its collide mask.
+     * @param body The dynamic body.
+     * @param below Whether the body is below one of the platforms.
+     */
+    private static setPassing(body: PhysicsBody, below: boolean) {
+        const mask = this.passing.get(body);
+        if (below && mask === undefined) {
+            this.passing.set(body, body.shape.filterCollideMask);
+            body.shape.filterCollideMask &= ~CollisionGroup.ONE_WAY;
+        } else if (!below && mask !== undefined) {
+            body.shape.filterCollideMask = mask;
+            this.passing.delete(body);
+        }
+    }
+}
+
+/**
+ * OneWayPlatformFactory creates OneWayPlatform instances, in the one-way collision group.
+ */
+export class OneWayPlatformFactory extends VariantPlatformFactory {
+    protected color: Color3 = new Color3(0.7, 0.4, 1);
+    protected readonly sounds = {
+        land: "/assets/sounds/footstep_wood_001.ogg",
+    };
+
+    protected createVariant(config: GameObjectConfig): VariantPlatform {
+        return new OneWayPlatform(null, config.scene);
+    }
+
+    protected setupPhysics(mesh: Mesh, config: GameObjectConfig): void {
+        super.setupPhysics(mesh, config);
+        mesh.physicsBody.shape.filterMembershipMask = CollisionGroup.ONE_WAY;
+    }
+}
+
+/**
+ * ConveyorPlatform carries the player standing on it along its length (its x axis), wherever its group has
+ * rotated it. The scene hands the belt to the player when it touches the platform
+ * (see `GameObjectVisitor.visitConveyor`), and the player moves relative to the belt while standing on it.
+ */
+export class ConveyorPlatform extends VariantPlatform {
+    public static readonly Type: string = "conveyor_platform";
+    /** Speed of the belt, in units per second. */
+    private readonly speed: number;
+
+    /**
+     * Constructs a new ConveyorPlatform.
+     * @param mesh The mesh of the platform, or null if it is loaded later.
+     * @param scene The Babylon.js scene.
+     * @param speed The speed of the belt (see `ConveyorProperties`).
+     */
+    constructor(mesh: Mesh, scene: Scene, speed: number) {
+        super(mesh, scene);
+        this.speed = speed;
+    }
+
+    public getType(): string {
+        return ConveyorPlatform.Type;
+    }
+
+    /**
+     * Plays the belt sound when the player steps on the conveyor, and lets the visitor hand the belt to the player.
+     * @param visitor The GameObjectVisitor.
+     */
+    public accept(visitor: GameObjectVisitor): void {
+        if (this.touch()) {
+            this.playSound("belt");
+        }
+        visitor.visitConveyor(this);
+    }
+
+    /**
+     * Returns the velocity of the belt, in world coordinates.
+     */
+    public getBeltVelocity(): Vector3 {
+        return this.getMesh().right.scale(this.speed);
+    }
+}
+
+/**
+ * ConveyorPlatformFactory creates ConveyorPlatform instances.
+ */
+export class ConveyorPlatformFactory extends VariantPlatformFactory {
+    protected color: Color3 = new Color3(1, 0.9, 0.2);
+    protected readonly sounds = {
+        belt: "/assets/sounds/scroll_002.ogg",
+    };
+
+    protected createVariant(config: GameObjectConfig): VariantPlatform {
+        const properties = LevelSchema.properties<ConveyorProperties>(ConveyorPlatform.Type, config.properties);
+        return new ConveyorPlatform(null, config.scene, properties.speed);
+    }
+}
@@ -1,8 +1,10 @@
-import { Scene, Vector3, PhysicsAggregate, PhysicsShapeType, Mesh, Ray, StaticSound } from "@babylonjs/core";
+import { Scene, Vector3, PhysicsAggregate, PhysicsShapeType, Mesh, StaticSound, PhysicsMotionType, HavokPlugin } from "@babylonjs/core";
 import { CharacterInput, EditorObject, Utils, GameObject, GameObjectConfig, GameObjectFactory, AbstractState, GameObjectObserver } from "../types";
 import { IdleState, KnockbackState, PlayerDamageableState, PlayerDamageState } from "../states/PlayerStates";
 import { ObjectEditorImpl } from "./EditorObject";
 import { App } from "../app";
+import { FaceHazard, LevelSchema, MovementProfile } from "../LevelSchema";
+import { GroundHit, GroundSensor } from "../GroundSensor";
 
 // ========================= PLAYER =========================
 // This section contains the Player class, which represents the
@@ -17,19 +19,32 @@ import { App } from "../app";
  * 
  * Responsibilities:
  * - Handles player movement, jumping, and physics interactions.
+ * - Follows a movement profile (see MovementProfile): acceleration, air control, maximum fall speed, air jumps,
+ *   coyote time, jump buffering and variable jump height.
+ * - Slides down and jumps off the steep sides of the platforms, when the level allows wall jumps.
+ * - Keeps the velocity of the platform it stands on while the cube rotates, so that it is carried along.
+ * - Moves, jumps and detects the ground along its orientation ("up" and "right" directions), which follows
+ *   the active face of the cube in the face gravity mode.
  * - Manages player state (idle, knockback, damageable, etc.) using a state machine.
- * - Supports taking damage, death, and respawn logic.
+ * - Supports taking damage, death, and respawning (at a checkpoint) with restored HP.
  * - Integrates with Babylon.js for mesh, physics, and sound management.
  * - Provides methods for updating, pausing, resuming, and interacting with the game world.
  * - Implements the GameObject interface for compatibility with the game engine.
  * 
  * Usage:
  * - Instantiated by the PlayerFactory, which loads the mesh, applies physics, and loads sounds.
- * - Use `move(dt, input)` to move the player based on input.
- * - Use `jump()` to make the player jump.
+ * - Use `setMovement(profile)` to tune the movement; the LevelLoader applies the settings of the game and the level.
+ * - Use `move(input, dt)` to move the player based on input.
+ * - Use `tryJump()` in the states to jump when the jump key was pressed (or buffered) and a jump is allowed,
+ *   and `jump()` to make the player jump unconditionally.
+ * - Use `getWall()`, `slideOnWall()` and `tryWallJump(wall)` in the wall states; `setWallJump(enabled)` enables them.
+ * - Use `isGrounded()` and `getGround()` to know if the player stands on a walkable surface (see GroundSensor),
+ *   with its normal and the object owning it.
+ * - Use `setOrientation(up, right)` to change the directions of the jumps and of the lateral movement.
  * - Use `takeDamage(damage)` to apply damage and trigger state changes.
+ * - Use `applyFaceHazard(hazard, normal)` when the player touches a face of the cube having a hazard.
  * - Use `update(dt, input)` in the game loop to update player state.
- * - Use `isAlive()` and `kill()` to manage player life state.
+ * - Use `isAlive()` and `kill()` to manage player life state, and `respawn(position)` to bring the player back.
  * - Use `addSound(name, sound)` and `playSound(name)` for sound effects.
  * - Use `getMesh()` and `getMeshes()` to access the player's mesh(es).
  * - Use `onPause()` and `onResume()` to handle game pause/resume.
@@ -37,17 +52,40 @@ import { App } from "../app";
 export class Player implements GameObject {
     public static readonly Type: string = "player";
     private static nextId: number = 0;
+    /** Speed given to the player, away from the face, by the bounce faces. */
+    private static readonly BounceSpeed: number = 1500;
+    /** Damage dealt by the damage faces at each contact; the damage state limits its rate. */
+    private static readonly FaceDamage: number = 1;
 
     public mesh: Mesh[] = [];
     private scene: Scene;
-    private speed: number = 5.0;
-    private jumpForce: Vector3 = undefined;
+    private movement: MovementProfile = LevelSchema.movement();
+    private up: Vector3 = Vector3.Up();
+    private right: Vector3 = Vector3.Right();
     private state: AbstractState = null;
     private damageState: PlayerDamageState = null;
     private hp: number = 10;
     private id: string;
     private sounds: Map<string, StaticSound> = new Map();
     private maxHp: number = 10;
+    private groundSensor: GroundSensor | null = null;
+    /** Ground found by the sensor at the start of the current step (see `update`). */
+    private ground: GroundHit | null = null;
+    /** Whether the jump key was held at the previous update, to detect when it is pressed and released. */
+    private jumpHeld: boolean = false;
+    /** Time since the jump key was pressed, in milliseconds. */
+    private sinceJumpPressed: number = Infinity;
+    /** Time since the player left the ground without jumping, in milliseconds (Infinity after a jump). */
+    private sinceGrounded: number = Infinity;
+    private airJumpsLeft: number = 0;
+    /** True from a jump until the player stops rising. */
+    private rising: boolean = false;
+    /** True while the current jump can still be cut by releasing the jump key. */
+    private jumpCuttable: boolean = false;
+    /** True if the player can slide down and jump off walls. */
+    private wallJump: boolean = false;
+    /** Conveyor the player touched last, with the velocity of its belt (see `setBelt`). */
+    private belt: { surface: GameObject; velocity: Vector3 } | null = null;
 
     /**
      * Constructs a new Player.
@@ -56,7 +94,6 @@ export class Player implements GameObject {
      */
     constructor(mesh: Mesh, scene: Scene) {
         this.scene = scene;
-        this.jumpForce = new Vector3(0, 100000, 0); // Initial jump force
         this.hp = this.maxHp;
         if (mesh) this.mesh.push(mesh);
         this.state = new IdleState(this);
@@ -108,7 +145,54 @@ export class Player implements GameObject {
     }
 
     /**
-     * Makes the player jump by applying an upward impulse.
+     * Changes the orientation of the player: the direction of its jumps (opposite to gravity) and of its lateral
+     * movement. The player only rolls around the remaining axis, which faces the camera.
+     * @param up The up direction (unit vector).
+     * @param right The lateral movement direction (unit vector, orthogonal to up).
+     */
+    public setOrientation(up: Vector3, right: Vector3) {
+        this.up = up.clone();
+        this.right = right.clone();
+
+        const physicsBody = this.getMesh()?.physicsBody;
+        if (physicsBody) {
+            const axis = Vector3.Cross(right, up);
+            physicsBody.setMassProperties({ mass: 70, inertia: new Vector3(Math.abs(axis.x), Math.abs(axis.y), Math.abs(axis.z)) });
+        }
+    }
+
+    /**
+     * Sets the movement profile of the player.
+     * @param movement The complete movement profile (see `LevelSchema.movement`).
+     */
+    public setMovement(movement: MovementProfile) {
+        this.movement = movement;
+    }
+
+    /**
+     * Enables or disables the wall slide and the wall jumps.
+     * @param enabled True if the level allows wall jumps.
+     */
+    public setWallJump(enabled: boolean) {
+        this.wallJump = enabled;
+    }
+
+    /**
+     * Returns the movement profile of the player.
+     */
+    public getMovement(): MovementProfile {
+        return this.movement;
+    }
+
+    /**
+     * Returns the speed of the player along its up direction (positive when going up).
+     */
+    public getVerticalSpeed(): number {
+        return Vector3.Dot(this.getMesh().physicsBody.getLinearVelocity(), this.up);
+    }
+
+    /**
+     * Makes the player jump: its vertical speed becomes the jump speed, relative to the ground it leaves.
      */
     public jump() {
         const physicsBody = this.getMesh().physicsBody;
@@ -116,49 +200,243 @@ export class Player implements GameObject {
             console.warn("Physics body not found for the player mesh.");
             return;
         }
-        physicsBody.applyImpulse(this.jumpForce, this.getMesh().getAbsolutePosition());
+        const velocity = physicsBody.getLinearVelocity();
+        const verticalSpeed = this.movement.jumpSpeed + Vector3.Dot(this.getGroundVelocity(), this.up);
+        velocity.addInPlace(this.up.scale(verticalSpeed - Vector3.Dot(velocity, this.up)));
+        physicsBody.setLinearVelocity(velocity);
+
+        this.rising = true;
+        this.jumpCuttable = true;
+        this.sinceGrounded = Infinity;
+    }
+
+    /**
+     * Launches the player (e.g. from a bounce pad): its speed along a direction becomes the launch speed, whatever
+     * its speed before. Unlike a jump, a launch is not cut when the jump key is released.
+     * @param direction The direction of the launch (unit vector).
+     * @param speed The launch speed.
+     */
+    public launch(direction: Vector3, speed: number) {
+        const physicsBody = this.getMesh().physicsBody;
+        if (!physicsBody) {
+            console.warn("Physics body not found for the player mesh.");
+            return;
+        }
+        const velocity = physicsBody.getLinearVelocity();
+        velocity.addInPlace(direction.scale(speed - Vector3.Dot(velocity, direction)));
+        physicsBody.setLinearVelocity(velocity);
+
+        this.rising = true;
+        this.jumpCuttable = false;
+        this.sinceGrounded = Infinity;
+    }
+
+    /**
+     * Sets the belt of a conveyor the player touches: while the player stands on it, the belt carries it.
+     * @param surface The conveyor.
+     * @param velocity The velocity of the belt, in world coordinates.
+     */
+    public setBelt(surface: GameObject, velocity: Vector3) {
+        this.belt = { surface: surface, velocity: velocity };
+    }
+
+    /**
+     * Jumps if the jump key was pressed recently (jump buffering) and the player can jump: on the ground,
+     * shortly after walking off a ledge (coyote time), or with an air jump left.
+     * @returns True if the player jumped.
+     */
+    public tryJump(): boolean {
+        if (this.sinceJumpPressed > this.movement.jumpBuffer) {
+            return false;
+        }
+        if (this.sinceGrounded > this.movement.coyoteTime) {
+            if (this.airJumpsLeft <= 0) {
+                return false;
+            }
+            this.airJumpsLeft--;
+        }
+        this.sinceJumpPressed = Infinity;
+        this.jump();
+        return true;
+    }
+
+    /**
+     * Finds the wall the player touches on its left or right, if wall jumps are enabled.
+     * @param direction The side to check: 1 for the right, -1 for the left, 0 for both.
+     * @returns The wall, with its normal pointing towards the player, or null.
+     */
+    public getWall(direction: number = 0): GroundHit | null {
+        const sensor = this.wallJump ? this.getGroundSensor() : null;
+        if (!sensor) {
+            return null;
+        }
+        const right = direction >= 0 ? sensor.detectWall(this.up, this.right) : null;
+        return right ?? (direction <= 0 ? sensor.detectWall(this.up, this.right.negate()) : null);
+    }
+
+    /**
+     * Slows the fall of the player sliding down a wall to the wall slide speed of the movement profile.
+     */
+    public slideOnWall() {
+        const physicsBody = this.getMesh().physicsBody;
+        const velocity = physicsBody.getLinearVelocity();
+        const verticalSpeed = Vector3.Dot(velocity, this.up);
+        if (verticalSpeed < -this.movement.wallSlideSpeed) {
+            velocity.addInPlace(this.up.scale(-this.movement.wallSlideSpeed - verticalSpeed));
+            physicsBody.setLinearVelocity(velocity);
+        }
+    }
+
+    /**
+     * Jumps off a wall if the jump key was pressed recently: the player jumps and is pushed away from the wall.
+     * Wall jumps do not use the air jumps.
+     * @param wall The wall the player touches.
+     * @returns True if the player jumped.
+     */
+    public tryWallJump(wall: GroundHit): boolean {
+        if (this.sinceJumpPressed > this.movement.jumpBuffer) {
+            return false;
+        }
+        this.sinceJumpPressed = Infinity;
+        this.jump();
+
+        const physicsBody = this.getMesh().physicsBody;
+        const velocity = physicsBody.getLinearVelocity();
+        const away = Math.sign(Vector3.Dot(wall.normal, this.right)) * this.movement.wallJumpSpeed;
+        velocity.addInPlace(this.right.scale(away - Vector3.Dot(velocity, this.right)));
+        physicsBody.setLinearVelocity(velocity);
+        return true;
     }
 
     /**
-     * Checks if the player is currently on the ground.
+     * Updates the jump timers, and cuts the jump when the jump key is released while rising (variable jump height).
+     * @param dt Delta time, in milliseconds.
+     * @param jump True if the jump key is held.
+     */
+    private updateJump(dt: number, jump: boolean) {
+        if (this.rising && this.getVerticalSpeed() - Vector3.Dot(this.getGroundVelocity(), this.up) <= 0) {
+            this.rising = false;
+            this.jumpCuttable = false;
+        }
+        if (!this.rising && this.isGrounded()) {
+            this.sinceGrounded = 0;
+            this.airJumpsLeft = this.movement.airJumps;
+        } else {
+            this.sinceGrounded += dt;
+        }
+
+        this.sinceJumpPressed = jump && !this.jumpHeld ? 0 : this.sinceJumpPressed + dt;
+        if (!jump && this.jumpHeld && this.jumpCuttable) {
+            const physicsBody = this.getMesh().physicsBody;
+            const velocity = physicsBody.getLinearVelocity();
+            velocity.subtractInPlace(this.up.scale(Vector3.Dot(velocity, this.up) * (1 - this.movement.jumpCut)));
+            physicsBody.setLinearVelocity(velocity);
+            this.jumpCuttable = false;
+        }
+        this.jumpHeld = jump;
+    }
+
+    /**
+     * Checks if the player is on the ground at the current step.
      * @returns True if grounded, false otherwise.
      */
     public isGrounded(): boolean {
-        const bounding = Utils.getTotalBoundingSphere(this.mesh);
-        const rayLength = bounding.radius;
-        const rayOrigin = new Vector3(bounding.center.x, bounding.center.y, bounding.center.z);
-        const rayDirection = Vector3.Down();
-        const ray = new Ray(rayOrigin, rayDirection, rayLength);
-        const result = this.scene.pickWithRay(ray, (mesh) => !this.mesh.includes(mesh as Mesh) && mesh.name === "platform");
-        return result?.hit;
+        return this.getGround() !== null;
     }
 
     /**
-     * Moves the player using physics based on input and delta time.
-     * @param dt Delta time.
+     * Returns the walkable surface the player stands on (a platform, a safe face of the cube, another player...),
+     * found once per step at the start of `update`.
+     * @returns The ground, with its normal and the object owning it, or null if the player is airborne.
+     */
+    public getGround(): GroundHit | null {
+        return this.ground;
+    }
+
+    /**
+     * Returns the ground sensor of the current physics body, creating it if needed.
+     * @returns The sensor, or null if the player has no physics body.
+     */
+    private getGroundSensor(): GroundSensor | null {
+        const physicsBody = this.getMesh()?.physicsBody;
+        if (!physicsBody) {
+            return null;
+        }
+        if (this.groundSensor?.getBody() !== physicsBody) {
+            this.groundSensor?.dispose();
+            // Babylon.js sizes the sphere of the player with the largest half extent of the mesh
+            const extent = this.getMesh().getBoundingInfo().boundingBox.extendSizeWorld;
+            this.groundSensor = new GroundSensor(physicsBody, Math.max(extent.x, extent.y, extent.z), this.scene);
+        }
+        return this.groundSensor;
+    }
+
+    /**
+     * Returns the velocity of the ground under the player, if it is moved by its parent (e.g. a rotating platform)
+     * or if it is the belt of a conveyor, so that the player is carried along.
+     * @returns The velocity of the ground at the player position, or zero.
+     */
+    private getGroundVelocity(): Vector3 {
+        const ground = this.getGround();
+        const velocity = Vector3.Zero();
+        if (!ground) {
+            return velocity;
+        }
+        const body = ground.body;
+        if (body.getMotionType() === PhysicsMotionType.ANIMATED) {
+            const offset = this.getMesh().getAbsolutePosition().subtract(body.getObjectCenterWorld());
+            velocity.addInPlace(body.getLinearVelocity().add(Vector3.Cross(body.getAngularVelocity(), offset)));
+        }
+        if (this.belt && this.belt.surface === ground.surface) {
+            velocity.addInPlace(this.belt.velocity);
+        }
+        return velocity;
+    }
+
+    /**
+     * Moves the player using physics based on input: its lateral speed, relative to the ground, accelerates towards
+     * the speed of the movement profile, or decelerates to a stop without input (less in the air, see airControl).
+     * The fall speed is limited to the maximum fall speed of the profile.
      * @param input The current input state.
+     * @param dt Delta time, in milliseconds.
      */
-    public move(dt: number, input: CharacterInput) {
+    public move(input: CharacterInput, dt: number) {
         const physicsBody = this.getMesh().physicsBody;
         if (!physicsBody) {
             console.warn("Physics body not found for the player mesh.");
             return;
         }
-        const right = Vector3.Right().scale(input.right ? 1 : 0);
-        const left = Vector3.Left().scale(input.left ? 1 : 0);
-        const horizontalMovement = right.add(left);
-        const velocity = horizontalMovement.scale(this.speed * dt);
+        const groundVelocity = this.getGroundVelocity();
         const currentVelocity = physicsBody.getLinearVelocity();
-        velocity.y = currentVelocity.y;
+        const direction = (input.right ? 1 : 0) - (input.left ? 1 : 0);
+
+        const control = this.isGrounded() ? 1 : this.movement.airControl;
+        const rate = (direction !== 0 ? this.movement.acceleration : this.movement.deceleration) * control;
+        const lateralSpeed = Vector3.Dot(currentVelocity.subtract(groundVelocity), this.right);
+        const targetSpeed = direction * this.movement.speed;
+        const maxChange = rate * dt / 1000;
+        const speed = lateralSpeed + Math.max(-maxChange, Math.min(targetSpeed - lateralSpeed, maxChange));
+
+        const velocity = this.right.scale(speed).addInPlace(groundVelocity);
+        // Keep the vertical speed (gravity, jumps), within the maximum fall speed
+        let verticalSpeed = Vector3.Dot(currentVelocity, this.up);
+        if (this.movement.maxFallSpeed > 0) {
+            verticalSpeed = Math.max(verticalSpeed, -this.movement.maxFallSpeed);
+        }
+        velocity.addInPlace(this.up.scale(verticalSpeed - Vector3.Dot(velocity, this.up)));
         physicsBody.setLinearVelocity(velocity);
     }
 
     /**
-     * Updates the player's state machine and damage state.
+     * Finds the ground under the player, then updates the jump timers, the player's state machine and damage state.
      * @param dt Delta time.
      * @param input The current input state.
      */
     public update(dt: number, input: CharacterInput) {
+        this.ground = this.getGroundSensor()?.detect(this.up) ?? null;
+        if (this.getMesh()?.physicsBody) {
+            this.updateJump(dt, input.jump);
+        }
         const newState = this.state.update(dt, input);
         if (newState) {
             this.state.exit();
@@ -207,6 +485,9 @@ export class Player implements GameObject {
     public removePhysics() {
         this.getMesh().physicsBody.dispose();
         this.getMesh().physicsBody = null;
+        this.groundSensor?.dispose();
+        this.groundSensor = null;
+        this.ground = null;
     }
 
     /**
@@ -275,6 +556,33 @@ export class Player implements GameObject {
         this.damageState.takeDamage(damage);
     }
 
+    /**
+     * Applies the effect of a face of the cube touched by the player.
+     * @param hazard The hazard of the face.
+     * @param normal The inward normal of the face (unit vector).
+     */
+    public applyFaceHazard(hazard: FaceHazard, normal: Vector3): void {
+        const physicsBody = this.getMesh().physicsBody;
+        switch (hazard) {
+            case "kill":
+                this.kill();
+                break;
+            case "damage":
+                this.takeDamage(Player.FaceDamage);
+                break;
+            case "bounce": {
+                // Replace the speed towards the face by a speed away from it
+                const velocity = physicsBody.getLinearVelocity();
+                velocity.subtractInPlace(normal.scale(Vector3.Dot(velocity, normal) - Player.BounceSpeed));
+                physicsBody.setLinearVelocity(velocity);
+                break;
+            }
+            case "sticky":
+                physicsBody.setLinearVelocity(Vector3.Zero());
+                break;
+        }
+    }
+
     /**
      * Returns whether the player is alive.
      */
@@ -290,6 +598,36 @@ export class Player implements GameObject {
         this.hp = 0;
     }
 
+    /**
+     * Brings the dead player back to life at a position (e.g. a checkpoint): restores its HP, stops it and resets
+     * its states and jumps.
+     * @param position The respawn position, in world coordinates.
+     */
+    public respawn(position: Vector3): void {
+        this.hp = this.maxHp;
+        this.state.exit();
+        this.state = new IdleState(this);
+        this.state.enter();
+        this.damageState.exit();
+        this.damageState = new PlayerDamageableState(this);
+        this.damageState.enter();
+        this.rising = false;
+        this.jumpCuttable = false;
+        this.sinceGrounded = Infinity;
+        this.sinceJumpPressed = Infinity;
+
+        const mesh = this.getMesh();
+        mesh.setAbsolutePosition(position);
+        const physicsBody = mesh.physicsBody;
+        if (physicsBody) {
+            physicsBody.setLinearVelocity(Vector3.Zero());
+            physicsBody.setAngularVelocity(Vector3.Zero());
+            // Teleport the body: dynamic bodies do not follow their mesh
+            const plugin = this.scene.getPhysicsEngine()?.getPhysicsPlugin() as HavokPlugin;
+            plugin?.setPhysicsBodyTransformation(physicsBody, mesh);
+        }
+    }
+
     /**
      * Handles logic when the game is paused.
      */
@@ -345,6 +683,8 @@ export class PlayerFactory implements GameObjectFactory {
             if (physics) {
                 const aggregate = new PhysicsAggregate(meshes[0], PhysicsShapeType.SPHERE, { mass: 70, friction: 10, restitution: 0 }, config.scene);
                 aggregate.body.setMassProperties({ mass: 70, inertia: new Vector3(0, 0, 1) });
+                // The other players can stand on this one
+                GroundSensor.setWalkable(meshes[0], player);
             }
 
             meshes[0].name = "player";
@@ -357,11 +697,13 @@ export class PlayerFactory implements GameObjectFactory {
             { name: "death", path: "/assets/sounds/death.wav" },
             { name: "move", path: "/assets/sounds/footstep_wood_001.ogg", volume: 0.5 },
             { name: "hit", path: "/assets/sounds/playerhit.mp3" },
+            { name: "wallslide", path: "/assets/sounds/scratch_001.ogg", volume: 0.5 },
+            { name: "walljump", path: "/assets/sounds/pluck_001.ogg" },
         ];
 
         // load sounds
         sounds.forEach(({ name, path, volume }) => {
-            Utils.loadSound(config.assetsManager, name, path, (sound) => {
+            Utils.loadSound(config, name, path, (sound) => {
                 if (volume) sound.volume = volume;
                 player.addSound(name, sound);
             });
@@ -377,7 +719,7 @@ export class PlayerFactory implements GameObjectFactory {
 
     public createForEditor(config: GameObjectConfig): EditorObject {
         const player = this.createImpl(config, false);
-        const editor = new ObjectEditorImpl(player);
+        const editor = new ObjectEditorImpl(player, config.properties);
         return editor;
     }
 }
@@ -5,6 +5,7 @@
  * - Implements the RocketObject class, representing a rocket enemy with physics, sound, and explosion effects.
  * - Handles rocket activation, collision, and explosion logic (including particle effects and sound).
  * - Provides a FixedRocket subclass and a FixedRocketFactory for instantiating rockets in the game or editor.
+ * - Reads the damage and explosion radius of each rocket from its level properties (see `RocketProperties`).
  * - Integrates with Babylon.js for mesh creation, physics, and particle systems.
  * 
  * Usage:
@@ -19,6 +20,8 @@
 import { Mesh, Scene, StaticSound, ParticleSystem, Texture, Vector3, Color4, PhysicsAggregate, PhysicsShapeType, MeshBuilder, StandardMaterial, Color3 } from "@babylonjs/core";
 import { Enemy, GameObjectVisitor, CollisionGroup, GameObjectObserver, GameObjectFactory, GameObjectConfig, Utils, EditorObject } from "../types";
 import { ObjectEditorImpl } from "./EditorObject";
+import { LevelSchema, RocketProperties } from "../LevelSchema";
+import { LevelScope } from "../LevelScope";
 
 /**
  * RocketObject represents a rocket enemy in the game.
@@ -32,8 +35,8 @@ export class RocketObject implements Enemy {
 
     protected mesh: Mesh;
     protected scene: Scene;
-    private damage: number = 5;
-    public explosionRadius: number = 10;
+    private damage: number;
+    public explosionRadius: number;
 
     private sounds: Map<string, StaticSound> = new Map();
 
@@ -41,10 +44,14 @@ export class RocketObject implements Enemy {
      * Constructs a new RocketObject.
      * @param mesh The rocket's mesh.
      * @param scene The Babylon.js scene.
+     * @param damage The damage dealt to the player on contact.
+     * @param explosionRadius The radius of the explosion.
      */
-    constructor(mesh: Mesh, scene: Scene) {
+    constructor(mesh: Mesh, scene: Scene, damage: number = 5, explosionRadius: number = 10) {
         this.mesh = mesh;
         this.scene = scene;
+        this.damage = damage;
+        this.explosionRadius = explosionRadius;
         this.id = `${RocketObject.Type}_${RocketObject.nextId++}`;
     }
 
@@ -182,8 +189,8 @@ export class RocketObject implements Enemy {
         this.mesh.dispose(); // Dispose the rocket mesh
         particleSystem.start();
 
-        // Stop the particle system after a short duration
-        setTimeout(() => {
+        // Stop the particle system after a short duration, unless the level is disposed first
+        LevelScope.of(this.scene).setTimeout(() => {
             particleSystem.stop();
             particleSystem.dispose();
         }, 1000);
@@ -221,8 +228,8 @@ export class RocketObject implements Enemy {
 export class FixedRocket extends RocketObject {
     public static readonly Type: string = "rocket";
 
-    constructor(mesh: Mesh, scene: Scene) {
-        super(mesh, scene);
+    constructor(mesh: Mesh, scene: Scene, damage?: number, explosionRadius?: number) {
+        super(mesh, scene, damage, explosionRadius);
     }
 
     public getType(): string {
@@ -262,14 +269,15 @@ export class FixedRocketFactory implements GameObjectFactory {
     public create(config: GameObjectConfig): RocketObject {
         const mesh = this.createMesh(config);
         new PhysicsAggregate(mesh, PhysicsShapeType.CYLINDER, { mass: 20, friction: 0.5, restitution: 0.2 }, config.scene);
-        const rocket = new FixedRocket(mesh, config.scene);
+        const properties = LevelSchema.properties<RocketProperties>(FixedRocket.Type, config.properties);
+        const rocket = new FixedRocket(mesh, config.scene, properties.damage, properties.explosionRadius);
         rocket.enableCollision();
 
-        Utils.loadSound(config.assetsManager, "drop", "assets/sounds/drop.mp3", (sound) => {
+        Utils.loadSound(config, "drop", "assets/sounds/drop.mp3", (sound) => {
             rocket.addSound("drop", sound);
             rocket.playSound("drop");
         });
-        Utils.loadSound(config.assetsManager, "explosion", "assets/sounds/explosion.ogg", (sound) => {
+        Utils.loadSound(config, "explosion", "assets/sounds/explosion.ogg", (sound) => {
             sound.spatial.attach(mesh);
             rocket.addSound("explosion", sound);
         }, true);
@@ -283,6 +291,6 @@ export class FixedRocketFactory implements GameObjectFactory {
      */
     public createForEditor(config: GameObjectConfig): EditorObject {
         const rocket = new FixedRocket(this.createMesh(config), config.scene);
-        return new ObjectEditorImpl(rocket);
+        return new ObjectEditorImpl(rocket, config.properties);
     }
 }
@@ -5,6 +5,7 @@
  * - Implements the SpikeTrapObject class, representing a spike trap enemy with physics and collision.
  * - Handles mesh creation, material assignment, and collision setup.
  * - Provides a SpikeTrapFactory for instantiating spike traps in the game or editor.
+ * - Reads the damage of each spike trap from its level properties (see `EnemyProperties`).
  * - Integrates with Babylon.js for mesh, material, and physics management.
  * 
  * Usage:
@@ -17,6 +18,8 @@
 import { Mesh, Scene, Vector3, MeshBuilder, StandardMaterial, Color3, PhysicsAggregate, PhysicsShapeType } from "@babylonjs/core";
 import { Enemy, GameObjectVisitor, GameObjectObserver, GameObjectFactory, GameObjectConfig, EditorObject } from "../types";
 import { ObjectEditorImpl } from "./EditorObject";
+import { EnemyProperties, LevelSchema } from "../LevelSchema";
+import { GroundSensor } from "../GroundSensor";
 
 /**
  * SpikeTrapObject represents a spike trap enemy in the game.
@@ -29,16 +32,18 @@ export class SpikeTrapObject implements Enemy {
     private id: string;
     protected mesh: Mesh;
     protected scene: Scene;
-    private damage: number = 1;
+    private damage: number;
 
     /**
      * Constructs a new SpikeTrapObject.
      * @param mesh The spike trap's mesh.
      * @param scene The Babylon.js scene.
+     * @param damage The damage dealt to the player on contact.
      */
-    constructor(mesh: Mesh, scene: Scene) {
+    constructor(mesh: Mesh, scene: Scene, damage: number = 1) {
         this.mesh = mesh;
         this.scene = scene;
+        this.damage = damage;
         this.id = `${SpikeTrapObject.Type}_${SpikeTrapObject.nextId++}`;
     }
 
@@ -159,8 +164,10 @@ export class SpikeTrapFactory implements GameObjectFactory {
     public create(config: GameObjectConfig): SpikeTrapObject {
         const mesh = this.createMesh(config);
         new PhysicsAggregate(mesh, PhysicsShapeType.BOX, { mass: 0, friction: 0.5, restitution: 0.2 }, config.scene);
-        const spikeTrap = new SpikeTrapObject(mesh, config.scene);
+        const properties = LevelSchema.properties<EnemyProperties>(SpikeTrapObject.Type, config.properties);
+        const spikeTrap = new SpikeTrapObject(mesh, config.scene, properties.damage);
         spikeTrap.enableCollision(); // Enable collision detection
+        GroundSensor.setWalkable(mesh, spikeTrap);
         return spikeTrap;
     }
 
@@ -170,6 +177,6 @@ export class SpikeTrapFactory implements GameObjectFactory {
      */
     public createForEditor(config: GameObjectConfig): EditorObject {
         const spikeTrap = new SpikeTrapObject(this.createMesh(config), config.scene);
-        return new ObjectEditorImpl(spikeTrap);
+        return new ObjectEditorImpl(spikeTrap, config.properties);
     }
 }
\ No newline at end of file
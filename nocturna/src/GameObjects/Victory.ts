@@ -11,12 +11,11 @@
  * - Use `VictoryConditionFactory.create(config)` to create a victory trigger for gameplay (with physics and collision).
  * - Use `VictoryConditionFactory.createForEditor(config)` to create a victory trigger for the editor (without physics).
  * - The victory object can be visited by a GameObjectVisitor, which triggers the victory sound and stops animation.
- * - The object supports animation, sound playback, and reacts to parent node rotation changes.
+ * - The object supports animation and sound playback; its trigger follows the parent node rotations.
  */
 
 import { Animation, Scene, Mesh, PhysicsAggregate, StaticSound, Vector3, PhysicsShapeType, Color3, DynamicTexture, ParticleSystem, Color4, PBRMaterial, CubeTexture } from "@babylonjs/core";
 import { App } from "../app";
-import { ParentNodeObserver } from "../ParentNode";
 import { GameObject, CharacterInput, GameObjectVisitor, GameObjectObserver, GameObjectFactory, GameObjectConfig, Utils, EditorObject } from "../types";
 import { ObjectEditorImpl } from "./EditorObject";
 
@@ -24,9 +23,9 @@ import { ObjectEditorImpl } from "./EditorObject";
 /**
  * VictoryCondition represents the end-of-level victory trigger in the game.
  * - Handles mesh, physics, animation, sound, and particle effects.
- * - Implements the GameObject and ParentNodeObserver interfaces.
+ * - Implements the GameObject interface; its physics body follows the rotations of the parent node.
  */
-export class VictoryCondition implements GameObject, ParentNodeObserver {
+export class VictoryCondition implements GameObject {
     public static readonly Type: string = "victory_condition";
     private static nextId: number = 0;
     private scene: Scene;
@@ -98,31 +97,6 @@ export class VictoryCondition implements GameObject, ParentNodeObserver {
         this.animate();
     }
 
-    /**
-     * Called when the parent node starts rotating (not used here).
-     */
-    public onRotationStart(): void { }
-
-    /**
-     * Called when the parent node's rotation changes.
-     * Updates the physics body to match the mesh's new position and rotation.
-     */
-    public onRotationChange(): void {
-        const mesh = this.getMesh();
-        const physicsBody = mesh.physicsBody;
-        if (physicsBody) {
-            const newPosition = mesh.position;
-            const newRotation = mesh.rotationQuaternion;
-
-            physicsBody.disablePreStep = false;
-            physicsBody.transformNode.position.set(newPosition.x, newPosition.y, newPosition.z);
-            physicsBody.transformNode.rotationQuaternion.set(newRotation.x, newRotation.y, newRotation.z, newRotation.w);
-            this.scene.onAfterRenderObservable.addOnce(() => {
-                physicsBody.disablePreStep = true;
-            });
-        }
-    }
-
     /**
      * Animates the victory object with a floating up-and-down motion.
      */
@@ -228,7 +202,7 @@ export class VictoryConditionFactory implements GameObjectFactory {
             if (physics) {
                 const p = new PhysicsAggregate(meshes[0], PhysicsShapeType.CYLINDER, { mass: 0, friction: 0, restitution: 0 }, config.scene);
                 p.body.setCollisionCallbackEnabled(true);
-                config.parent.addObserver(victory);
+                config.parent.addBody(p.body);
                 victory.victoryAggregate = p;
                 victory.startAnimation();
             }
@@ -277,7 +251,7 @@ export class VictoryConditionFactory implements GameObjectFactory {
             meshes[1].material = pbr;
         });
 
-        Utils.loadSound(config.assetsManager, "victory", "assets/sounds/crystal.ogg", (sound) => {
+        Utils.loadSound(config, "victory", "assets/sounds/crystal.ogg", (sound) => {
             victory.addSound("victory", sound);
         });
 
@@ -298,7 +272,7 @@ export class VictoryConditionFactory implements GameObjectFactory {
      */
     public createForEditor(config: GameObjectConfig): EditorObject {
         const victory = this.createImpl(config, false);
-        const editor = new ObjectEditorImpl(victory);
+        const editor = new ObjectEditorImpl(victory, config.properties);
         return editor;
     }
 }
@@ -316,12 +290,9 @@ export class FixedVictoryConditionFactory extends VictoryConditionFactory {
             const meshes = task.loadedMeshes;
 
             meshes[0].name = VictoryCondition.Type;
-            config.position = Utils.calculatePositionRelativeToParent(config.parent, config.position);
-            config.rotation = Utils.calculateRotationRelativeToParent(config.parent, config.rotation);
+            // Not parented: the position and rotation stay in level coordinates
             Utils.configureMesh(meshes, config);
 
-            // config.parent.addChild(meshes[0]);
-
             meshes.forEach((m) => {
                 victory.mesh.push(m);
             });
@@ -329,7 +300,6 @@ export class FixedVictoryConditionFactory extends VictoryConditionFactory {
             if (physics) {
                 const p = new PhysicsAggregate(meshes[0], PhysicsShapeType.CYLINDER, { mass: 0, friction: 0, restitution: 0 }, config.scene);
                 p.body.setCollisionCallbackEnabled(true);
-                config.parent.addObserver(victory);
                 victory.victoryAggregate = p;
                 victory.startAnimation();
             }
@@ -378,7 +348,7 @@ export class FixedVictoryConditionFactory extends VictoryConditionFactory {
             meshes[1].material = pbr;
         });
 
-        Utils.loadSound(config.assetsManager, "victory", "assets/sounds/crystal.ogg", (sound) => {
+        Utils.loadSound(config, "victory", "assets/sounds/crystal.ogg", (sound) => {
             victory.addSound("victory", sound);
         });
 
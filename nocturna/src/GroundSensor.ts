@@ -0,0 +1,167 @@
+import { HavokPlugin, Node, PhysicsBody, PhysicsShapeSphere, Quaternion, Scene, ShapeCastResult, TransformNode, Vector3 } from "@babylonjs/core";
+import { GameObject } from "./types";
+
+/**
+ * GroundSensor.ts defines how the player finds the ground it stands on, and the walls it touches.
+ *
+ * Responsibilities:
+ * - Keeps the walkable surfaces: the physics bodies any object type can opt into (platforms, spike traps, coins,
+ *   the other players, the safe faces of the cube...), with the game object owning them.
+ * - Sweeps a sphere slightly smaller than the player a short distance along gravity (a physics shape cast), so that
+ *   rotated surfaces and edges are detected, unlike with a single ray.
+ * - Only accepts walkable surfaces that are not too steep, and reports the contact point, the ground normal and the
+ *   surface, for the slopes, the moving platforms and the surface effects.
+ * - Sweeps the same sphere sideways to find the steep sides of the walkable surfaces (walls), for the wall slide.
+ *
+ * Usage:
+ * - Call `GroundSensor.setWalkable(mesh, object)` when creating the physics body of a surface the player can stand on.
+ * - The Player creates a GroundSensor for its body and calls `detect(up)` to get the ground, or null when airborne,
+ *   and `detectWall(up, side)` to get the wall on one side.
+ */
+
+/**
+ * GroundHit describes the ground under the player, or a wall beside it.
+ */
+export interface GroundHit {
+    /** Contact point, in world coordinates. */
+    point: Vector3;
+    /** Normal of the surface at the contact point, pointing towards the player (unit vector). */
+    normal: Vector3;
+    /** Physics body of the ground. */
+    body: PhysicsBody;
+    /** Game object owning the ground, or null for the surfaces of the level itself (e.g. the faces of the cube). */
+    surface: GameObject | null;
+}
+
+/**
+ * GroundSensor detects the walkable surface under a physics body.
+ */
+export class GroundSensor {
+    /** Steepest walkable slope (50°), in radians; steeper surfaces are walls. */
+    public static readonly MaxSlope: number = 50 * Math.PI / 180;
+    /** Fraction of the body radius used by the swept sphere, so that the walls touched on the sides are not hit. */
+    private static readonly ShrinkRatio: number = 0.9;
+    /** Distance below the body at which the ground is still detected, to forgive small bumps. */
+    private static readonly Tolerance: number = 1;
+
+    /** Walkable surfaces, by the node of their physics body, with the game object owning them. */
+    private static walkables: WeakMap<Node, GameObject | null> = new WeakMap();
+
+    private scene: Scene;
+    private body: PhysicsBody;
+    private radius: number;
+    private shape: PhysicsShapeSphere;
+    private inputResult: ShapeCastResult = new ShapeCastResult();
+    private hitResult: ShapeCastResult = new ShapeCastResult();
+
+    /**
+     * Constructs a GroundSensor for a spherical physics body.
+     * @param body The physics body looking for the ground.
+     * @param radius The radius of the body.
+     * @param scene The Babylon.js scene.
+     */
+    constructor(body: PhysicsBody, radius: number, scene: Scene) {
+        this.scene = scene;
+        this.body = body;
+        this.radius = radius;
+        this.shape = new PhysicsShapeSphere(Vector3.Zero(), radius * GroundSensor.ShrinkRatio, scene);
+    }
+
+    /**
+     * Makes a surface walkable: the player standing on it is grounded.
+     * @param mesh The mesh holding the physics body of the surface.
+     * @param surface The game object owning the surface, if any.
+     */
+    public static setWalkable(mesh: TransformNode, surface: GameObject | null = null) {
+        this.walkables.set(mesh, surface);
+    }
+
+    /**
+     * Checks whether a node is a walkable surface.
+     * @param node The node of a physics body.
+     */
+    public static isWalkable(node: Node): boolean {
+        return this.walkables.has(node);
+    }
+
+    /**
+     * Returns the physics body this sensor belongs to.
+     */
+    public getBody(): PhysicsBody {
+        return this.body;
+    }
+
+    /**
+     * Finds the walkable ground under the body.
+     * @param up The up direction, opposite to gravity (unit vector).
+     * @returns The ground, or null if the body is airborne or on a surface that is not walkable or too steep.
+     */
+    public detect(up: Vector3): GroundHit | null {
+        const hit = this.cast(up.negate());
+        if (!hit || Vector3.Dot(hit.normal, up) < Math.cos(GroundSensor.MaxSlope)) {
+            return null;
+        }
+        return hit;
+    }
+
+    /**
+     * Finds the wall on one side of the body: a walkable surface too steep to stand on.
+     * @param up The up direction, opposite to gravity (unit vector).
+     * @param side The direction of the side to check (unit vector, orthogonal to up).
+     * @returns The wall, or null if there is no walkable surface on this side or it is not steep enough.
+     */
+    public detectWall(up: Vector3, side: Vector3): GroundHit | null {
+        const hit = this.cast(side);
+        if (!hit || Math.abs(Vector3.Dot(hit.normal, up)) >= Math.cos(GroundSensor.MaxSlope)) {
+            return null;
+        }
+        return hit;
+    }
+
+    /**
+     * Sweeps the sphere a short distance in a direction and returns the walkable surface it hits.
+     * @param direction The direction of the sweep (unit vector).
+     * @returns The surface, its normal pointing against the sweep, or null if no walkable surface is hit.
+     */
+    private cast(direction: Vector3): GroundHit | null {
+        const plugin = this.scene.getPhysicsEngine()?.getPhysicsPlugin() as HavokPlugin;
+        if (!plugin || this.body.isDisposed) {
+            return null;
+        }
+        const start = this.body.getObjectCenterWorld();
+        // The shrunk sphere has to travel the gap left by the shrinking before touching the surface
+        const distance = this.radius * (1 - GroundSensor.ShrinkRatio) + GroundSensor.Tolerance;
+        // The sphere only hits what the body collides with (e.g. not the one-way platforms it goes through)
+        this.shape.filterCollideMask = this.body.shape.filterCollideMask;
+        plugin.shapeCast({
+            shape: this.shape,
+            rotation: Quaternion.Identity(),
+            startPosition: start,
+            endPosition: start.add(direction.scale(distance)),
+            shouldHitTriggers: false,
+            ignoreBody: this.body,
+        }, this.inputResult, this.hitResult);
+
+        const body = this.hitResult.body;
+        if (!this.hitResult.hasHit || !body || !GroundSensor.isWalkable(body.transformNode)) {
+            return null;
+        }
+        const normal = this.hitResult.hitNormal.normalizeToNew();
+        if (Vector3.Dot(normal, direction) > 0) {
+            normal.negateInPlace();
+        }
+        return {
+            point: this.hitResult.hitPoint.clone(),
+            normal: normal,
+            body: body,
+            surface: GroundSensor.walkables.get(body.transformNode) ?? null,
+        };
+    }
+
+    /**
+     * Releases the swept shape.
+     */
+    public dispose() {
+        this.shape.dispose();
+    }
+}
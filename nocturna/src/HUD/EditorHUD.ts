@@ -4,6 +4,10 @@
  * Responsibilities:
  * - Displays context-sensitive HUD bars for each editor mode (Addition, Move, Rotation, Resize).
  * - Shows icons, tooltips, and key bindings for available actions in each mode.
+ * - Builds the Addition palette from the ObjectRegistry; clicking an entry places the object on the next click, which
+ *   also gives access to the entries without an action key.
+ * - Shows the prefab currently selected for placement and the prefab key bindings.
+ * - Shows short messages (e.g. the result of sharing the level), with an optional text field to copy by hand.
  * - Handles user interactions with HUD elements (e.g., clone, delete, mode switching).
  * - Integrates with the InputHandler to display current key bindings.
  * - Notifies a listener (IHUDEditorListener) when HUD actions are triggered.
@@ -12,18 +16,24 @@
  * Usage:
  * - Use `createHUDEditor(scene, listener)` to instantiate.
  * - Call `setMode(mode)` to display the HUD for the current editor mode.
+ * - Call `setPrefab(name)` when the prefab selected for placement changes.
+ * - Call `showMessage(message, copy)` to tell the user the outcome of an action.
  * - Call `dispose()` to clean up resources when the HUD is no longer needed.
  */
 
 import { Scene } from "@babylonjs/core";
-import { AdvancedDynamicTexture, Control, Rectangle, StackPanel, TextBlock, Image } from "@babylonjs/gui";
+import { AdvancedDynamicTexture, Control, Rectangle, StackPanel, TextBlock, Image, InputText } from "@babylonjs/gui";
 import { InputHandler } from "../InputHandler";
+import { ObjectRegistry } from "../ObjectRegistry";
+import { LevelScope } from "../LevelScope";
 
 /**
  * IHUDEditor defines the interface for the editor HUD.
  */
 export interface IHUDEditor {
     setMode(mode: string): void;
+    setPrefab(name: string | null): void;
+    showMessage(message: string, copy?: string): void;
     dispose(): void;
 }
 
@@ -36,6 +46,8 @@ export interface IHUDEditorListener {
     onCancelSelection(): void;
     onRemoveSelection(): void;
     onCloneSelection(): void;
+    /** Called when a palette entry is clicked: the next click on the level places an object of this type. */
+    onPaletteSelected(type: string): void;
 }
 
 /**
@@ -56,10 +68,17 @@ export function createHUDEditor(scene: Scene, listener: IHUDEditorListener): IHU
  * - Handles user interaction and notifies the listener of HUD events.
  */
 class EditorHUD implements IHUDEditor {
+    /** Duration of the messages without text to copy (ms). */
+    private static readonly MessageDuration: number = 3000;
     private scene: Scene;
     private gui: AdvancedDynamicTexture;
     private modeBars: Map<string, Rectangle> = new Map();
     private listener: IHUDEditorListener | null = null;
+    private prefabText: TextBlock;
+    private messageText: TextBlock;
+    private copyInput: InputText;
+    /** Number of messages shown, so that only the last one is hidden after its duration. */
+    private messages: number = 0;
 
     /**
      * Constructs a new EditorHUD.
@@ -69,30 +88,23 @@ class EditorHUD implements IHUDEditor {
     constructor(scene: Scene, listener: IHUDEditorListener) {
         this.scene = scene;
         this.gui = AdvancedDynamicTexture.CreateFullscreenUI("EditorHUD", true, this.scene);
+        LevelScope.of(this.scene).addGui(this.gui);
         this.listener = listener;
 
         const inputHandler = InputHandler.getInstance();
 
+        // Palette des objets enregistrés
+        const palette = ObjectRegistry.getPalette().map((definition, index) => {
+            const action = ObjectRegistry.getPaletteAction(index);
+            return { icon: definition.palette.icon,
+                tooltip: `${definition.palette.category}: ${definition.palette.label}`,
+                key: action ? `/assets/hud/Keyboard/Default/keyboard_${inputHandler.getKeyName(action)}.png` : undefined,
+                onclick: () => this.listener?.onPaletteSelected(definition.type) };
+        });
+
         // Prépare les barres pour chaque mode (exemple avec 2 modes)
         this.createModeBar("Addition", "Add element to the scene by pointing on the wall and using action key.", [
-            { icon: "/assets/hud/editor/fixed_platform.png", 
-                tooltip: "Fixed platform", 
-                key: `/assets/hud/Keyboard/Default/keyboard_${inputHandler.getKeyName("action_1")}.png` },
-            { icon: "/assets/hud/editor/parented_platform.png", 
-                tooltip: "Parented platform", 
-                key: `/assets/hud/Keyboard/Default/keyboard_${inputHandler.getKeyName("action_2")}.png` },
-            { icon: "/assets/hud/editor/spikes.png", 
-                tooltip: "Spikes", 
-                key: `/assets/hud/Keyboard/Default/keyboard_${inputHandler.getKeyName("action_3")}.png` },
-            { icon: "/assets/hud/editor/coin.png", 
-                tooltip: "Coin", 
-                key: `/assets/hud/Keyboard/Default/keyboard_${inputHandler.getKeyName("action_4")}.png` },
-            { icon: "/assets/hud/editor/player.png", 
-                tooltip: "Player", 
-                key: `/assets/hud/Keyboard/Default/keyboard_${inputHandler.getKeyName("action_5")}.png` },
-            { icon: "/assets/hud/editor/crystal.png", 
-                tooltip: "Victory", 
-                key: `/assets/hud/Keyboard/Default/keyboard_${inputHandler.getKeyName("action_6")}.png` },
+            ...palette,
             { icon: "/assets/hud/editor/assets/hud/Switch2/Default/switch_button_c.png", 
                 tooltip: "Clone", 
                 key: `/assets/hud/Keyboard/Default/keyboard_${inputHandler.getKeyName("clone")}.png`, 
@@ -144,9 +156,70 @@ class EditorHUD implements IHUDEditor {
                 onclick: () => this.listener?.onNextMode() }
         ]);
 
+        // Prefab courant
+        this.prefabText = new TextBlock();
+        this.prefabText.color = "white";
+        this.prefabText.fontSize = 20;
+        this.prefabText.height = "30px";
+        this.prefabText.top = "20px";
+        this.prefabText.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+        this.gui.addControl(this.prefabText);
+        this.setPrefab(null);
+
+        // Messages (e.g. level code copied) and text to copy by hand
+        this.messageText = new TextBlock();
+        this.messageText.color = "white";
+        this.messageText.fontSize = 20;
+        this.messageText.height = "30px";
+        this.messageText.top = "55px";
+        this.messageText.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+        this.gui.addControl(this.messageText);
+
+        this.copyInput = new InputText("copyInput");
+        this.copyInput.width = "60%";
+        this.copyInput.height = "40px";
+        this.copyInput.top = "90px";
+        this.copyInput.color = "white";
+        this.copyInput.background = "black";
+        this.copyInput.onFocusSelectAll = true;
+        this.copyInput.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+        this.copyInput.isVisible = false;
+        this.gui.addControl(this.copyInput);
+
         this.setMode("Addition");
     }
 
+    /**
+     * Displays the prefab selected for placement and the prefab key bindings.
+     * @param name The name of the prefab, or null if the level has none.
+     */
+    public setPrefab(name: string | null): void {
+        const inputHandler = InputHandler.getInstance();
+        const keys = `[${inputHandler.getKeyName("save_prefab")}] save selection`
+            + (name ? `  [${inputHandler.getKeyName("place_prefab")}] place  [${inputHandler.getKeyName("next_prefab")}] next` : "");
+        this.prefabText.text = `Prefab: ${name ?? "none"}    ${keys}    (shift + click to group objects)`;
+    }
+
+    /**
+     * Displays a message. Without text to copy, the message is hidden after a few seconds; otherwise the text stays
+     * in a field, selected when clicked, until the next message.
+     * @param message The message.
+     * @param copy The text the user has to copy by hand (e.g. when the clipboard is not available).
+     */
+    public showMessage(message: string, copy?: string): void {
+        const current = ++this.messages;
+        this.messageText.text = message;
+        this.copyInput.text = copy ?? "";
+        this.copyInput.isVisible = copy !== undefined;
+        if (copy === undefined) {
+            LevelScope.of(this.scene).setTimeout(() => {
+                if (current === this.messages && this.gui) {
+                    this.messageText.text = "";
+                }
+            }, EditorHUD.MessageDuration);
+        }
+    }
+
     /**
      * Adds an action icon (with optional key and click handler) to a HUD bar.
      */
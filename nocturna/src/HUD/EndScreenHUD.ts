@@ -7,6 +7,8 @@
  * - Implements concrete HUD classes for win and lose screens, including multiplayer variants.
  * - Handles UI updates, button actions (retry, continue, quit), and animated score display.
  * - Supports random death messages for lose screens.
+ * - Displays the level title, par time and score rating from the level metadata on the win screen.
+ * - Displays the personal bests and a "new record" banner on the win screen.
  * - Integrates with the DOM to show/hide relevant overlays and update content.
  * 
  * Usage:
@@ -18,6 +20,8 @@
 
 import { CharacterInput } from "../types";
 import { Translation } from "../utils/translation";
+import { LevelMeta } from "../LevelSchema";
+import { LevelRecordResult } from "../PlayerProgress";
 
 /**
  * IEndScreenHUD defines the interface for end screen HUDs.
@@ -42,9 +46,12 @@ export interface IEndScreenHUDListener {
  * @param mode The mode ("continue" or "normal").
  * @param score The final score.
  * @param time The completion time.
+ * @param meta The metadata of the level, if any.
+ * @param record The personal bests after this run, if the progress was recorded.
  */
-export function createWinScreenHUD(listener: IEndScreenHUDListener, mode: string, score: number, time: number): WinScreenHUD {
-    return new WinScreenHUD(listener, mode, score, time);
+export function createWinScreenHUD(listener: IEndScreenHUDListener, mode: string, score: number, time: number,
+                                   meta: LevelMeta = null, record: LevelRecordResult = null): WinScreenHUD {
+    return new WinScreenHUD(listener, mode, score, time, meta, record);
 }
 
 /**
@@ -145,10 +152,18 @@ abstract class BaseEndScreenHUD extends EndScreenHUD {
      */
     protected animateScore(balise: string): void {
         const finalTimerElement = document.getElementById(balise);
-        const finalTime = Math.floor(this.time / 1000);
+        finalTimerElement.textContent = this.formatTime(this.time);
+    }
+
+    /**
+     * Formats a time in mm:ss format.
+     * @param time The time in milliseconds.
+     */
+    protected formatTime(time: number): string {
+        const finalTime = Math.floor(time / 1000);
         const minutes = Math.floor(finalTime / 60);
         const seconds = finalTime % 60;
-        finalTimerElement.textContent = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+        return `${minutes}:${seconds.toString().padStart(2, '0')}`;
     }
 
     /**
@@ -173,11 +188,18 @@ abstract class BaseEndScreenHUD extends EndScreenHUD {
  */
 class WinScreenHUD extends BaseEndScreenHUD {
     protected mode: string = "normal";
+    protected meta: LevelMeta;
+    protected record: LevelRecordResult;
+    private score: number;
 
-    constructor(listener: IEndScreenHUDListener, mode: string, score: number, time: number) {
+    constructor(listener: IEndScreenHUDListener, mode: string, score: number, time: number,
+                meta: LevelMeta = null, record: LevelRecordResult = null) {
         super(listener, score, time);
 
         this.mode = mode;
+        this.meta = meta;
+        this.record = record;
+        this.score = score;
         this.display();
     }
 
@@ -215,6 +237,44 @@ class WinScreenHUD extends BaseEndScreenHUD {
         super.display("win-screen");
         this.initialiseButtons();
         this.animateScore("final-timer");
+        this.displayMeta();
+        this.displayRecord();
+    }
+
+    /**
+     * Displays the level title, par time and rating if the level metadata defines them.
+     */
+    protected displayMeta(): void {
+        const title = document.getElementById("win-level-title") as HTMLElement;
+        const parRow = document.getElementById("par-time-row") as HTMLElement;
+        const ratingRow = document.getElementById("rating-row") as HTMLElement;
+        title.classList.toggle("hidden", !this.meta?.title);
+        parRow.classList.toggle("hidden", !this.meta?.parTime);
+        ratingRow.classList.toggle("hidden", !this.meta?.scoreThresholds.length);
+        if (!this.meta) return;
+
+        const author = this.meta.author ? ` ${Translation.getTranslation("win.by")} ${this.meta.author}` : "";
+        title.textContent = `${this.meta.title}${author}`;
+
+        document.getElementById("par-timer").textContent = this.formatTime(this.meta.parTime);
+
+        const thresholds = this.meta.scoreThresholds;
+        const stars = thresholds.filter(threshold => this.score >= threshold).length;
+        document.getElementById("final-rating").textContent = "★".repeat(stars) + "☆".repeat(thresholds.length - stars);
+    }
+
+    /**
+     * Displays the personal bests and the "new record" banner if the run was recorded.
+     */
+    protected displayRecord(): void {
+        document.getElementById("new-record").classList.toggle("hidden",
+            !this.record || !(this.record.newBestTime || this.record.newBestScore));
+        document.getElementById("best-time-row").classList.toggle("hidden", !this.record);
+        document.getElementById("best-score-row").classList.toggle("hidden", !this.record);
+        if (!this.record) return;
+
+        document.getElementById("best-timer").textContent = this.formatTime(this.record.record.bestTime);
+        document.getElementById("best-score").textContent = this.record.record.bestScore.toLocaleString();
     }
 
     /**
@@ -319,10 +379,14 @@ class MultiLoseScreenHUD extends loseScreenHUD {
     }
 
     /**
-     * Cleans up and hides the lose screen.
+     * Cleans up and hides the lose screen, restoring the retry button and the stats for the next games.
      */
     public dispose(): void {
         this.hide("game-over-screen");
+        document.getElementById("retry-button").classList.remove("hidden");
+        document.getElementById("lose-stats-container").classList.remove("hidden");
+
+        this.observers = [];
     }
 
     /**
@@ -347,7 +411,7 @@ class MultiLoseScreenHUD extends loseScreenHUD {
 class MultiWinScreenHUD extends WinScreenHUD {
 
     constructor(listener: IEndScreenHUDListener) {
-        super(listener, "normal", 0, 0);
+        super(listener, "normal", 0, 0, null);
     }
 
     /**
@@ -359,6 +423,15 @@ class MultiWinScreenHUD extends WinScreenHUD {
         finalScoreElement.classList.add("hidden");
     }
 
+    /**
+     * Cleans up and hides the win screen, restoring the continue button and the stats for the next games.
+     */
+    public dispose(): void {
+        super.dispose();
+        document.getElementById("continue-button").classList.remove("hidden");
+        document.getElementById("win-stats-container").classList.remove("hidden");
+    }
+
     /**
      * Initializes button event listeners for quit only (continue is hidden).
      */
@@ -3,6 +3,7 @@
 export class HpBar {
     private hpBar: HTMLElement = null;
     private hpBarContainer: HTMLElement = null;
+    private livesCounter: HTMLElement = null;
     private maxHp: number = 0;
 
     constructor(maxHp: number) {
@@ -10,6 +11,7 @@ export class HpBar {
 
         this.hpBar = document.getElementById("hp-bar") as HTMLElement;
         this.hpBarContainer = document.getElementById("hp-bar-container") as HTMLElement;
+        this.livesCounter = document.getElementById("lives-counter") as HTMLElement;
         this.hpBar.classList.remove("hidden");
         this.hpBarContainer.classList.remove("hidden");
     }
@@ -19,8 +21,18 @@ export class HpBar {
         this.hpBar.style.width = `${percent * 100}%`;
     }
 
+    /**
+     * Shows the lives left, or hides the counter if the lives are unlimited.
+     * @param lives The lives left, or null.
+     */
+    setLives(lives: number | null) {
+        this.livesCounter.classList.toggle("hidden", lives === null);
+        this.livesCounter.textContent = `\u2665 ${lives}`;
+    }
+
     dispose() {
         this.hpBar.classList.add("hidden");
         this.hpBarContainer.classList.add("hidden");
+        this.livesCounter.classList.add("hidden");
     }
 }
\ No newline at end of file
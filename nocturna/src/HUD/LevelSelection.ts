@@ -1,15 +1,19 @@
 import { Scene, Vector3, FreeCamera } from "@babylonjs/core";
 import { AdvancedDynamicTexture, Button, StackPanel, TextBlock, Control } from "@babylonjs/gui";
+import { LevelSchema } from "../LevelSchema";
+import { Campaign } from "../Campaign";
+import { PlayerProgress } from "../PlayerProgress";
+import { LevelCode } from "../LevelCode";
+import { LevelScope } from "../LevelScope";
 
 /**
  * LevelSelection.ts defines the LevelSelectionScene class and its observer interface for displaying
  * and managing the level selection UI in Nocturna.
  * 
  * Responsibilities:
- * - Loads the list of available levels from a JSON file.
- * - Displays a GUI for selecting a level, with a button for each available level.
- * - Allows users to drag and drop a custom JSON file to load a level.
- * - Verifies the validity of the loaded JSON level data.
+ * - Loads the list of available levels (a campaign manifest or a flat list) from a JSON file.
+ * - Displays a button for each level, grouped by chapter, with the locked levels disabled and personal bests shown.
+ * - Loads a custom level from a dropped JSON file or a pasted level code (or link), and verifies its validity.
  * - Notifies an observer when a level is selected or custom data is loaded.
  * - Handles error display for invalid files or loading issues.
  * 
@@ -17,7 +21,6 @@ import { AdvancedDynamicTexture, Button, StackPanel, TextBlock, Control } from "
  * - Instantiate LevelSelectionScene with a Babylon.js Scene and a LevelSelectionObserver.
  * - The observer must implement `onLevelSelected(levelFile)` and `onDataTransmited(data)`.
  * - The UI is automatically created and disposed as needed.
- * - Use drag-and-drop or select a level from the list to trigger observer callbacks.
  */
 
 /**
@@ -26,14 +29,14 @@ import { AdvancedDynamicTexture, Button, StackPanel, TextBlock, Control } from "
  */
 export interface LevelSelectionObserver {
     onLevelSelected(levelFile: string): void;
-    onDataTransmited(data: JSON): void;
+    onDataTransmited(data: unknown): void;
 };
 
 /**
  * LevelSelectionScene manages the level selection user interface.
  * - Loads level data from a JSON file.
- * - Displays a list of levels as buttons.
- * - Supports drag-and-drop of custom JSON files.
+ * - Displays a list of levels as buttons, grouped by chapter, locked levels being disabled.
+ * - Supports drag-and-drop of custom JSON files and pasting level codes.
  * - Notifies the observer of user actions.
  */
 export class LevelSelectionScene {
@@ -41,17 +44,25 @@ export class LevelSelectionScene {
     private scene: Scene;
     private observer: LevelSelectionObserver;
     private fileName: string;
+    private progress: PlayerProgress;
+    private pasteListener: ((e: ClipboardEvent) => void) | null = null;
+    /** Drag-and-drop listeners of the canvas, which outlives the level selection. */
+    private dropCanvas: HTMLCanvasElement | null = null;
+    private dropListeners: { [type in "dragover" | "dragleave" | "drop"]: (e: DragEvent) => void } | null = null;
 
     /**
      * Constructs a new LevelSelectionScene.
      * @param scene The Babylon.js scene.
      * @param observer The observer to notify of user actions.
      * @param fileName The JSON file listing available levels (default: "levels.json").
+     * @param progress The player progress used to evaluate unlock rules and show personal bests.
      */
-    constructor(scene: Scene, observer: LevelSelectionObserver, fileName: string = "levels.json") {
+    constructor(scene: Scene, observer: LevelSelectionObserver, fileName: string = "levels.json",
+                progress: PlayerProgress = PlayerProgress.getInstance()) {
         this.scene = scene;
         this.observer = observer;
         this.fileName = fileName;
+        this.progress = progress;
 
         // Set up the camera for the selection scene
         const camera = new FreeCamera("camera", new Vector3(0, 0, -10), this.scene);
@@ -67,20 +78,20 @@ export class LevelSelectionScene {
      */
     private async loadLevelList() {
         try {
-            const response = await fetch("/assets/levels/" + this.fileName);
-            const levels = await response.json();
-            this.createLevelSelectionUI(levels);
+            const campaign = await Campaign.load(this.fileName);
+            this.createLevelSelectionUI(campaign);
         } catch (error) {
             this.displayError("Failed to load level list: " + error);
         }
     }
 
     /**
-     * Creates the GUI for level selection, with a button for each level.
-     * @param levels The list of levels (array of { name, file }).
+     * Creates the GUI for level selection, with a header for each named chapter and a button for each level.
+     * @param campaign The campaign listing the levels.
      */
-    private createLevelSelectionUI(levels: { name: string; file: string }[]) {
+    private createLevelSelectionUI(campaign: Campaign) {
         this.guiTexture = AdvancedDynamicTexture.CreateFullscreenUI("UI", true, this.scene);
+        LevelScope.of(this.scene).addGui(this.guiTexture);
 
         const panel = new StackPanel();
         panel.width = "50%";
@@ -96,20 +107,55 @@ export class LevelSelectionScene {
         title.height = "50px";
         panel.addControl(title);
 
-        // Level buttons
-        levels.forEach((level) => {
-            const button = Button.CreateSimpleButton(level.name, level.name);
-            button.width = "100%";
-            button.height = "50px";
-            button.color = "white";
-            button.background = "gray";
-            button.onPointerClickObservable.add(() => {
-                this.observer.onLevelSelected(level.file);
+        campaign.getChapters().forEach((chapter) => {
+            // Chapter header
+            if (chapter.name) {
+                const header = new TextBlock();
+                header.text = chapter.name;
+                header.color = "lightgray";
+                header.fontSize = 22;
+                header.height = "40px";
+                panel.addControl(header);
+            }
+
+            // Level buttons
+            chapter.levels.forEach((level) => {
+                const unlocked = campaign.isUnlocked(level.file, this.progress);
+                const label = unlocked ? level.name + this.formatRecord(level.file) : "🔒 " + level.name;
+                const button = Button.CreateSimpleButton(level.name, label);
+                button.width = "100%";
+                button.height = "50px";
+                button.color = unlocked ? "white" : "darkgray";
+                button.background = unlocked ? "gray" : "#333333";
+                button.isEnabled = unlocked;
+                button.onPointerClickObservable.add(() => {
+                    this.observer.onLevelSelected(level.file);
+                });
+                panel.addControl(button);
             });
-            panel.addControl(button);
         });
 
         this.addDragAndDropArea(panel);
+        this.addLevelCodePaste(panel);
+    }
+
+    /**
+     * Formats the personal bests of a level for its button.
+     * @param file The level file.
+     * @returns The best time and score, only a check mark if they are unknown, or an empty string if the level
+     *          was never completed.
+     */
+    private formatRecord(file: string): string {
+        const record = this.progress.getRecord(file);
+        if (!record.completed) {
+            return "";
+        }
+        if (record.bestTime === null) {
+            return "  ✔";
+        }
+        const seconds = Math.floor(record.bestTime / 1000);
+        const time = `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+        return `  ✔ ${time} · ${record.bestScore.toLocaleString()}`;
     }
 
     /**
@@ -126,89 +172,106 @@ export class LevelSelectionScene {
 
         const canvas = this.scene.getEngine().getRenderingCanvas();
         if (canvas) {
-            canvas.addEventListener("dragover", (e) => {
-                e.preventDefault();
-                dropInfo.color = "yellow";
-            });
-            canvas.addEventListener("dragleave", (e) => {
-                e.preventDefault();
-                dropInfo.color = "lightgray";
-            });
-            canvas.addEventListener("drop", (e) => {
-                e.preventDefault();
-                dropInfo.color = "lightgray";
-                if (e.dataTransfer && e.dataTransfer.files.length > 0) {
-                    const file = e.dataTransfer.files[0];
-                    const reader = new FileReader();
-                    reader.onload = () => {
-                        const content = JSON.parse(reader.result as string) as JSON;
-                        if (this.verifyJson(content)) {
-                            this.observer.onDataTransmited(content);
-                        } else {
-                            this.displayError("Invalid level data format.");
-                        }
-                    };
-                    reader.readAsText(file);
-                }
-            });
+            this.dropListeners = {
+                dragover: (e) => {
+                    e.preventDefault();
+                    dropInfo.color = "yellow";
+                },
+                dragleave: (e) => {
+                    e.preventDefault();
+                    dropInfo.color = "lightgray";
+                },
+                drop: (e) => this.onDrop(e, dropInfo),
+            };
+            this.dropCanvas = canvas;
+            canvas.addEventListener("dragover", this.dropListeners.dragover);
+            canvas.addEventListener("dragleave", this.dropListeners.dragleave);
+            canvas.addEventListener("drop", this.dropListeners.drop);
         }
     }
 
     /**
-     * Disposes the GUI resources used by the level selection scene.
+     * Loads the JSON file dropped on the canvas.
+     * @param e The drop event.
+     * @param dropInfo The hint of the drag-and-drop area.
      */
-    public dispose() {
-        if (this.guiTexture) {
-            this.guiTexture.dispose();
+    private onDrop(e: DragEvent, dropInfo: TextBlock) {
+        e.preventDefault();
+        dropInfo.color = "lightgray";
+        if (e.dataTransfer && e.dataTransfer.files.length > 0) {
+            const file = e.dataTransfer.files[0];
+            const reader = new FileReader();
+            reader.onload = () => {
+                const content: unknown = JSON.parse(reader.result as string);
+                const errors = LevelSchema.check(content);
+                if (errors.length === 0) {
+                    this.observer.onDataTransmited(content);
+                } else {
+                    this.displayError("Invalid level data: " + errors[0]);
+                }
+            };
+            reader.readAsText(file);
         }
     }
 
     /**
-     * Verifies if the provided JSON data is valid for a level.
-     * @param data The JSON data to verify.
-     * @returns True if the data is valid, false otherwise.
+     * Listens for level codes (or links) pasted anywhere in the page.
+     * @param panel The StackPanel to add the hint to.
      */
-    private verifyJson(data: JSON): boolean {
-        const allowedNames = [
-            "fixed_platform",
-            "parented_platform",
-            "fixed_rocket_activation_platform",
-            "parented_rocket_activation_platform",
-            "player",
-            "victory_condition",
-            "rocket",
-            "spike_trap",
-            "coin",
-            "super_coin"
-        ];
-
-        if (
-            typeof data !== "object" ||
-            data === null ||
-            !("objects" in data) ||
-            !Array.isArray((data as any).objects) ||
-            !("Cube" in data) ||
-            !("parent_node" in data)
-        ) {
-            return false;
-        }
+    private addLevelCodePaste(panel: StackPanel) {
+        const pasteInfo = new TextBlock();
+        pasteInfo.text = "Or paste a level code (Ctrl+V)";
+        pasteInfo.color = "lightgray";
+        pasteInfo.fontSize = 18;
+        pasteInfo.height = "30px";
+        panel.addControl(pasteInfo);
 
-        const objects = (data as any).objects;
-        for (const obj of objects) {
-            if (
-                typeof obj !== "object" ||
-                !("position" in obj) ||
-                !("rotation" in obj) ||
-                !("size" in obj) ||
-                !("type" in obj)
-            ) {
-                return false;
+        this.pasteListener = (e: ClipboardEvent) => {
+            const text = e.clipboardData?.getData("text") ?? "";
+            if (LevelCode.extract(text) !== null) {
+                e.preventDefault();
+                this.loadLevelCode(text);
             }
-            if (!allowedNames.includes(obj.type)) {
-                return false;
+        };
+        window.addEventListener("paste", this.pasteListener);
+    }
+
+    /**
+     * Decodes a level code, verifies the level and notifies the observer.
+     * @param text The level code or a link containing it.
+     */
+    private async loadLevelCode(text: string) {
+        try {
+            const content = await LevelCode.decode(text);
+            const errors = LevelSchema.check(content);
+            if (errors.length === 0) {
+                this.observer.onDataTransmited(content);
+            } else {
+                this.displayError("Invalid level data: " + errors[0]);
             }
+        } catch (error) {
+            this.displayError("Invalid level code: " + (error instanceof Error ? error.message : error));
+        }
+    }
+
+    /**
+     * Disposes the GUI resources used by the level selection scene.
+     */
+    public dispose() {
+        if (this.pasteListener) {
+            window.removeEventListener("paste", this.pasteListener);
+            this.pasteListener = null;
+        }
+        if (this.dropCanvas && this.dropListeners) {
+            this.dropCanvas.removeEventListener("dragover", this.dropListeners.dragover);
+            this.dropCanvas.removeEventListener("dragleave", this.dropListeners.dragleave);
+            this.dropCanvas.removeEventListener("drop", this.dropListeners.drop);
+            this.dropCanvas = null;
+            this.dropListeners = null;
+        }
+        if (this.guiTexture) {
+            this.guiTexture.dispose();
         }
-        return true;
     }
 
     /**
@@ -0,0 +1,97 @@
+/**
+ * LoadingHUD.ts defines the loading screen displayed while a level is being loaded,
+ * and the error screen displayed when the loading fails.
+ *
+ * Responsibilities:
+ * - Shows a progress bar fed by the level loader (loaded / total asset tasks).
+ * - Shows a recoverable error screen with the failure reason and details.
+ * - Forwards the retry / back to selection actions to a listener.
+ * - Integrates with the DOM to show/hide the relevant overlays.
+ *
+ * Usage:
+ * - Use `createLoadingHUD(listener)` when a level starts loading.
+ * - Call `setProgress(loaded, total)` from `LevelLoaderObserver.onProgress`.
+ * - Call `showError(reason, details)` from `LevelLoaderObserver.onLevelLoadFailed`.
+ * - Call `dispose()` once the level is loaded or the user picked an action.
+ */
+
+import { LevelLoadFailureReason } from "../LevelLoader";
+import { Translation } from "../utils/translation";
+
+/**
+ * ILoadingHUD defines the interface for the loading HUD.
+ */
+export interface ILoadingHUD {
+    setProgress(loaded: number, total: number): void;
+    showError(reason: LevelLoadFailureReason, details: string): void;
+    dispose(): void;
+}
+
+/**
+ * ILoadingHUDListener defines callbacks for the error screen actions.
+ */
+export interface ILoadingHUDListener {
+    onLoadRetry(): void;
+    onLoadBack(): void;
+}
+
+/**
+ * Factory function to create a loading HUD. The loading screen is displayed immediately.
+ * @param listener The HUD event listener.
+ */
+export function createLoadingHUD(listener: ILoadingHUDListener): ILoadingHUD {
+    return new LoadingHUD(listener);
+}
+
+/**
+ * LoadingHUD displays the progress bar and the error screen.
+ */
+class LoadingHUD implements ILoadingHUD {
+    private listener: ILoadingHUDListener;
+    private retryHandler = () => this.listener?.onLoadRetry();
+    private backHandler = () => this.listener?.onLoadBack();
+
+    constructor(listener: ILoadingHUDListener) {
+        this.listener = listener;
+        this.setProgress(0, 0);
+        document.getElementById("load-error-screen").classList.add("hidden");
+        document.getElementById("loading-screen").classList.remove("hidden");
+    }
+
+    /**
+     * Updates the progress bar.
+     * @param loaded Number of finished asset tasks.
+     * @param total Total number of asset tasks.
+     */
+    public setProgress(loaded: number, total: number): void {
+        const percent = total > 0 ? Math.round(loaded / total * 100) : 0;
+        document.getElementById("loading-bar-fill").style.width = `${percent}%`;
+        document.getElementById("loading-progress").textContent = `${percent}%`;
+    }
+
+    /**
+     * Replaces the loading screen by the error screen and initializes its buttons.
+     * @param reason Why the level could not be loaded.
+     * @param details The detailed error message.
+     */
+    public showError(reason: LevelLoadFailureReason, details: string): void {
+        document.getElementById("loading-screen").classList.add("hidden");
+        document.getElementById("load-error-reason").textContent = Translation.getTranslation(`loaderror.${reason}`);
+        document.getElementById("load-error-details").textContent = details;
+        document.getElementById("load-error-screen").classList.remove("hidden");
+
+        document.getElementById("load-retry-button").addEventListener("click", this.retryHandler);
+        document.getElementById("load-back-button").addEventListener("click", this.backHandler);
+    }
+
+    /**
+     * Cleans up event listeners and hides both screens.
+     */
+    public dispose(): void {
+        document.getElementById("loading-screen").classList.add("hidden");
+        document.getElementById("load-error-screen").classList.add("hidden");
+        document.getElementById("load-retry-button").removeEventListener("click", this.retryHandler);
+        document.getElementById("load-back-button").removeEventListener("click", this.backHandler);
+        this.listener = null;
+    }
+}
@@ -1,5 +1,6 @@
 import { Scene } from "@babylonjs/core";
 import { AdvancedDynamicTexture, Button, Control, InputText, StackPanel, TextBlock } from "@babylonjs/gui";
+import { LevelScope } from "../LevelScope";
 
 /**
  * Lobby.ts defines the Lobby class and LobbyObserver interface for managing the multiplayer lobby UI.
@@ -72,6 +73,7 @@ export class Lobby {
     public showStartMenu(): void {
         // Créer une texture GUI pour afficher le menu
         const guiTexture = AdvancedDynamicTexture.CreateFullscreenUI("UI", true, this.scene);
+        LevelScope.of(this.scene).addGui(guiTexture);
     
         // Créer un panneau vertical pour organiser les éléments du menu
         const panel = new StackPanel();
@@ -152,6 +154,7 @@ export class Lobby {
     public showPlayerList(roomId: string, playerId: string, players: string[]): void {
         // Créer une texture GUI pour afficher la liste des joueurs
         const guiTexture = AdvancedDynamicTexture.CreateFullscreenUI("UI", true, this.scene);
+        LevelScope.of(this.scene).addGui(guiTexture);
 
         // Créer un panneau principal pour organiser les sous-panneaux
         const mainPanel = new StackPanel();
@@ -321,6 +324,7 @@ export class Lobby {
     public showError(message: string): void {
         // Créer une texture GUI pour afficher le message d'erreur
         const guiTexture = AdvancedDynamicTexture.CreateFullscreenUI("UI", true, this.scene);
+        LevelScope.of(this.scene).addGui(guiTexture);
         // Créer un panneau vertical pour organiser les éléments du message
         const panel = new StackPanel();
         panel.width = "50%";
@@ -21,6 +21,7 @@ import { Scene } from "@babylonjs/core";
 import { AdvancedDynamicTexture, Control, Rectangle, StackPanel, TextBlock, Image } from "@babylonjs/gui";
 import { InputHandler } from "../InputHandler";
 import { Action } from "../action";
+import { LevelScope } from "../LevelScope";
 
 export interface IHUDMulti {
     addAction(index: number, action: Action.Type): void;
@@ -94,6 +95,7 @@ class MultiHUD implements IHUDMulti {
     constructor(scene: Scene, listener: IHUDMultiListener, maxHp: number, maxScore: number) {
         this.scene = scene;
         this.gui = AdvancedDynamicTexture.CreateFullscreenUI("MultiHUD", true, this.scene);
+        LevelScope.of(this.scene).addGui(this.gui);
         this.listener = listener;
         this.maxHp = maxHp;
         this.maxScore = maxScore;
@@ -53,8 +53,17 @@ export class InputHandler {
         save: ["Enter"],
         delete: ["Backspace"],
         clone: ["f"],
+        save_prefab: ["g"],
+        place_prefab: ["v"],
+        next_prefab: ["b"],
+        share_code: ["k"],
+        share_link: ["l"],
+        next_group: ["n"],
+        add_waypoint: ["i"],
+        remove_waypoint: ["o"],
         forward: ["q"],
         backward: ["e"],
+        menu: ["Escape"],
     };
     private keybindManager: KeybindsManager;
     // Stores actions, which call a function when the key is pressed
@@ -129,7 +138,8 @@ export class InputHandler {
         const savedKeybinds = CookieManager.get("keybindings");
         if (savedKeybinds) {
             try {
-                this.keyBindings = JSON.parse(savedKeybinds);
+                // The actions added since the bindings were saved keep their default keys
+                this.keyBindings = { ...this.keyBindings, ...JSON.parse(savedKeybinds) };
             } catch (e) {
                 console.warn("Failed to parse saved keybindings:", e);
             }
@@ -161,6 +171,13 @@ export class InputHandler {
         }
     }
 
+    /**
+     * Releases all the keys, e.g. after a dialog took the focus and received their keyup events.
+     */
+    public releaseKeys() {
+        this.keys = {};
+    }
+
     /**
      * Removes all registered action callbacks.
      */
@@ -0,0 +1,426 @@
+import { CubeData, LevelData, LevelMeta, LevelObjectData, ObjectProperties, PathData, PrefabInstanceData, RotationAxis, RotationGroupSettings, ThemeData, Vec3Data } from "./LevelSchema";
+
+/**
+ * LevelCode.ts defines the compact, shareable encoding of Nocturna levels ("level codes").
+ *
+ * Responsibilities:
+ * - Packs a level into nested arrays: object types are replaced by ids into a table stored once in the code,
+ *   positions, sizes and path waypoints are quantized to 1/100 and rotations to 1/1000 radian.
+ * - Compresses the packed level (deflate) and encodes it in base64url so it fits in a URL fragment.
+ * - Decodes a code (or a link containing `#level=<code>`) back to level data.
+ *
+ * Usage:
+ * - Use `await LevelCode.encode(level)` to get a code, and `LevelCode.link(code)` for a shareable link.
+ * - Use `await LevelCode.decode(codeOrLink)` to get the level data back; it throws a `LevelCodeError` if the code
+ *   is malformed. The result still has to be validated (e.g. by `LevelSchema.parse`) before it is loaded.
+ *
+ * This module does not depend on Babylon.js so it can be reused outside the browser.
+ */
+
+/**
+ * LevelCodeError is thrown when a level code cannot be decoded.
+ */
+export class LevelCodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "LevelCodeError";
+    }
+}
+
+/** A quantized vector: [x, y, z]. */
+type PackedVector = [number, number, number];
+/** The cube: [position (3), size, faces?]. */
+type PackedCube = [...PackedVector, number, CubeData["faces"]?];
+/** The settings of a rotation group: [pivot (3), axes?, angle?], the axes being joined in a string ("xz") or 0. */
+type PackedGroup = [...PackedVector, (string | 0)?, number?];
+/** A path: [waypoints (3 per waypoint), settings?]. */
+type PackedPath = [number[], Omit<PathData, "waypoints">?];
+/** The optional values of an object or instance: [properties?, group?, path?], the missing ones being 0. */
+type PackedExtras = [(ObjectProperties | 0)?, (string | 0)?, (PackedPath | 0)?];
+/** An object: [typeId, position (3), rotation (3), size (3), ...extras]. */
+type PackedObject = [number, ...PackedVector, ...PackedVector, ...PackedVector, ...PackedExtras];
+/** A prefab instance: [prefab, position (3), rotation (3), scale (3), ...extras], without path. */
+type PackedInstance = [string, ...PackedVector, ...PackedVector, ...PackedVector, ...PackedExtras];
+/** A level: [version, meta or 0, cube, parent node, objects, prefabs, instances, types, groups?, theme?]. */
+type PackedLevel = [
+    number,
+    Partial<LevelMeta> | 0,
+    PackedCube,
+    PackedGroup,
+    PackedObject[],
+    [string, PackedObject[]][],
+    PackedInstance[],
+    string[],
+    ([string, ...PackedGroup][] | 0)?,
+    ThemeData?,
+];
+
+/**
+ * LevelCode provides static helpers to encode and decode level codes.
+ */
+export class LevelCode {
+    /** Prefix of the codes, including the version of the encoding. */
+    public static readonly Prefix: string = "N1.";
+    /** Name of the URL fragment parameter holding a code. */
+    public static readonly FragmentKey: string = "level=";
+
+    private static readonly PositionScale: number = 100;
+    private static readonly RotationScale: number = 1000;
+
+    /**
+     * Encodes a level into a level code.
+     * @param level The level data in the current format.
+     * @returns The code, starting with `LevelCode.Prefix`.
+     */
+    public static async encode(level: LevelData): Promise<string> {
+        const types: string[] = [];
+        const packed: PackedLevel = [
+            level.version,
+            level.meta ?? 0,
+            this.packCube(level.Cube),
+            this.packGroup(level.parent_node),
+            level.objects.map((object) => this.packObject(object, types)),
+            Object.keys(level.prefabs ?? {}).map((name) =>
+                [name, level.prefabs[name].objects.map((object) => this.packObject(object, types))]),
+            (level.instances ?? []).map((instance) => this.packInstance(instance)),
+            types,
+        ];
+        const hasGroups = level.groups && level.groups.length > 0;
+        if (hasGroups || level.theme) {
+            packed.push(hasGroups ? level.groups.map((group): [string, ...PackedGroup] => [group.id, ...this.packGroup(group)]) : 0);
+        }
+        if (level.theme) {
+            packed.push(level.theme);
+        }
+
+        const bytes = await this.transform(new TextEncoder().encode(JSON.stringify(packed)), new CompressionStream("deflate-raw"));
+        return this.Prefix + this.toBase64Url(bytes);
+    }
+
+    /**
+     * Decodes a level code, or a link whose fragment contains a level code.
+     * @param text The code or link.
+     * @returns The level data (not validated).
+     * @throws LevelCodeError if the text is not a valid level code.
+     */
+    public static async decode(text: string): Promise<LevelData> {
+        const code = this.extract(text);
+        if (code === null) {
+            throw new LevelCodeError(`level codes must start with ${this.Prefix}`);
+        }
+
+        let content: unknown;
+        try {
+            const bytes = await this.transform(this.fromBase64Url(code.slice(this.Prefix.length)), new DecompressionStream("deflate-raw"));
+            content = JSON.parse(new TextDecoder().decode(bytes));
+        } catch (error) {
+            throw this.corrupted(error instanceof Error ? error.message : String(error));
+        }
+
+        const [version, meta, cube, parent, objects, prefabs, instances, types, groups, theme] = this.check(content);
+        const level: LevelData = {
+            version,
+            Cube: this.unpackCube(cube),
+            parent_node: this.unpackGroup(parent, 0),
+            objects: objects.map((object) => this.unpackObject(object, types)),
+        };
+        if (meta) {
+            level.meta = meta;
+        }
+        if (prefabs.length > 0) {
+            level.prefabs = {};
+            prefabs.forEach(([name, prefabObjects]) => {
+                level.prefabs[name] = { objects: prefabObjects.map((object) => this.unpackObject(object, types)) };
+            });
+        }
+        if (instances.length > 0) {
+            level.instances = instances.map((instance) => this.unpackInstance(instance));
+        }
+        if (groups) {
+            level.groups = groups.map(([id, ...group]) => ({ id, ...this.unpackGroup(group, 0) }));
+        }
+        if (theme) {
+            level.theme = theme;
+        }
+        return level;
+    }
+
+    /**
+     * Checks that decoded content has the shape of a packed level, so that it can be unpacked.
+     * @param content The decoded content.
+     * @returns The packed level.
+     * @throws LevelCodeError if a part of the content does not have the expected shape.
+     */
+    private static check(content: unknown): PackedLevel {
+        if (!Array.isArray(content) || content.length < 8 || content.length > 10) {
+            throw this.corrupted("unexpected content");
+        }
+        const [version, meta, cube, parent, objects, prefabs, instances, types, groups, theme] = content;
+        const expect = (valid: boolean, part: string) => {
+            if (!valid) {
+                throw this.corrupted(`invalid ${part}`);
+            }
+        };
+        expect(typeof version === "number", "version");
+        expect(meta === 0 || this.isRecord(meta), "metadata");
+        expect(this.isCube(cube), "cube");
+        expect(this.isGroup(parent), "parent node");
+        expect(Array.isArray(types) && types.every((type) => typeof type === "string"), "object types");
+        const isObjects = (value: unknown) => Array.isArray(value) && value.every((object) => this.isObject(object, types.length));
+        expect(isObjects(objects), "objects");
+        expect(Array.isArray(prefabs) && prefabs.every((prefab) =>
+            Array.isArray(prefab) && prefab.length === 2 && typeof prefab[0] === "string" && isObjects(prefab[1])), "prefabs");
+        expect(Array.isArray(instances) && instances.every((instance) => this.isInstance(instance)), "prefab instances");
+        expect(groups === undefined || groups === 0 || (Array.isArray(groups) && groups.every((group) =>
+            Array.isArray(group) && typeof group[0] === "string" && this.isGroup(group.slice(1)))), "rotation groups");
+        expect(theme === undefined || this.isRecord(theme), "theme");
+        return content as PackedLevel;
+    }
+
+    private static corrupted(reason: string): LevelCodeError {
+        return new LevelCodeError(`level code is corrupted (${reason})`);
+    }
+
+    private static isRecord(value: unknown): boolean {
+        return typeof value === "object" && value !== null && !Array.isArray(value);
+    }
+
+    private static isNumbers(values: unknown[], start: number, end: number): boolean {
+        return values.slice(start, end).every((value) => typeof value === "number");
+    }
+
+    private static isCube(value: unknown): value is PackedCube {
+        return Array.isArray(value) && (value.length === 4 || value.length === 5) && this.isNumbers(value, 0, 4)
+            && (value.length === 4 || this.isRecord(value[4]));
+    }
+
+    private static isGroup(value: unknown): value is PackedGroup {
+        return Array.isArray(value) && value.length >= 3 && value.length <= 5 && this.isNumbers(value, 0, 3)
+            && (value[3] === undefined || value[3] === 0 || typeof value[3] === "string")
+            && (value[4] === undefined || typeof value[4] === "number");
+    }
+
+    private static isPath(value: unknown): value is PackedPath {
+        return Array.isArray(value) && (value.length === 1 || value.length === 2)
+            && Array.isArray(value[0]) && value[0].length % 3 === 0 && this.isNumbers(value[0], 0, value[0].length)
+            && (value[1] === undefined || this.isRecord(value[1]));
+    }
+
+    /**
+     * Checks the transform and the extras shared by the objects and the instances, after their first item.
+     */
+    private static isEntry(value: unknown[], maxLength: number): boolean {
+        return value.length >= 10 && value.length <= maxLength && this.isNumbers(value, 1, 10)
+            && (value[10] === undefined || value[10] === 0 || this.isRecord(value[10]))
+            && (value[11] === undefined || value[11] === 0 || typeof value[11] === "string")
+            && (value[12] === undefined || value[12] === 0 || this.isPath(value[12]));
+    }
+
+    private static isObject(value: unknown, typeCount: number): value is PackedObject {
+        return Array.isArray(value) && Number.isInteger(value[0]) && value[0] >= 0 && value[0] < typeCount
+            && this.isEntry(value, 13);
+    }
+
+    private static isInstance(value: unknown): value is PackedInstance {
+        return Array.isArray(value) && typeof value[0] === "string" && this.isEntry(value, 12);
+    }
+
+    /**
+     * Returns the code contained in a text: the text itself if it is a code, or the `#level=` fragment of a link.
+     * @param text The code or link.
+     * @returns The code, or null if the text does not contain one.
+     */
+    public static extract(text: string): string | null {
+        const trimmed = text.trim();
+        const index = trimmed.indexOf("#" + this.FragmentKey);
+        const code = index >= 0 ? decodeURIComponent(trimmed.slice(index + 1 + this.FragmentKey.length)) : trimmed;
+        return code.startsWith(this.Prefix) ? code : null;
+    }
+
+    /**
+     * Builds a link opening the game with a level code.
+     * @param code The level code.
+     * @param base The page URL (default: the current page, without its fragment).
+     */
+    public static link(code: string, base: string = window.location.href.split("#")[0]): string {
+        return `${base}#${this.FragmentKey}${code}`;
+    }
+
+    /**
+     * Packs the cube as [position (3), size, faces?], the faces being the hazards differing from the defaults.
+     */
+    private static packCube(cube: CubeData): PackedCube {
+        const packed: PackedCube = [...this.packVector(cube.position, this.PositionScale), this.quantize(cube.size, this.PositionScale)];
+        if (cube.faces && Object.keys(cube.faces).length > 0) {
+            packed.push(cube.faces);
+        }
+        return packed;
+    }
+
+    private static unpackCube(packed: PackedCube): CubeData {
+        const cube: CubeData = { position: this.unpackVector(packed, 0, this.PositionScale), size: packed[3] / this.PositionScale };
+        if (packed.length > 4) {
+            cube.faces = packed[4];
+        }
+        return cube;
+    }
+
+    /**
+     * Packs the settings of a rotation group as [pivot (3), axes?, angle?], the axes being joined in a string
+     * ("xz") and the missing values replaced by 0.
+     */
+    private static packGroup(group: RotationGroupSettings): PackedGroup {
+        const packed: PackedGroup = this.packVector(group.position, this.PositionScale);
+        if (group.axes || group.angle !== undefined) {
+            packed.push(group.axes ? group.axes.join("") : 0);
+        }
+        if (group.angle !== undefined) {
+            packed.push(group.angle);
+        }
+        return packed;
+    }
+
+    private static unpackGroup(packed: PackedGroup, offset: number): RotationGroupSettings {
+        const group: RotationGroupSettings = { position: this.unpackVector(packed, offset, this.PositionScale) };
+        const [, , , axes, angle] = packed;
+        if (axes) {
+            group.axes = axes.split("") as RotationAxis[];
+        }
+        if (angle !== undefined) {
+            group.angle = angle;
+        }
+        return group;
+    }
+
+    /**
+     * Packs the optional properties, group and path of an object or instance: [properties?, group?, path?],
+     * the missing values before the last one being replaced by 0.
+     */
+    private static packExtras(properties: ObjectProperties | undefined, group: string | undefined, path?: PathData): PackedExtras {
+        const extras: PackedExtras = [
+            properties !== undefined && Object.keys(properties).length > 0 ? properties : 0,
+            group ?? 0,
+            path ? this.packPath(path) : 0,
+        ];
+        while (extras.length > 0 && extras[extras.length - 1] === 0) {
+            extras.pop();
+        }
+        return extras;
+    }
+
+    /**
+     * Packs a path as [waypoints (3 per waypoint), settings?], the settings being the speed, wait and mode set.
+     */
+    private static packPath(path: PathData): PackedPath {
+        const { waypoints, ...settings } = path;
+        const packed: PackedPath = [([] as number[]).concat(...waypoints.map((point) => this.packVector(point, this.PositionScale)))];
+        if (Object.keys(settings).length > 0) {
+            packed.push(settings);
+        }
+        return packed;
+    }
+
+    private static unpackPath(packed: PackedPath): PathData {
+        const [waypoints, settings] = packed;
+        const path: PathData = { waypoints: [] };
+        for (let i = 0; i < waypoints.length; i += 3) {
+            path.waypoints.push(this.unpackVector(waypoints, i, this.PositionScale));
+        }
+        return { ...path, ...settings };
+    }
+
+    /**
+     * Packs an object as [typeId, position (3), rotation (3), size (3), properties?, group?, path?].
+     */
+    private static packObject(object: LevelObjectData, types: string[]): PackedObject {
+        if (!types.includes(object.type)) {
+            types.push(object.type);
+        }
+        return [
+            types.indexOf(object.type),
+            ...this.packVector(object.position, this.PositionScale),
+            ...this.packVector(object.rotation, this.RotationScale),
+            ...this.packVector(object.size, this.PositionScale),
+            ...this.packExtras(object.properties, object.group, object.path),
+        ];
+    }
+
+    private static unpackObject(packed: PackedObject, types: string[]): LevelObjectData {
+        const object: LevelObjectData = {
+            type: types[packed[0]],
+            position: this.unpackVector(packed, 1, this.PositionScale),
+            rotation: this.unpackVector(packed, 4, this.RotationScale),
+            size: this.unpackVector(packed, 7, this.PositionScale),
+        };
+        if (packed[10]) {
+            object.properties = packed[10];
+        }
+        if (packed[11]) {
+            object.group = packed[11];
+        }
+        if (packed[12]) {
+            object.path = this.unpackPath(packed[12]);
+        }
+        return object;
+    }
+
+    /**
+     * Packs a prefab instance as [prefab, position (3), rotation (3), scale (3), properties?, group?].
+     */
+    private static packInstance(instance: PrefabInstanceData): PackedInstance {
+        return [
+            instance.prefab,
+            ...this.packVector(instance.position, this.PositionScale),
+            ...this.packVector(instance.rotation, this.RotationScale),
+            ...this.packVector(instance.scale, this.PositionScale),
+            ...this.packExtras(instance.properties, instance.group),
+        ];
+    }
+
+    private static unpackInstance(packed: PackedInstance): PrefabInstanceData {
+        const instance: PrefabInstanceData = {
+            prefab: packed[0],
+            position: this.unpackVector(packed, 1, this.PositionScale),
+            rotation: this.unpackVector(packed, 4, this.RotationScale),
+            scale: this.unpackVector(packed, 7, this.PositionScale),
+        };
+        if (packed[10]) {
+            instance.properties = packed[10];
+        }
+        if (packed[11]) {
+            instance.group = packed[11];
+        }
+        return instance;
+    }
+
+    private static packVector(vector: Vec3Data, scale: number): PackedVector {
+        return [this.quantize(vector.x, scale), this.quantize(vector.y, scale), this.quantize(vector.z, scale)];
+    }
+
+    private static unpackVector(packed: readonly unknown[], offset: number, scale: number): Vec3Data {
+        return { x: Number(packed[offset]) / scale, y: Number(packed[offset + 1]) / scale, z: Number(packed[offset + 2]) / scale };
+    }
+
+    private static quantize(value: number, scale: number): number {
+        return Math.round(value * scale);
+    }
+
+    /**
+     * Pipes bytes through a (de)compression stream.
+     */
+    private static async transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+        const output = new Blob([bytes]).stream().pipeThrough(stream);
+        return new Uint8Array(await new Response(output).arrayBuffer());
+    }
+
+    private static toBase64Url(bytes: Uint8Array): string {
+        let binary = "";
+        bytes.forEach((byte) => binary += String.fromCharCode(byte));
+        return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+    }
+
+    private static fromBase64Url(text: string): Uint8Array {
+        const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+        return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    }
+}
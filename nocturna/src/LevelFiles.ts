@@ -0,0 +1,21 @@
+/**
+ * LevelFiles.ts lists the level files loaded directly by the code, outside the level manifests
+ * (`levels.json`, `game_levels.json`).
+ *
+ * Responsibilities:
+ * - Declares the levels of the tutorial, in play order, and the level of the multiplayer mode.
+ * - Does not depend on Babylon.js so the level tools (e.g. `tools/lint-levels.ts`) check the same files as the game.
+ *
+ * Usage:
+ * - The TutorialScene plays `LevelFiles.Tutorial` and the multiplayer mode loads `LevelFiles.Multiplayer`.
+ */
+export class LevelFiles {
+    /** Levels of the tutorial, one per phase, in play order. */
+    public static readonly Tutorial: string[] = ["jump.json", "platforms.json", "spike_trap.json", "rocket.json"];
+
+    /** Level of the multiplayer mode. */
+    public static readonly Multiplayer: string = "multi.json";
+
+    /** Number of players the multiplayer level holds. */
+    public static readonly MultiplayerPlayers: number = 4;
+}
@@ -1,13 +1,12 @@
 import { Cube } from "./Cube";
 import { ParentNode } from "./ParentNode";
 import { Player, PlayerFactory } from "./GameObjects/Player";
-import { AssetsManager, Scene, Vector3 } from "@babylonjs/core";
+import { AssetsManager, Matrix, Quaternion, Scene, Vector3 } from "@babylonjs/core";
 import { GameObjectFactory, GameObjectConfig, EditorObject, GameObject } from "./types";
-import { ParentedPlatform, ParentedPlatformFactory, FixedPlatform, FixedPlatformFactory, ParentedRocketActivationPlatform, ParentedRocketActivationPlatformFactory, FixedRocketActivationPlatform, FixedRocketActivationPlatformFactory } from "./GameObjects/Platform";
-import { FixedVictoryCondition, FixedVictoryConditionFactory, VictoryCondition, VictoryConditionFactory } from "./GameObjects/Victory";
-import { FixedRocket, FixedRocketFactory } from "./GameObjects/Rocket";
-import { SpikeTrapFactory, SpikeTrapObject } from "./GameObjects/SpikeTrap";
-import { Coin, CoinFactory } from "./GameObjects/Coin";
+import { ObjectRegistry } from "./ObjectRegistry";
+import { LevelScope } from "./LevelScope";
+import { MovementSettings } from "./MovementSettings";
+import { LevelData, LevelMeta, LevelObjectData, LevelSchema, LevelValidationError, MovementProfile, PrefabData, PrefabInstanceData, RotationGroupSettings, Vec3Data } from "./LevelSchema";
 
 /**
  * LevelLoader.ts defines the LevelLoader class and related interfaces for loading and instantiating
@@ -15,28 +14,55 @@ import { Coin, CoinFactory } from "./GameObjects/Coin";
  * 
  * Responsibilities:
  * - Loads level data from JSON files or in-memory data.
+ * - Migrates and validates level data against the versioned schema (see LevelSchema).
+ * - Expands the prefab instances of the level into the objects they place.
+ * - Creates the rotation groups (the main parent node and the named groups) and parents each object to its group.
  * - Instantiates all game objects (platforms, player, victory condition, enemies, etc.) using factories.
+ * - Gives the player the movement settings of the game, loaded before the level is created, overridden by the ones
+ *   of the level (see MovementSettings), and enables its wall jumps if the level allows them.
  * - Manages asset loading via Babylon.js AssetsManager.
- * - Notifies observers about key events (cube, parent node, player, object creation, level loaded).
+ * - Notifies observers about key events (level metadata, cube, parent node, player, object creation, level loaded).
+ * - Reports loading progress and failures (download, invalid data, missing assets) to observers.
  * - Supports both gameplay and editor instantiation via an abstract factory.
  * 
  * Usage:
  * - Create a LevelLoader with a Babylon.js Scene, a LevelLoaderObserver, and an AbstractFactory.
  * - Call `loadLevel(levelFile)` to load a level from a file, or `loadLevelFromData(data)` to load from JSON data.
- * - The observer receives callbacks for cube, parent node, player, each object created, and when the level is fully loaded.
- * - Factories for all supported object types are registered automatically.
+ * - The observer receives callbacks for the level metadata, prefabs, cube, parent node (main rotation group),
+ *   all the rotation groups, player, each object created, each prefab instance with its objects, and when the level
+ *   is fully loaded.
+ * - The observer receives `onProgress` while assets are loading, and `onLevelLoadFailed` instead of `onLevelLoaded`
+ *   if the level cannot be loaded.
+ * - Factories for all supported object types come from the ObjectRegistry.
  */
 
+/**
+ * LevelLoadFailureReason tells why a level could not be loaded:
+ * - "fetch": the level file could not be downloaded or parsed.
+ * - "invalid": the level data does not match the level schema.
+ * - "assets": one or more asset tasks failed.
+ * - "create": the objects of the level could not be created.
+ */
+export type LevelLoadFailureReason = "fetch" | "invalid" | "assets" | "create";
+
 /**
  * LevelLoaderObserver defines the interface for objects that want to be notified
- * of key events during level loading (cube, player, parent node, object creation, level loaded).
+ * of key events during level loading (cube, player, parent node, object creation, progress, level loaded or failed).
  */
 export interface LevelLoaderObserver {
+    onMeta(meta: LevelMeta): void;
+    onPrefabs(prefabs: { [name: string]: PrefabData }): void;
     onCube(cube: Cube): void;
     onPlayer(player: Player): void;
     onParent(parent: ParentNode): void;
+    /** Called after `onParent` with all the rotation groups of the level, the main group first. */
+    onRotationGroups(groups: ParentNode[]): void;
     onLevelLoaded: () => void;
     onObjectCreated: (object: GameObject | EditorObject) => void;
+    /** Called after `onObjectCreated` for the objects placed by a prefab instance, with the instance. */
+    onInstanceCreated(instance: PrefabInstanceData, objects: (GameObject | EditorObject)[]): void;
+    onProgress(loaded: number, total: number): void;
+    onLevelLoadFailed(reason: LevelLoadFailureReason, details: string): void;
 }
 
 /**
@@ -45,13 +71,27 @@ export interface LevelLoaderObserver {
 class PlayerAbstractFactory implements GameObjectFactory {
     private observer: LevelLoaderObserver;
     private factory: PlayerFactory;
+    private meta: LevelMeta = LevelSchema.meta();
+    private settings: Partial<MovementProfile> = {};
 
     constructor(observer: LevelLoaderObserver) {
         this.observer = observer;
         this.factory = new PlayerFactory();
     }
+    /**
+     * Sets the metadata of the level and the movement settings of the game, giving the movement and the abilities
+     * of the next players.
+     * @param meta The complete metadata of the level.
+     * @param settings The movement settings of the game (see MovementSettings).
+     */
+    public setMeta(meta: LevelMeta, settings: Partial<MovementProfile>) {
+        this.meta = meta;
+        this.settings = settings;
+    }
     public create(config: GameObjectConfig): Player {
         const player = this.factory.create(config);
+        player.setWallJump(this.meta.wallJump);
+        player.setMovement(LevelSchema.movement(this.settings, this.meta.movement));
         this.observer.onPlayer(player);
         return player;
     }
@@ -78,6 +118,7 @@ export class LevelLoader {
     private observer: LevelLoaderObserver;
     private scene: Scene;
     private factories: Map<string, GameObjectFactory>;
+    private playerFactory: PlayerAbstractFactory;
     private abstractFactory: AbstractFactory;
     private assetManager: AssetsManager;
 
@@ -92,18 +133,10 @@ export class LevelLoader {
         this.scene = scene;
         this.abstractFactory = abstractFactory;
 
-        // Register all supported object factories
-        this.factories = new Map<string, GameObjectFactory>();
-        this.factories.set(ParentedPlatform.Type, new ParentedPlatformFactory());
-        this.factories.set(FixedPlatform.Type, new FixedPlatformFactory());
-        this.factories.set(VictoryCondition.Type, new VictoryConditionFactory());
-        this.factories.set(FixedVictoryCondition.Type, new FixedVictoryConditionFactory());
-        this.factories.set(Player.Type, new PlayerAbstractFactory(observer));
-        this.factories.set(FixedRocket.Type, new FixedRocketFactory());
-        this.factories.set(SpikeTrapObject.Type, new SpikeTrapFactory());
-        this.factories.set(ParentedRocketActivationPlatform.Type, new ParentedRocketActivationPlatformFactory());
-        this.factories.set(FixedRocketActivationPlatform.Type, new FixedRocketActivationPlatformFactory());
-        this.factories.set(Coin.Type, new CoinFactory());
+        // Use the registered factories, the player one notifying the observer
+        this.factories = ObjectRegistry.createFactoryMap();
+        this.playerFactory = new PlayerAbstractFactory(observer);
+        this.factories.set(Player.Type, this.playerFactory);
     }
 
     /**
@@ -116,7 +149,8 @@ export class LevelLoader {
 
     /**
      * Loads a level from a JSON file by filename.
-     * Instantiates all objects and notifies the observer.
+     * Instantiates all objects and notifies the observer, or reports a "fetch" failure
+     * if the file cannot be downloaded or parsed.
      * @param level The filename of the level JSON.
      */
     public loadLevel(level: string): void {
@@ -124,81 +158,222 @@ export class LevelLoader {
         fetch(levelPath)
             .then(response => {
                 if (!response.ok) {
-                    throw new Error(`Failed to load level: ${response.statusText}`);
+                    throw new Error(`Failed to load level ${level}: ${response.status} ${response.statusText}`);
                 }
                 return response.json();
             })
             .then(data => {
-                this.createLevel(data);
+                // The level may have been left (e.g. back to the menu) while it was downloading
+                if (!this.scene.isDisposed) {
+                    this.createLevel(data);
+                }
             })
             .catch(error => {
-                console.error('Error loading level:', error);
+                this.fail("fetch", error instanceof Error ? error.message : String(error));
             });
     }
 
     /**
-     * Loads a level from in-memory JSON data.
-     * @param data The JSON data for the level.
+     * Loads a level from in-memory JSON data, migrated and validated like a level file.
+     * @param data The parsed JSON data for the level, in any supported version of the format.
      */
-    public loadLevelFromData(data: JSON): void {
+    public loadLevelFromData(data: unknown): void {
         this.createLevel(data);
     }
 
     /**
-     * Helper to create a Babylon.js Vector3 from a plain object.
-     * @param data The object with _x, _y, _z properties.
+     * Helper to create a Babylon.js Vector3 from a serialized vector.
+     * @param data The object with x, y, z properties.
      */
-    private createVector3(data: any): Vector3 {
-        return new Vector3(data._x, data._y, data._z);
+    private static createVector3(data: Vec3Data): Vector3 {
+        return new Vector3(data.x, data.y, data.z);
+    }
+
+    /**
+     * Creates the node of a rotation group.
+     * @param id The id of the group.
+     * @param group The settings of the group.
+     */
+    private createRotationGroup(id: string, group: RotationGroupSettings): ParentNode {
+        return new ParentNode(LevelLoader.createVector3(group.position), this.scene, id, group.axes, group.angle);
+    }
+
+    /**
+     * Returns the scale of an instance along the local axes of a rotated object of its prefab, so that the object is
+     * stretched along the instance axes rather than its own.
+     * @param scale The scale of the instance.
+     * @param rotation The rotation of the object in the prefab.
+     */
+    private static localScale(scale: Vector3, rotation: Quaternion): Vector3 {
+        const axisScale = (axis: Vector3) => axis.applyRotationQuaternion(rotation).multiplyInPlace(scale).length();
+        return new Vector3(axisScale(Vector3.Right()), axisScale(Vector3.Up()), axisScale(Vector3.Forward()));
+    }
+
+    /**
+     * Expands a prefab instance into the objects it places: each object of the prefab is scaled, rotated
+     * and moved by the instance, like the waypoints of its path, and receives the instance property overrides its
+     * type accepts and the rotation group of the instance. The instance scale is applied along the axes of the
+     * instance, whatever the rotation of the object.
+     * @param prefab The prefab definition.
+     * @param instance The prefab instance.
+     * @returns The objects of the instance, in level coordinates.
+     */
+    public static expandInstance(prefab: PrefabData, instance: PrefabInstanceData): LevelObjectData[] {
+        const scale = LevelLoader.createVector3(instance.scale);
+        const rotation = Quaternion.FromEulerAngles(instance.rotation.x, instance.rotation.y, instance.rotation.z);
+        const transform = Matrix.Compose(scale, rotation, LevelLoader.createVector3(instance.position));
+
+        return prefab.objects.map((object) => {
+            const objectRotation = Quaternion.FromEulerAngles(object.rotation.x, object.rotation.y, object.rotation.z);
+            const expanded: LevelObjectData = {
+                type: object.type,
+                position: LevelSchema.vec3(Vector3.TransformCoordinates(LevelLoader.createVector3(object.position), transform)),
+                rotation: LevelSchema.vec3(rotation.multiply(objectRotation).toEulerAngles()),
+                size: LevelSchema.vec3(LevelLoader.createVector3(object.size).multiply(LevelLoader.localScale(scale, objectRotation))),
+            };
+            const properties = { ...object.properties, ...LevelSchema.acceptedProperties(object.type, instance.properties) };
+            if (Object.keys(properties).length > 0) {
+                expanded.properties = properties;
+            }
+            const group = instance.group ?? object.group;
+            if (group !== undefined) {
+                expanded.group = group;
+            }
+            if (object.path) {
+                expanded.path = {
+                    ...object.path,
+                    waypoints: object.path.waypoints.map((point) =>
+                        LevelSchema.vec3(Vector3.TransformCoordinates(LevelLoader.createVector3(point), transform))),
+                };
+            }
+            return expanded;
+        });
     }
 
     /**
      * Instantiates all objects in the level, sets up asset loading, and notifies the observer.
+     * The data is upgraded to the current format and validated before anything is created, then the level is
+     * created once the movement settings of the game are loaded; any error raised while creating the level is
+     * reported as a "create" failure.
      * @param data The parsed level JSON data.
      */
     private createLevel(data: any): void {
+        let level: LevelData;
+        try {
+            level = LevelSchema.parse(data);
+        } catch (error) {
+            this.fail("invalid", error instanceof LevelValidationError ? error.errors.join("\n") : String(error));
+            return;
+        }
+
+        MovementSettings.load().then(settings => {
+            // The level may have been left (e.g. back to the menu) while the settings were downloading
+            if (this.scene.isDisposed) {
+                return;
+            }
+            try {
+                this.buildLevel(level, settings);
+            } catch (error) {
+                this.fail("create", error instanceof Error ? error.message : String(error));
+            }
+        });
+    }
+
+    /**
+     * Creates the cube, the rotation groups and the objects of a validated level, and starts loading its assets.
+     * @param level The level data in the current format.
+     * @param settings The movement settings of the game.
+     */
+    private buildLevel(level: LevelData, settings: Partial<MovementProfile>): void {
+        const meta = LevelSchema.meta(level.meta);
+        this.playerFactory.setMeta(meta, settings);
+        this.observer.onMeta(meta);
+        this.observer.onPrefabs(level.prefabs ?? {});
+
         // Create the cube
-        const cube = Cube.create(this.scene, data[Cube.Type].position, data[Cube.Type].size);
+        const cube = Cube.create(this.scene, LevelLoader.createVector3(level.Cube.position), level.Cube.size, level.Cube.faces, level.theme);
         this.observer.onCube(cube);
 
-        // Create the parent node
-        const parent = new ParentNode(data[ParentNode.Type].position, this.scene);
-        this.observer.onParent(parent);
+        // Create the parent node (main rotation group) and the other rotation groups
+        const groups = new Map<string, ParentNode>();
+        groups.set(LevelSchema.MainGroup, this.createRotationGroup(LevelSchema.MainGroup, level.parent_node));
+        (level.groups ?? []).forEach((group) => groups.set(group.id, this.createRotationGroup(group.id, group)));
+        this.observer.onParent(groups.get(LevelSchema.MainGroup));
+        this.observer.onRotationGroups(Array.from(groups.values()));
 
-        const objects = data.objects;
-        if (!objects || objects.length === 0) {
+        const instances = (level.instances ?? []).map((instance) => ({
+            instance,
+            objects: LevelLoader.expandInstance(level.prefabs[instance.prefab], instance)
+        }));
+        if (level.objects.length === 0 && instances.every((expanded) => expanded.objects.length === 0)) {
             console.warn("No objects found in the level data.");
             this.observer.onLevelLoaded();
             return;
         }
 
+        const failedTasks: string[] = [];
         this.assetManager = new AssetsManager(this.scene);
+        this.assetManager.useDefaultLoadingScreen = false;
+        LevelScope.of(this.scene).addAssetsManager(this.assetManager);
+        this.assetManager.onProgress = (remainingCount, totalCount) => {
+            this.observer.onProgress(totalCount - remainingCount, totalCount);
+        };
         this.assetManager.onTaskError = (task) => {
             console.error(`Error loading asset: ${task.name}`, task.errorObject);
+            failedTasks.push(task.name);
         };
         this.assetManager.onFinish = () => {
+            if (failedTasks.length > 0) {
+                this.fail("assets", `Failed to load: ${failedTasks.join(", ")}`);
+                return;
+            }
             console.log("All assets loaded");
             this.observer.onLevelLoaded();
         };
 
-        objects.forEach((object: any) => {
-            const factory = this.factories.get(object.type);
-            if (factory) {
-                const config: GameObjectConfig = {
-                    scene: this.scene,
-                    position: this.createVector3(object.position),
-                    size: this.createVector3(object.size),
-                    rotation: this.createVector3(object.rotation),
-                    parent: parent,
-                    assetsManager: this.assetManager
-                };
-                const gameObject = this.abstractFactory.create(factory, config);
-                this.observer.onObjectCreated(gameObject);
-            } else {
-                console.warn(`No factory found for type: ${object.type}`);
-            }
+        level.objects.forEach((object) => this.createObject(object, groups));
+        instances.forEach(({ instance, objects }) => {
+            const created = objects.map((object) => this.createObject(object, groups)).filter((object) => object !== null);
+            this.observer.onInstanceCreated(instance, created);
         });
 
         this.assetManager.load();
     }
+
+    /**
+     * Creates an object of the level with the factory of its type and notifies the observer.
+     * @param object The object data, in level coordinates.
+     * @param groups The rotation groups of the level, by id.
+     * @returns The created object, or null if its type has no factory.
+     */
+    private createObject(object: LevelObjectData, groups: Map<string, ParentNode>): GameObject | EditorObject | null {
+        const factory = this.factories.get(object.type);
+        if (!factory) {
+            console.warn(`No factory found for type: ${object.type}`);
+            return null;
+        }
+        const config: GameObjectConfig = {
+            scene: this.scene,
+            position: LevelLoader.createVector3(object.position),
+            size: LevelLoader.createVector3(object.size),
+            rotation: LevelLoader.createVector3(object.rotation),
+            parent: groups.get(object.group ?? LevelSchema.MainGroup),
+            assetsManager: this.assetManager,
+            properties: object.properties,
+            path: object.path
+        };
+        const gameObject = this.abstractFactory.create(factory, config);
+        this.observer.onObjectCreated(gameObject);
+        return gameObject;
+    }
+
+    /**
+     * Logs a loading failure and notifies the observer.
+     * @param reason Why the level could not be loaded.
+     * @param details A human readable description of the problem.
+     */
+    private fail(reason: LevelLoadFailureReason, details: string): void {
+        console.error(`Error loading level (${reason}):`, details);
+        this.observer.onLevelLoadFailed(reason, details);
+    }
 }
\ No newline at end of file
@@ -0,0 +1,1138 @@
+import { ObjectCatalog } from "./ObjectCatalog";
+import { ThemeCatalog } from "./ThemeCatalog";
+
+/**
+ * LevelSchema.ts defines the versioned file format of Nocturna levels, its validator and
+ * the chain of migrations used to upgrade older level files.
+ *
+ * Responsibilities:
+ * - Describes the current level format (`LevelData`) and its version number.
+ * - Upgrades older level files (e.g. raw `EditorScene` dumps with `_x`/`_y`/`_z` vectors) step by step.
+ * - Validates level data against the ObjectCatalog and the ThemeCatalog, and reports precise errors such as
+ *   "objects[12].position missing".
+ * - Completes the optional blocks of a level (metadata, movement profile, paths, face hazards) with their defaults.
+ * - Converts Babylon.js vectors to the plain serialized form used in level files.
+ *
+ * Usage:
+ * - Call `LevelSchema.parse(data)` to migrate and validate raw JSON; it throws a `LevelValidationError`
+ *   listing every problem found.
+ * - Call `LevelSchema.check(data)` to get the list of errors without throwing.
+ * - Use `LevelSchema.vec3(vector)` when serializing a level.
+ * - Use `properties`, `meta`, `movement`, `path` and `faces` to merge the data of a level with the defaults.
+ *
+ * This module does not depend on Babylon.js so it can be reused outside the browser.
+ */
+
+/**
+ * Vec3Data is the serialized form of a 3D vector.
+ */
+export interface Vec3Data {
+    x: number;
+    y: number;
+    z: number;
+}
+
+/**
+ * ObjectProperties is the optional bag of values tuning a single object instance.
+ */
+export type ObjectProperties = { [name: string]: number | string | boolean };
+
+/**
+ * CoinProperties tunes coins and super coins.
+ */
+export interface CoinProperties {
+    /** Score given when the coin is collected. */
+    score: number;
+}
+
+/**
+ * EnemyProperties tunes enemies (spike traps).
+ */
+export interface EnemyProperties {
+    /** Damage dealt to the player on contact. */
+    damage: number;
+}
+
+/**
+ * RocketProperties tunes rockets.
+ */
+export interface RocketProperties extends EnemyProperties {
+    /** Radius of the explosion. */
+    explosionRadius: number;
+}
+
+/**
+ * RocketSpawnerProperties tunes rocket activation platforms.
+ */
+export interface RocketSpawnerProperties {
+    /** Minimum delay between two rockets (ms). */
+    respawnTimer: number;
+}
+
+/**
+ * CrumblingProperties tunes crumbling platforms.
+ */
+export interface CrumblingProperties {
+    /** Time the platform shakes once touched, before falling (ms). */
+    delay: number;
+    /** Time before the fallen platform comes back (ms). */
+    respawnTimer: number;
+}
+
+/**
+ * BounceProperties tunes bounce pads.
+ */
+export interface BounceProperties {
+    /** Speed given to the player, along the up direction of the pad. */
+    force: number;
+}
+
+/**
+ * ConveyorProperties tunes conveyor platforms.
+ */
+export interface ConveyorProperties {
+    /** Speed of the belt along the length (x axis) of the platform; negative to run it backwards. */
+    speed: number;
+}
+
+/**
+ * LevelObjectData describes one object instance of a level.
+ * Positions are level coordinates, whatever the rotation group of the object.
+ */
+export interface LevelObjectData {
+    type: string;
+    position: Vec3Data;
+    rotation: Vec3Data;
+    size: Vec3Data;
+    properties?: ObjectProperties;
+    /** Id of the rotation group moving the object (default: the main group). */
+    group?: string;
+    /** Path followed by the object, for the types moving along a path (see `ObjectTypeInfo.path`). */
+    path?: PathData;
+}
+
+/**
+ * PathMode tells how an object goes on at the end of its path:
+ * - "loop": it goes straight back to its position, then follows the path again.
+ * - "pingpong": it follows the path backwards, then forwards again.
+ */
+export type PathMode = "loop" | "pingpong";
+
+/**
+ * PathData describes the path followed by an object (e.g. a moving platform). The object starts at its position,
+ * then visits the waypoints in order. Waypoints are level coordinates, like the position of the object.
+ */
+export interface PathData {
+    waypoints: Vec3Data[];
+    /** Speed along the path, in units per second (default: 40). */
+    speed?: number;
+    /** Pause at each point of the path, including the position of the object (ms, default: 500). */
+    wait?: number;
+    /** What happens at the end of the path (default: "pingpong"). */
+    mode?: PathMode;
+}
+
+/**
+ * RotationAxis is an axis a rotation group can rotate around.
+ */
+export type RotationAxis = "x" | "y" | "z";
+
+/**
+ * RotationGroupSettings describes how a rotation group rotates.
+ */
+export interface RotationGroupSettings {
+    /** Pivot of the rotations. */
+    position: Vec3Data;
+    /** Axes the group can rotate around (default: all). */
+    axes?: RotationAxis[];
+    /** Angle of each rotation, in degrees (default: 90). */
+    angle?: number;
+}
+
+/**
+ * RotationGroupData is a named rotation group: the objects referencing it rotate together around its pivot,
+ * independently of the other groups.
+ */
+export interface RotationGroupData extends RotationGroupSettings {
+    id: string;
+}
+
+/**
+ * PrefabData is a named group of objects whose positions are relative to the prefab origin.
+ */
+export interface PrefabData {
+    objects: LevelObjectData[];
+}
+
+/**
+ * PrefabInstanceData places a prefab in the level. The objects of the prefab are scaled, rotated then moved,
+ * and the instance properties override the properties of every object of the prefab accepting them.
+ */
+export interface PrefabInstanceData {
+    prefab: string;
+    position: Vec3Data;
+    rotation: Vec3Data;
+    scale: Vec3Data;
+    properties?: ObjectProperties;
+    /** Id of the rotation group moving the objects of the instance (default: the main group). */
+    group?: string;
+}
+
+/**
+ * TimeTier gives the score multiplier applied to coins collected before `time` (ms since the level start).
+ */
+export interface TimeTier {
+    time: number;
+    multiplier: number;
+}
+
+/**
+ * RespawnRule tells what happens to the progress of the player respawning at a checkpoint:
+ * - "keep": the timer, the score and the collected coins are kept.
+ * - "rollback": they are restored to their values when the checkpoint was activated, and the coins collected since
+ *   then are put back in the level.
+ */
+export type RespawnRule = "keep" | "rollback";
+
+/**
+ * LevelMeta describes the identity and balance of a level.
+ */
+export interface LevelMeta {
+    title: string;
+    author: string;
+    description: string;
+    /** Reference completion time (ms), 0 if none. */
+    parTime: number;
+    /** Ascending scores needed for each rating star. */
+    scoreThresholds: number[];
+    /** Background music file, relative to assets/music/. */
+    music: string;
+    gravity: Vec3Data;
+    /** Ascending time tiers; coins collected after the last tier are not multiplied. */
+    timeTiers: TimeTier[];
+    /** True if the player can play on every face of the cube, gravity following the active face (see FaceGravity). */
+    faceGravity: boolean;
+    /** True if the player can slide down and jump off the steep sides of the platforms (see WallSlideState). */
+    wallJump: boolean;
+    /** Number of lives of the player, the last death losing the level; 0 for unlimited respawns at the checkpoints. */
+    lives: number;
+    /** What happens to the timer, the score and the coins when the player respawns at a checkpoint. */
+    respawnRule: RespawnRule;
+    /** Settings of the player movement overriding the movement settings of the game. */
+    movement: Partial<MovementProfile>;
+}
+
+/**
+ * MovementProfile tunes the feel of the player movement. Speeds are in units per second, accelerations in units
+ * per second squared and durations in milliseconds.
+ */
+export interface MovementProfile {
+    /** Maximum lateral speed. */
+    speed: number;
+    /** Lateral acceleration on the ground, towards the input direction. */
+    acceleration: number;
+    /** Lateral deceleration on the ground, without input. */
+    deceleration: number;
+    /** Fraction (0 to 1) of the ground acceleration and deceleration available in the air. */
+    airControl: number;
+    /** Maximum falling speed, 0 for no limit. */
+    maxFallSpeed: number;
+    /** Vertical speed given by a jump. */
+    jumpSpeed: number;
+    /** Number of jumps allowed in the air (1 for a double jump). */
+    airJumps: number;
+    /** Time after walking off a ledge during which the player can still jump from the ground ("coyote time"). */
+    coyoteTime: number;
+    /** Time during which a jump pressed too early (before landing) is remembered and performed on landing. */
+    jumpBuffer: number;
+    /** Fraction (0 to 1) of the rising speed kept when the jump key is released early; 1 for a fixed jump height. */
+    jumpCut: number;
+    /** Maximum falling speed while sliding down a wall (when the level allows wall jumps). */
+    wallSlideSpeed: number;
+    /** Lateral speed given by a wall jump, away from the wall. */
+    wallJumpSpeed: number;
+    /** Time after a wall jump during which the lateral input is ignored, so the player leaves the wall. */
+    wallJumpLock: number;
+}
+
+/**
+ * CubeFace is the name of a face of the cube.
+ */
+export type CubeFace = "Front" | "Back" | "Right" | "Left" | "Top" | "Bottom";
+
+/**
+ * FaceHazard is the behavior of a face of the cube when the player touches it:
+ * - "kill": the player dies instantly (lava);
+ * - "damage": the player takes damage over time (acid);
+ * - "bounce": the player is pushed away from the face;
+ * - "sticky": the player is stopped (tar) but can stand on the face;
+ * - "safe": the player can stand on the face;
+ * - "inert": nothing happens, the face is only a wall.
+ */
+export type FaceHazard = "kill" | "damage" | "bounce" | "sticky" | "safe" | "inert";
+
+/**
+ * CubeData describes the cube enclosing the level.
+ */
+export interface CubeData {
+    position: Vec3Data;
+    size: number;
+    /** Hazard of the faces differing from the defaults (see `LevelSchema.DefaultFaces`). */
+    faces?: { [face in CubeFace]?: FaceHazard };
+}
+
+/**
+ * ThemeFaces describes the look of the faces of the cube without hazard (faces with a hazard keep its material).
+ */
+export interface ThemeFaces {
+    /** Diffuse color ("#rrggbb"). */
+    color: string;
+    /** URL of a texture applied to the faces, "" for none. */
+    texture: string;
+    /** Fragment shader of /shaders (e.g. "dream") used instead of the color and texture, "" for none. */
+    shader: string;
+}
+
+/**
+ * ThemeLight describes the light rig: a hemispheric light and an optional glow at the center of the cube.
+ */
+export interface ThemeLight {
+    /** Color of the light ("#rrggbb"). */
+    color: string;
+    /** Color lighting the faces turned away from the light ("#rrggbb"). */
+    groundColor: string;
+    intensity: number;
+    /** Direction of the "sky" of the hemispheric light. */
+    direction: Vec3Data;
+    /** Intensity of the point light at the center of the cube, 0 for none. */
+    glow: number;
+}
+
+/**
+ * ThemeFog describes the exponential fog of the scene.
+ */
+export interface ThemeFog {
+    /** Color of the fog ("#rrggbb"). */
+    color: string;
+    /** Density of the fog, 0 for no fog. */
+    density: number;
+}
+
+/**
+ * ThemeSkybox describes the sky around the cube: a gradient between two colors.
+ */
+export interface ThemeSkybox {
+    /** Color above the cube ("#rrggbb"). */
+    topColor: string;
+    /** Color below the cube ("#rrggbb"). */
+    bottomColor: string;
+}
+
+/**
+ * ParticleEffect is an ambient particle effect filling the cube.
+ */
+export type ParticleEffect = "none" | "dust" | "embers" | "snow";
+
+/**
+ * ThemeParticles describes the ambient particles of the scene.
+ */
+export interface ThemeParticles {
+    effect: ParticleEffect;
+    /** Color of the particles ("#rrggbb"). */
+    color: string;
+    /** Number of particles. */
+    count: number;
+}
+
+/**
+ * ThemeSettings is the complete environment of a level.
+ */
+export interface ThemeSettings {
+    faces: ThemeFaces;
+    light: ThemeLight;
+    fog: ThemeFog;
+    skybox: ThemeSkybox;
+    particles: ThemeParticles;
+}
+
+/**
+ * ThemeData is the `theme` block of a level: a built-in theme and the settings overriding it.
+ */
+export interface ThemeData {
+    /** Name of the built-in theme (see ThemeCatalog, default: "classic"). */
+    base?: string;
+    faces?: Partial<ThemeFaces>;
+    light?: Partial<ThemeLight>;
+    fog?: Partial<ThemeFog>;
+    skybox?: Partial<ThemeSkybox>;
+    particles?: Partial<ThemeParticles>;
+}
+
+/**
+ * LevelData is the root of a level file in the current format.
+ */
+export interface LevelData {
+    version: number;
+    meta?: Partial<LevelMeta>;
+    Cube: CubeData;
+    /** The main rotation group, moving the objects without group. */
+    parent_node: RotationGroupSettings;
+    groups?: RotationGroupData[];
+    theme?: ThemeData;
+    objects: LevelObjectData[];
+    prefabs?: { [name: string]: PrefabData };
+    instances?: PrefabInstanceData[];
+}
+
+/**
+ * LevelValidationError is thrown when level data cannot be migrated or does not match the schema.
+ */
+export class LevelValidationError extends Error {
+    public readonly errors: string[];
+
+    constructor(errors: string[]) {
+        super(`Invalid level data: ${errors.join(", ")}`);
+        this.name = "LevelValidationError";
+        this.errors = errors;
+    }
+}
+
+/**
+ * A migration upgrades level data from one version to the next one.
+ */
+type LevelMigration = (data: any) => any;
+
+/**
+ * LevelSchema provides static helpers to migrate, validate and serialize level data.
+ */
+export class LevelSchema {
+    /** Version of the level format written by the editor. */
+    public static readonly Version: number = 7;
+
+    /** Id of the main rotation group (`parent_node`). */
+    public static readonly MainGroup: string = "main";
+
+    /** Metadata used for the fields missing from the `meta` block of a level. */
+    public static readonly DefaultMeta: LevelMeta = {
+        title: "",
+        author: "",
+        description: "",
+        parTime: 0,
+        scoreThresholds: [],
+        music: "background.mp3",
+        gravity: { x: 0, y: -1000, z: 0 },
+        timeTiers: [
+            { time: 60000, multiplier: 20 },
+            { time: 120000, multiplier: 10 },
+            { time: 180000, multiplier: 5 },
+        ],
+        faceGravity: false,
+        wallJump: false,
+        lives: 0,
+        respawnRule: "keep",
+        movement: {},
+    };
+
+    /** Movement profile used for the settings missing from the movement settings of the game and of a level. */
+    public static readonly DefaultMovement: MovementProfile = {
+        speed: 80,
+        acceleration: 2000,
+        deceleration: 2000,
+        airControl: 0.8,
+        maxFallSpeed: 0,
+        jumpSpeed: 1430,
+        airJumps: 1,
+        coyoteTime: 100,
+        jumpBuffer: 100,
+        jumpCut: 0.5,
+        wallSlideSpeed: 200,
+        wallJumpSpeed: 200,
+        wallJumpLock: 150,
+    };
+
+    /** Movement settings that are fractions, between 0 and 1. */
+    private static readonly MovementFractions: string[] = ["airControl", "jumpCut"];
+
+    /** Names of the faces of the cube. */
+    public static readonly CubeFaces: CubeFace[] = ["Front", "Back", "Right", "Left", "Top", "Bottom"];
+
+    /** Accepted ambient particle effects of the themes. */
+    public static readonly ParticleEffects: ParticleEffect[] = ["none", "dust", "embers", "snow"];
+
+    /** Kind of each setting of the `theme` block, by section. */
+    private static readonly ThemeFields: { [section: string]: { [key: string]: "color" | "number" | "string" | "shader" | "vector" | "effect" } } = {
+        faces: { color: "color", texture: "string", shader: "shader" },
+        light: { color: "color", groundColor: "color", intensity: "number", direction: "vector", glow: "number" },
+        fog: { color: "color", density: "number" },
+        skybox: { topColor: "color", bottomColor: "color" },
+        particles: { effect: "effect", color: "color", count: "number" },
+    };
+
+    /** Accepted face hazards. */
+    public static readonly FaceHazards: FaceHazard[] = ["kill", "damage", "bounce", "sticky", "safe", "inert"];
+
+    /** Rules of the progress of the player respawning at a checkpoint. */
+    public static readonly RespawnRules: RespawnRule[] = ["keep", "rollback"];
+
+    /** Accepted path modes. */
+    public static readonly PathModes: PathMode[] = ["loop", "pingpong"];
+
+    /** Path settings used for the fields missing from the `path` of an object. */
+    public static readonly DefaultPath: Required<PathData> = {
+        waypoints: [],
+        speed: 40,
+        wait: 500,
+        mode: "pingpong",
+    };
+
+    /** Hazard of the faces missing from the `Cube.faces` block of a level: only the bottom face (lava) kills. */
+    public static readonly DefaultFaces: { [face in CubeFace]: FaceHazard } = {
+        Front: "inert",
+        Back: "inert",
+        Right: "inert",
+        Left: "inert",
+        Top: "inert",
+        Bottom: "kill",
+    };
+
+    /**
+     * Migrations indexed by the version they upgrade from.
+     * Files without a `version` field are considered as version 0.
+     */
+    private static readonly migrations: { [from: number]: LevelMigration } = {
+        // 0 -> 1: replace Babylon.js vector dumps ({ _isDirty, _x, _y, _z }) by plain { x, y, z }
+        0: (data: any) => {
+            const cube = data.Cube;
+            if (LevelSchema.isObject(cube)) {
+                cube.position = LevelSchema.migrateVector(cube.position);
+            }
+            const parent = data.parent_node;
+            if (LevelSchema.isObject(parent)) {
+                parent.position = LevelSchema.migrateVector(parent.position);
+            }
+            if (Array.isArray(data.objects)) {
+                data.objects.forEach((object: any) => {
+                    if (!LevelSchema.isObject(object)) return;
+                    ["position", "rotation", "size"].forEach((key) => {
+                        if (key in object) object[key] = LevelSchema.migrateVector(object[key]);
+                    });
+                });
+            }
+            return data;
+        },
+        // 1 -> 2: optional `meta` block
+        1: (data: any) => data,
+        // 2 -> 3: optional `prefabs` and `instances`
+        2: (data: any) => data,
+        // 3 -> 4: optional rotation `groups` and `group` of the objects
+        3: (data: any) => data,
+        // 4 -> 5: optional `Cube.faces`
+        4: (data: any) => data,
+        // 5 -> 6: optional `theme`
+        5: (data: any) => data,
+        // 6 -> 7: optional `path` of the moving objects
+        6: (data: any) => data,
+    };
+
+    /**
+     * Upgrades level data to the current version and validates it.
+     * The input is left untouched.
+     * @param data The raw level data (parsed JSON).
+     * @returns The level data in the current format.
+     * @throws LevelValidationError if the data is invalid.
+     */
+    public static parse(data: any): LevelData {
+        const { level, errors } = this.process(data);
+        if (errors.length > 0) {
+            throw new LevelValidationError(errors);
+        }
+        return level;
+    }
+
+    /**
+     * Upgrades and validates level data without throwing.
+     * @param data The raw level data (parsed JSON).
+     * @returns The list of errors, empty if the level is valid.
+     */
+    public static check(data: any): string[] {
+        return this.process(data).errors;
+    }
+
+    /**
+     * Converts a vector-like object to its serialized form.
+     * @param vector Any object with x, y and z components (e.g. a Babylon.js Vector3).
+     */
+    public static vec3(vector: { x: number, y: number, z: number }): Vec3Data {
+        return { x: vector.x, y: vector.y, z: vector.z };
+    }
+
+    /**
+     * Returns the default properties of an object type, described in the ObjectCatalog.
+     * Unknown types and types without properties accept none.
+     * @param type The object type.
+     */
+    private static propertyDefaults(type: string): ObjectProperties {
+        return ObjectCatalog.get(type)?.properties ?? {};
+    }
+
+    /**
+     * Merges the properties of an object instance with the defaults of its type.
+     * @param type The object type.
+     * @param properties The properties of the instance, if any.
+     * @returns The complete set of properties.
+     */
+    public static properties<T>(type: string, properties?: ObjectProperties): T {
+        return { ...this.propertyDefaults(type), ...properties } as unknown as T;
+    }
+
+    /**
+     * Keeps the properties accepted by an object type, e.g. to apply the overrides of a prefab instance.
+     * @param type The object type.
+     * @param properties The candidate properties, if any.
+     * @returns The properties known for the type and having the type of their default value.
+     */
+    public static acceptedProperties(type: string, properties?: ObjectProperties): ObjectProperties {
+        const defaults = this.propertyDefaults(type);
+        const accepted: ObjectProperties = {};
+        Object.keys(properties ?? {}).forEach((name) => {
+            if (name in defaults && typeof properties[name] === typeof defaults[name]) {
+                accepted[name] = properties[name];
+            }
+        });
+        return accepted;
+    }
+
+    /**
+     * Completes the metadata of a level with the defaults.
+     * @param meta The `meta` block of the level, if any.
+     * @returns The complete metadata.
+     */
+    public static meta(meta?: Partial<LevelMeta>): LevelMeta {
+        return JSON.parse(JSON.stringify({ ...this.DefaultMeta, ...meta }));
+    }
+
+    /**
+     * Keeps the fields of a complete metadata that differ from the defaults, so that the levels written back
+     * follow later changes of the defaults.
+     * @param meta The complete metadata of a level.
+     * @returns The `meta` block to write in the level, empty if every field has its default value.
+     */
+    public static metaOverrides(meta: LevelMeta): Partial<LevelMeta> {
+        const overrides: Partial<LevelMeta> = {};
+        (Object.keys(meta) as (keyof LevelMeta)[]).forEach(<K extends keyof LevelMeta>(key: K) => {
+            if (JSON.stringify(meta[key]) !== JSON.stringify(this.DefaultMeta[key])) {
+                overrides[key] = meta[key];
+            }
+        });
+        return overrides;
+    }
+
+    /**
+     * Completes movement settings with the defaults; the later settings override the earlier ones.
+     * @param overrides The movement settings, e.g. of the game then of the level.
+     * @returns The complete movement profile.
+     */
+    public static movement(...overrides: Partial<MovementProfile>[]): MovementProfile {
+        return Object.assign({ ...this.DefaultMovement }, ...overrides);
+    }
+
+    /**
+     * Checks movement settings: every field is optional and must be a known setting with a valid value.
+     * @param movement The movement settings.
+     * @param path The path of the settings in the reports (default: "movement").
+     * @returns The list of errors.
+     */
+    public static checkMovement(movement: any, path: string = "movement"): string[] {
+        if (!this.isObject(movement)) {
+            return [`${path} must be an object`];
+        }
+        const errors: string[] = [];
+        Object.keys(movement).forEach((key) => {
+            const value = movement[key];
+            if (!(key in this.DefaultMovement)) {
+                errors.push(`${path}.${key} is unknown`);
+            } else if (!this.isNonNegative(value)) {
+                errors.push(`${path}.${key} must be a non-negative number`);
+            } else if (this.MovementFractions.includes(key) && value > 1) {
+                errors.push(`${path}.${key} must be between 0 and 1`);
+            } else if (key === "airJumps" && !Number.isInteger(value)) {
+                errors.push(`${path}.${key} must be an integer`);
+            }
+        });
+        return errors;
+    }
+
+    /**
+     * Completes the path of an object with the defaults.
+     * @param path The `path` of the object, if any.
+     * @returns The complete path; without waypoints if the object does not move.
+     */
+    public static path(path?: PathData): Required<PathData> {
+        return { ...this.DefaultPath, ...path };
+    }
+
+    /**
+     * Completes the face hazards of the cube with the defaults.
+     * @param faces The `Cube.faces` block of the level, if any.
+     * @returns The hazard of every face.
+     */
+    public static faces(faces?: { [face in CubeFace]?: FaceHazard }): { [face in CubeFace]: FaceHazard } {
+        return { ...this.DefaultFaces, ...faces };
+    }
+
+    /**
+     * Migrates a copy of the data, then validates the result.
+     */
+    private static process(data: any): { level: LevelData, errors: string[] } {
+        if (!this.isObject(data)) {
+            return { level: null, errors: ["level must be an object"] };
+        }
+
+        const version = data.version ?? 0;
+        if (!Number.isInteger(version) || version < 0) {
+            return { level: null, errors: ["version must be a non-negative integer"] };
+        }
+        if (version > this.Version) {
+            return { level: null, errors: [`version ${version} is not supported (latest is ${this.Version})`] };
+        }
+
+        let level = JSON.parse(JSON.stringify(data));
+        for (let v = version; v < this.Version; v++) {
+            level = this.migrations[v](level);
+            level.version = v + 1;
+        }
+
+        return { level, errors: this.validate(level) };
+    }
+
+    /**
+     * Validates level data in the current format.
+     * @param level The migrated level data.
+     * @returns The list of errors.
+     */
+    private static validate(level: any): string[] {
+        const errors: string[] = [];
+
+        if (this.checkObject(level, "Cube", "Cube", errors)) {
+            this.checkVector(level.Cube, "position", "Cube.position", errors);
+            if (!("size" in level.Cube)) {
+                errors.push("Cube.size missing");
+            } else if (typeof level.Cube.size !== "number" || !(level.Cube.size > 0)) {
+                errors.push("Cube.size must be a positive number");
+            }
+            if ("faces" in level.Cube) {
+                this.checkFaces(level.Cube, errors);
+            }
+        }
+
+        if (this.checkObject(level, "parent_node", "parent_node", errors)) {
+            this.checkRotationGroup(level.parent_node, "parent_node", errors);
+        }
+
+        if ("groups" in level) {
+            this.checkGroups(level, errors);
+        }
+
+        if ("meta" in level) {
+            this.checkMeta(level, errors);
+        }
+
+        if ("theme" in level) {
+            this.checkTheme(level, errors);
+        }
+
+        this.checkObjects(level, "objects", "objects", errors);
+
+        if ("prefabs" in level && this.checkObject(level, "prefabs", "prefabs", errors)) {
+            Object.keys(level.prefabs).forEach((name) => {
+                if (this.checkObject(level.prefabs, name, `prefabs.${name}`, errors)) {
+                    this.checkObjects(level.prefabs[name], "objects", `prefabs.${name}.objects`, errors);
+                }
+            });
+        }
+
+        if ("instances" in level) {
+            this.checkInstances(level, errors);
+        }
+
+        this.checkGroupReferences(level, errors);
+
+        return errors;
+    }
+
+    /**
+     * Checks the face hazards of the cube: known face names and hazards only.
+     */
+    private static checkFaces(cube: any, errors: string[]): void {
+        if (!this.checkObject(cube, "faces", "Cube.faces", errors)) {
+            return;
+        }
+        Object.keys(cube.faces).forEach((face) => {
+            if (!(this.CubeFaces as string[]).includes(face)) {
+                errors.push(`Cube.faces.${face} is not a face (expected one of ${this.CubeFaces.join(", ")})`);
+            } else if (!this.FaceHazards.includes(cube.faces[face])) {
+                errors.push(`Cube.faces.${face} must be one of ${this.FaceHazards.join(", ")}`);
+            }
+        });
+    }
+
+    /**
+     * Checks the settings of a rotation group: its pivot, its axes and its angle.
+     */
+    private static checkRotationGroup(group: any, path: string, errors: string[]): void {
+        this.checkVector(group, "position", `${path}.position`, errors);
+        if ("axes" in group) {
+            const axes = group.axes;
+            if (!Array.isArray(axes) || axes.length === 0 || !axes.every((axis: any) => ["x", "y", "z"].includes(axis))) {
+                errors.push(`${path}.axes must be a non-empty array of "x", "y" and "z"`);
+            }
+        }
+        if ("angle" in group && (typeof group.angle !== "number" || !(group.angle > 0) || !isFinite(group.angle))) {
+            errors.push(`${path}.angle must be a positive number`);
+        }
+    }
+
+    /**
+     * Checks the named rotation groups of a level. Their ids must be unique and differ from the main group id.
+     */
+    private static checkGroups(level: any, errors: string[]): void {
+        if (!Array.isArray(level.groups)) {
+            errors.push("groups must be an array");
+            return;
+        }
+
+        const ids: string[] = [];
+        level.groups.forEach((group: any, i: number) => {
+            const path = `groups[${i}]`;
+            if (!this.isObject(group)) {
+                errors.push(`${path} must be an object`);
+                return;
+            }
+            if (typeof group.id !== "string" || group.id.length === 0) {
+                errors.push(`${path}.id must be a non-empty string`);
+            } else if (group.id === this.MainGroup || ids.includes(group.id)) {
+                errors.push(`${path}.id "${group.id}" is already used`);
+            } else {
+                ids.push(group.id);
+            }
+            this.checkRotationGroup(group, path, errors);
+        });
+    }
+
+    /**
+     * Checks that the objects, prefab objects and instances only reference declared rotation groups.
+     */
+    private static checkGroupReferences(level: any, errors: string[]): void {
+        const ids = [this.MainGroup].concat(Array.isArray(level.groups) ? level.groups.map((group: any) => group?.id) : []);
+        const check = (items: any, path: string) => {
+            if (!Array.isArray(items)) return;
+            items.forEach((item: any, i: number) => {
+                if (!this.isObject(item) || !("group" in item)) return;
+                if (typeof item.group !== "string" || !ids.includes(item.group)) {
+                    errors.push(`${path}[${i}].group "${item.group}" is not defined`);
+                }
+            });
+        };
+
+        check(level.objects, "objects");
+        check(level.instances, "instances");
+        if (this.isObject(level.prefabs)) {
+            Object.keys(level.prefabs).forEach((name) => check(level.prefabs[name]?.objects, `prefabs.${name}.objects`));
+        }
+    }
+
+    /**
+     * Checks that `parent[key]` is an array of valid objects.
+     */
+    private static checkObjects(parent: any, key: string, path: string, errors: string[]): void {
+        if (!(key in parent)) {
+            errors.push(`${path} missing`);
+        } else if (!Array.isArray(parent[key])) {
+            errors.push(`${path} must be an array`);
+        } else {
+            parent[key].forEach((object: any, i: number) => {
+                const objectPath = `${path}[${i}]`;
+                if (!this.isObject(object)) {
+                    errors.push(`${objectPath} must be an object`);
+                    return;
+                }
+
+                if (!("type" in object)) {
+                    errors.push(`${objectPath}.type missing`);
+                } else if (!ObjectCatalog.get(object.type)) {
+                    errors.push(`${objectPath}.type "${object.type}" is unknown`);
+                }
+
+                ["position", "rotation", "size"].forEach((vector) => {
+                    this.checkVector(object, vector, `${objectPath}.${vector}`, errors);
+                });
+
+                if ("properties" in object) {
+                    this.checkProperties(object, objectPath, errors);
+                }
+
+                if ("path" in object) {
+                    this.checkPath(object, objectPath, errors);
+                }
+            });
+        }
+    }
+
+    /**
+     * Checks the prefab instances of a level. Their prefab must be defined, and each property override
+     * must be accepted by at least one object of the prefab.
+     */
+    private static checkInstances(level: any, errors: string[]): void {
+        if (!Array.isArray(level.instances)) {
+            errors.push("instances must be an array");
+            return;
+        }
+
+        const prefabs = this.isObject(level.prefabs) ? level.prefabs : {};
+        level.instances.forEach((instance: any, i: number) => {
+            const path = `instances[${i}]`;
+            if (!this.isObject(instance)) {
+                errors.push(`${path} must be an object`);
+                return;
+            }
+
+            ["position", "rotation", "scale"].forEach((key) => {
+                this.checkVector(instance, key, `${path}.${key}`, errors);
+            });
+
+            if (!("prefab" in instance)) {
+                errors.push(`${path}.prefab missing`);
+                return;
+            }
+            const prefab = prefabs[instance.prefab];
+            if (typeof instance.prefab !== "string" || !this.isObject(prefab)) {
+                errors.push(`${path}.prefab "${instance.prefab}" is not defined`);
+                return;
+            }
+
+            if ("properties" in instance && this.checkObject(instance, "properties", `${path}.properties`, errors)) {
+                const objects: any[] = Array.isArray(prefab.objects) ? prefab.objects : [];
+                Object.keys(instance.properties).forEach((name) => {
+                    const value = instance.properties[name];
+                    const accepted = objects.some((object) => {
+                        const defaults = this.propertyDefaults(object?.type);
+                        return name in defaults && typeof value === typeof defaults[name];
+                    });
+                    if (!accepted) {
+                        errors.push(`${path}.properties.${name} is not a property of the objects of ${instance.prefab}`);
+                    }
+                });
+            }
+        });
+    }
+
+    /**
+     * Checks that `parent[key]` exists and is an object.
+     * @returns True if the object can be inspected further.
+     */
+    private static checkObject(parent: any, key: string, path: string, errors: string[]): boolean {
+        if (!(key in parent)) {
+            errors.push(`${path} missing`);
+            return false;
+        }
+        if (!this.isObject(parent[key])) {
+            errors.push(`${path} must be an object`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Checks that `parent[key]` is a vector with finite x, y and z components.
+     */
+    private static checkVector(parent: any, key: string, path: string, errors: string[]): void {
+        if (!this.checkObject(parent, key, path, errors)) return;
+
+        ["x", "y", "z"].forEach((axis) => {
+            const value = parent[key][axis];
+            if (value === undefined) {
+                errors.push(`${path}.${axis} missing`);
+            } else if (typeof value !== "number" || !isFinite(value)) {
+                errors.push(`${path}.${axis} must be a number`);
+            }
+        });
+    }
+
+    /**
+     * Checks the optional `meta` block of a level. Every field is optional.
+     */
+    private static checkMeta(level: any, errors: string[]): void {
+        if (!this.checkObject(level, "meta", "meta", errors)) return;
+        const meta = level.meta;
+
+        Object.keys(meta).forEach((key) => {
+            if (!(key in this.DefaultMeta)) errors.push(`meta.${key} is unknown`);
+        });
+        ["title", "author", "description", "music"].forEach((key) => {
+            if (key in meta && typeof meta[key] !== "string") errors.push(`meta.${key} must be a string`);
+        });
+        if ("parTime" in meta && !this.isNonNegative(meta.parTime)) {
+            errors.push("meta.parTime must be a non-negative number");
+        }
+        if ("gravity" in meta) {
+            this.checkVector(meta, "gravity", "meta.gravity", errors);
+        }
+        if ("faceGravity" in meta && typeof meta.faceGravity !== "boolean") {
+            errors.push("meta.faceGravity must be a boolean");
+        }
+        if ("wallJump" in meta && typeof meta.wallJump !== "boolean") {
+            errors.push("meta.wallJump must be a boolean");
+        }
+        if ("lives" in meta && !(Number.isInteger(meta.lives) && meta.lives >= 0)) {
+            errors.push("meta.lives must be a non-negative integer");
+        }
+        if ("respawnRule" in meta && !this.RespawnRules.includes(meta.respawnRule)) {
+            errors.push(`meta.respawnRule must be one of ${this.RespawnRules.join(", ")}`);
+        }
+        if ("movement" in meta) {
+            errors.push(...this.checkMovement(meta.movement, "meta.movement"));
+        }
+        if ("scoreThresholds" in meta) {
+            const thresholds = meta.scoreThresholds;
+            if (!Array.isArray(thresholds) || !thresholds.every((t: any) => this.isNonNegative(t))) {
+                errors.push("meta.scoreThresholds must be an array of non-negative numbers");
+            } else if (thresholds.some((t: number, i: number) => i > 0 && t < thresholds[i - 1])) {
+                errors.push("meta.scoreThresholds must be in ascending order");
+            }
+        }
+        if ("timeTiers" in meta) {
+            if (!Array.isArray(meta.timeTiers)) {
+                errors.push("meta.timeTiers must be an array");
+                return;
+            }
+            meta.timeTiers.forEach((tier: any, i: number) => {
+                const path = `meta.timeTiers[${i}]`;
+                if (!this.isObject(tier)) {
+                    errors.push(`${path} must be an object`);
+                    return;
+                }
+                if (!this.isNonNegative(tier.time)) errors.push(`${path}.time must be a non-negative number`);
+                if (!this.isNonNegative(tier.multiplier)) errors.push(`${path}.multiplier must be a non-negative number`);
+                if (i > 0 && tier.time <= meta.timeTiers[i - 1]?.time) errors.push(`${path}.time must be greater than the previous tier`);
+            });
+        }
+    }
+
+    /**
+     * Checks the optional `theme` block of a level: a registered built-in theme and settings of the expected kind.
+     */
+    private static checkTheme(level: any, errors: string[]): void {
+        if (!this.checkObject(level, "theme", "theme", errors)) return;
+        const theme = level.theme;
+
+        Object.keys(theme).forEach((section) => {
+            const path = `theme.${section}`;
+            if (section === "base") {
+                const names = ThemeCatalog.getNames();
+                if (!names.includes(theme.base)) errors.push(`theme.base must be one of ${names.join(", ")}`);
+                return;
+            }
+            const fields = this.ThemeFields[section];
+            if (!fields) {
+                errors.push(`${path} is unknown`);
+                return;
+            }
+            if (!this.checkObject(theme, section, path, errors)) return;
+
+            Object.keys(theme[section]).forEach((key) => {
+                const value = theme[section][key];
+                const keyPath = `${path}.${key}`;
+                switch (fields[key]) {
+                    case "color":
+                        if (typeof value !== "string" || !/^#[0-9a-fA-F]{6}$/.test(value)) errors.push(`${keyPath} must be a "#rrggbb" color`);
+                        break;
+                    case "number":
+                        if (!this.isNonNegative(value)) errors.push(`${keyPath} must be a non-negative number`);
+                        break;
+                    case "string":
+                        if (typeof value !== "string") errors.push(`${keyPath} must be a string`);
+                        break;
+                    case "shader":
+                        if (typeof value !== "string" || !/^\w*$/.test(value)) errors.push(`${keyPath} must be the name of a shader of /shaders`);
+                        break;
+                    case "vector":
+                        this.checkVector(theme[section], key, keyPath, errors);
+                        break;
+                    case "effect":
+                        if (!this.ParticleEffects.includes(value)) errors.push(`${keyPath} must be one of ${this.ParticleEffects.join(", ")}`);
+                        break;
+                    default:
+                        errors.push(`${keyPath} is unknown`);
+                }
+            });
+        });
+    }
+
+    /**
+     * Checks that the properties of an object are known for its type and have the type of their default value.
+     */
+    private static checkProperties(object: any, path: string, errors: string[]): void {
+        if (!this.checkObject(object, "properties", `${path}.properties`, errors)) return;
+
+        const defaults = this.propertyDefaults(object.type);
+        Object.keys(object.properties).forEach((name) => {
+            const value = object.properties[name];
+            if (!(name in defaults)) {
+                errors.push(`${path}.properties.${name} is not a property of ${object.type}`);
+            } else if (typeof value !== typeof defaults[name] || (typeof value === "number" && !isFinite(value))) {
+                errors.push(`${path}.properties.${name} must be a ${typeof defaults[name]}`);
+            }
+        });
+    }
+
+    /**
+     * Checks the path of an object: its type must move along a path, and the path needs valid waypoints,
+     * a positive speed, a non-negative wait and a known mode.
+     */
+    private static checkPath(object: any, path: string, errors: string[]): void {
+        if (!this.checkObject(object, "path", `${path}.path`, errors)) return;
+        const data = object.path;
+
+        if (!ObjectCatalog.get(object.type)?.path) {
+            errors.push(`${path}.path is not accepted by ${object.type}`);
+        }
+        Object.keys(data).forEach((key) => {
+            if (!(key in this.DefaultPath)) errors.push(`${path}.path.${key} is unknown`);
+        });
+        if (!Array.isArray(data.waypoints)) {
+            errors.push(`${path}.path.waypoints must be an array`);
+        } else {
+            data.waypoints.forEach((_: any, i: number) => {
+                this.checkVector(data.waypoints, String(i), `${path}.path.waypoints[${i}]`, errors);
+            });
+        }
+        if ("speed" in data && !(this.isNonNegative(data.speed) && data.speed > 0)) {
+            errors.push(`${path}.path.speed must be a positive number`);
+        }
+        if ("wait" in data && !this.isNonNegative(data.wait)) {
+            errors.push(`${path}.path.wait must be a non-negative number`);
+        }
+        if ("mode" in data && !this.PathModes.includes(data.mode)) {
+            errors.push(`${path}.path.mode must be one of ${this.PathModes.join(", ")}`);
+        }
+    }
+
+    /**
+     * Converts a version 0 vector ({ _x, _y, _z }) to a plain vector.
+     * Any other value is returned unchanged and left to the validator.
+     */
+    private static migrateVector(vector: any): any {
+        if (!this.isObject(vector) || !("_x" in vector)) {
+            return vector;
+        }
+        return { x: vector._x, y: vector._y, z: vector._z };
+    }
+
+    private static isNonNegative(value: any): boolean {
+        return typeof value === "number" && isFinite(value) && value >= 0;
+    }
+
+    private static isObject(value: any): boolean {
+        return typeof value === "object" && value !== null && !Array.isArray(value);
+    }
+}
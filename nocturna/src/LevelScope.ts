@@ -0,0 +1,217 @@
+import { AbstractSound, AssetsManager, BaseTexture, Observable, Observer, PhysicsEngineV2, Scene } from "@babylonjs/core";
+
+/**
+ * LevelScope.ts defines the LevelScope class, which owns the resources of a level instance.
+ *
+ * Responsibilities:
+ * - Tracks the resources created for a level that the Babylon.js scene does not release by itself, or not in a
+ *   predictable order: observers, timers, sounds, physics bodies, GUI textures and asset managers.
+ * - Tears them all down, in the reverse order of their creation, when the scene of the level is disposed.
+ * - Immediately releases the resources registered after the teardown (e.g. a sound finishing to load after a restart).
+ * - Keeps a debug report of the resources that survived a teardown.
+ *
+ * Usage:
+ * - A level instance is a Babylon.js scene: get its scope with `LevelScope.of(scene)`.
+ * - Use `observe`, `setTimeout`, `addSound`, `addGui` and `addAssetsManager` instead of the Babylon.js and DOM calls,
+ *   so that the resources are released with the level. The physics bodies of the scene are always released.
+ * - The scope is torn down when its scene is disposed; call `LevelScope.report()` afterwards to list the leaks.
+ */
+
+/**
+ * ScopedResource is a resource owned by a scope.
+ */
+interface ScopedResource {
+    /** Kind and name of the resource, for the report. */
+    label: string;
+    /** Releases the resource. */
+    release: () => void;
+    /** Checks that the resource was really released. */
+    isReleased: () => boolean;
+}
+
+/**
+ * LevelScope owns the resources of a level instance and releases them together.
+ */
+export class LevelScope {
+    /** Scopes of the live scenes. */
+    private static scopes: Map<Scene, LevelScope> = new Map();
+    /** Resources that survived a teardown or were registered too late, since the last report. */
+    private static leaks: string[] = [];
+
+    private scene: Scene;
+    private resources: ScopedResource[] = [];
+    private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+    private disposed: boolean = false;
+
+    /**
+     * Constructs the scope of a scene, torn down when the scene is disposed.
+     * @param scene The Babylon.js scene of the level.
+     */
+    private constructor(scene: Scene) {
+        this.scene = scene;
+        scene.onDisposeObservable.addOnce(() => this.dispose());
+    }
+
+    /**
+     * Returns the scope of a scene, creating it if needed.
+     * @param scene The Babylon.js scene of the level.
+     */
+    public static of(scene: Scene): LevelScope {
+        let scope = this.scopes.get(scene);
+        if (!scope) {
+            scope = new LevelScope(scene);
+            if (!scene.isDisposed) {
+                this.scopes.set(scene, scope);
+            } else {
+                scope.disposed = true;
+            }
+        }
+        return scope;
+    }
+
+    /**
+     * Returns the resources that survived a teardown or were registered after it since the last report,
+     * and the scopes whose scene was disposed without tearing them down.
+     * @returns One line per leak; empty if everything was released.
+     */
+    public static report(): string[] {
+        const report = this.leaks;
+        this.leaks = [];
+        this.scopes.forEach((scope, scene) => {
+            if (scene.isDisposed) {
+                report.push(`scope of a disposed scene still holds ${scope.resources.length} resource(s)`);
+            }
+        });
+        return report;
+    }
+
+    /**
+     * Returns true once the scope has been torn down.
+     */
+    public isDisposed(): boolean {
+        return this.disposed;
+    }
+
+    /**
+     * Adds an observer to an observable, removed when the level is torn down.
+     * @param observable The observable (e.g. `scene.onBeforeRenderObservable`, a collision observable).
+     * @param callback The callback of the observer.
+     * @returns The observer, or null if the level is already torn down.
+     */
+    public observe<T>(observable: Observable<T>, callback: (data: T) => void): Observer<T> | null {
+        if (this.disposed) {
+            LevelScope.leaks.push("observer added after the level was disposed");
+            return null;
+        }
+        const observer = observable.add(callback);
+        this.track("observer", () => observable.remove(observer), () => !observable.observers.includes(observer));
+        return observer;
+    }
+
+    /**
+     * Calls a function after a delay, unless the level is torn down first.
+     * @param callback The function to call.
+     * @param delay The delay, in milliseconds.
+     */
+    public setTimeout(callback: () => void, delay: number) {
+        if (this.disposed) {
+            return;
+        }
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            callback();
+        }, delay);
+        this.timers.add(timer);
+    }
+
+    /**
+     * Adds a sound, disposed when the level is torn down. The sounds are not attached to the scene.
+     * A sound added after the teardown is disposed immediately.
+     * @param sound The sound.
+     * @param name The name of the sound, for the report.
+     * @returns False if the sound was disposed because the level is already torn down.
+     */
+    public addSound(sound: AbstractSound, name: string = sound.name): boolean {
+        let released = false;
+        sound.onDisposeObservable.addOnce(() => released = true);
+        return this.add(`sound "${name}"`, () => sound.dispose(), () => released);
+    }
+
+    /**
+     * Adds a GUI texture, disposed when the level is torn down.
+     * @param texture The texture of the GUI (an AdvancedDynamicTexture).
+     * @returns False if the texture was disposed because the level is already torn down.
+     */
+    public addGui(texture: BaseTexture): boolean {
+        let released = false;
+        texture.onDisposeObservable.addOnce(() => released = true);
+        return this.add(`GUI "${texture.name}"`, () => texture.dispose(), () => released);
+    }
+
+    /**
+     * Adds an asset manager; its pending tasks are dropped when the level is torn down, so that they do not
+     * create objects for a level that does not exist anymore.
+     * @param assetsManager The asset manager.
+     * @returns False if the asset manager was reset because the level is already torn down.
+     */
+    public addAssetsManager(assetsManager: AssetsManager): boolean {
+        return this.add("assets manager", () => {
+            assetsManager.onFinish = null;
+            assetsManager.reset();
+        }, () => true);
+    }
+
+    /**
+     * Tears down the level: clears the timers, then releases the resources in the reverse order of their
+     * creation and the physics bodies of the scene. Called when the scene is disposed.
+     */
+    public dispose() {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        LevelScope.scopes.delete(this.scene);
+
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+
+        const resources = this.resources.reverse();
+        this.resources = [];
+        resources.forEach(resource => {
+            try {
+                resource.release();
+            } catch (error) {
+                console.error(`Failed to release ${resource.label}:`, error);
+            }
+        });
+
+        const physicsEngine = this.scene.getPhysicsEngine() as PhysicsEngineV2 | null;
+        const bodies = physicsEngine?.getBodies() ?? [];
+        [...bodies].forEach(body => body.dispose());
+
+        resources.filter(resource => !resource.isReleased())
+            .forEach(resource => LevelScope.leaks.push(`${resource.label} survived the teardown`));
+        const survivingBodies = bodies.filter(body => !body.isDisposed).length;
+        if (survivingBodies > 0) {
+            LevelScope.leaks.push(`${survivingBodies} physics body(ies) survived the teardown`);
+        }
+    }
+
+    /**
+     * Adds a resource to the scope, or releases it at once if the scope is torn down.
+     * @returns False if the resource was released because the scope is torn down.
+     */
+    private add(label: string, release: () => void, isReleased: () => boolean): boolean {
+        if (this.disposed) {
+            LevelScope.leaks.push(`${label} created after the level was disposed`);
+            release();
+            return false;
+        }
+        this.track(label, release, isReleased);
+        return true;
+    }
+
+    private track(label: string, release: () => void, isReleased: () => boolean) {
+        this.resources.push({ label, release, isReleased });
+    }
+}
@@ -0,0 +1,51 @@
+import { LevelSchema, MovementProfile } from "./LevelSchema";
+
+/**
+ * MovementSettings.ts loads the movement settings of the game, shared by every level.
+ *
+ * Responsibilities:
+ * - Downloads the movement settings file (`assets/movement.json`) once and validates it against the movement
+ *   profile (see LevelSchema). The file only holds the settings tuned for the game: the others keep the values of
+ *   `LevelSchema.DefaultMovement`.
+ * - Falls back to the default movement, with a warning, if the file is missing or invalid, so that the game
+ *   stays playable.
+ *
+ * Usage:
+ * - Use `await MovementSettings.load()` to get the settings of the game, then
+ *   `LevelSchema.movement(settings, meta.movement)` to apply the overrides of a level.
+ */
+export class MovementSettings {
+    /** Path of the movement settings file. */
+    public static readonly File: string = "/assets/movement.json";
+
+    private static settings: Promise<Partial<MovementProfile>> | null = null;
+
+    /**
+     * Loads the movement settings of the game; the file is only downloaded once.
+     * @returns The settings of the file, or no settings if it cannot be used.
+     */
+    public static load(): Promise<Partial<MovementProfile>> {
+        if (!this.settings) {
+            this.settings = this.fetchSettings();
+        }
+        return this.settings;
+    }
+
+    private static async fetchSettings(): Promise<Partial<MovementProfile>> {
+        try {
+            const response = await fetch(this.File);
+            if (!response.ok) {
+                throw new Error(`${response.status} ${response.statusText}`);
+            }
+            const settings = await response.json();
+            const errors = LevelSchema.checkMovement(settings, "movement.json");
+            if (errors.length > 0) {
+                throw new Error(errors.join(", "));
+            }
+            return settings;
+        } catch (error) {
+            console.warn(`Failed to load ${this.File}, using the default movement:`, error);
+            return {};
+        }
+    }
+}
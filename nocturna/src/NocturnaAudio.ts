@@ -13,6 +13,7 @@ import { AudioEngineV2, CreateAudioEngineAsync, CreateStreamingSoundAsync, Strea
  * Usage:
  * - Use `await NocturnaAudio.getInstance()` to get the singleton instance.
  * - Use `setBackgroundMusic` to play or change background music.
+ * - Use `setLevelMusic` to play the music track declared in a level's metadata.
  * - Use `muteBackgroundMusic`, `stopBackgroundMusic`, `resumeBackgroundMusic`, and `setVolume` for playback control.
  */
 export class NocturnaAudio {
@@ -85,6 +86,14 @@ export class NocturnaAudio {
         }
     }
 
+    /**
+     * Plays the music track of a level.
+     * @param track The music file, relative to assets/music/.
+     */
+    public async setLevelMusic(track: string): Promise<void> {
+        await this.setBackgroundMusic(`assets/music/${track}`);
+    }
+
     /**
      * Stops the background music playback.
      */
@@ -0,0 +1,207 @@
+import type { ObjectProperties, Vec3Data } from "./LevelSchema";
+import type { GameObjectFactory } from "./types";
+import type * as Platforms from "./GameObjects/Platform";
+import type * as Victories from "./GameObjects/Victory";
+import type * as Players from "./GameObjects/Player";
+import type * as Rockets from "./GameObjects/Rocket";
+import type * as SpikeTraps from "./GameObjects/SpikeTrap";
+import type * as Coins from "./GameObjects/Coin";
+import type * as Checkpoints from "./GameObjects/Checkpoint";
+
+/**
+ * ObjectCatalog.ts describes every game object type that can appear in a level, without its implementation.
+ *
+ * Responsibilities:
+ * - Declares, for each object type, the factory creating it, its default size, its serializable properties, whether
+ *   it is solid (the player stands on it), whether it follows a path and, if it can be placed in the editor, its
+ *   palette entry (icon, label, category).
+ * - Does not depend on Babylon.js at runtime so the level tools (e.g. `tools/lint-levels.ts`) can run under Node:
+ *   the factories are named, and only the type-checker looks them up in the modules of game objects.
+ *
+ * Usage:
+ * - Use `ObjectCatalog.get(type)` to get the description of a type and `ObjectCatalog.getAll()` to list them,
+ *   in palette order.
+ * - The game accesses the types through the `ObjectRegistry`, which instantiates the factory named by each type.
+ * - The LevelSchema validates the object types, their properties and their paths against this catalog.
+ * - To add a new object type, write its factory in a module of src/GameObjects, describe the type here, naming
+ *   the factory, and add the factory class to `ObjectRegistry.Factories`.
+ */
+
+/**
+ * PaletteEntry describes how an object type is displayed in the editor palette.
+ */
+export interface PaletteEntry {
+    icon: string;
+    label: string;
+    category: string;
+}
+
+type FactoryModules = typeof Platforms & typeof Victories & typeof Players & typeof Rockets & typeof SpikeTraps
+    & typeof Coins & typeof Checkpoints;
+
+/**
+ * FactoryName is the name of a factory class exported by a module of game objects.
+ */
+export type FactoryName = {
+    [name in keyof FactoryModules]: FactoryModules[name] extends new () => GameObjectFactory ? name : never
+}[keyof FactoryModules];
+
+/**
+ * ObjectTypeInfo describes an object type independently of its implementation.
+ */
+export interface ObjectTypeInfo {
+    type: string;
+    /** Name of the factory class creating the type, exported by a module of src/GameObjects (see ObjectRegistry). */
+    factory: FactoryName;
+    defaultSize: Vec3Data;
+    properties?: ObjectProperties;
+    /** True for the objects the player can stand on (platforms). */
+    solid?: boolean;
+    /** True for the objects following a path of waypoints (moving platforms). */
+    path?: boolean;
+    palette?: PaletteEntry;
+}
+
+/**
+ * ObjectCatalog holds the descriptions of all the object types.
+ */
+export class ObjectCatalog {
+    /** Descriptions of all the object types. Types with a palette entry appear in the editor in this order. */
+    private static readonly Entries: ObjectTypeInfo[] = [
+        {
+            type: "fixed_platform",
+            factory: "FixedPlatformFactory",
+            defaultSize: { x: 50, y: 50, z: 50 },
+            solid: true,
+            palette: { icon: "/assets/hud/editor/fixed_platform.png", label: "Fixed platform", category: "Platforms" }
+        },
+        {
+            type: "parented_platform",
+            factory: "ParentedPlatformFactory",
+            defaultSize: { x: 50, y: 50, z: 50 },
+            solid: true,
+            palette: { icon: "/assets/hud/editor/parented_platform.png", label: "Parented platform", category: "Platforms" }
+        },
+        {
+            type: "spike_trap",
+            factory: "SpikeTrapFactory",
+            defaultSize: { x: 10, y: 0.1, z: 10 },
+            properties: { damage: 1 },
+            palette: { icon: "/assets/hud/editor/spikes.png", label: "Spikes", category: "Hazards" }
+        },
+        {
+            type: "coin",
+            factory: "CoinFactory",
+            defaultSize: { x: 15, y: 15, z: 5 },
+            properties: { score: 10 },
+            palette: { icon: "/assets/hud/editor/coin.png", label: "Coin", category: "Collectibles" }
+        },
+        {
+            type: "player",
+            factory: "PlayerFactory",
+            defaultSize: { x: 10, y: 10, z: 10 },
+            palette: { icon: "/assets/hud/editor/player.png", label: "Player", category: "Gameplay" }
+        },
+        {
+            type: "victory_condition",
+            factory: "VictoryConditionFactory",
+            defaultSize: { x: 20, y: 20, z: 20 },
+            palette: { icon: "/assets/hud/editor/crystal.png", label: "Victory", category: "Gameplay" }
+        },
+        {
+            type: "super_coin",
+            factory: "SuperCoinFactory",
+            defaultSize: { x: 15, y: 15, z: 5 },
+            properties: { score: 100 },
+            palette: { icon: "/assets/hud/editor/coin.png", label: "Super coin", category: "Collectibles" }
+        },
+        {
+            type: "fixed_rocket_activation_platform",
+            factory: "FixedRocketActivationPlatformFactory",
+            defaultSize: { x: 50, y: 50, z: 50 },
+            properties: { respawnTimer: 1500 },
+            solid: true,
+            palette: { icon: "/assets/hud/editor/fixed_platform.png", label: "Fixed rocket platform", category: "Hazards" }
+        },
+        {
+            type: "parented_rocket_activation_platform",
+            factory: "ParentedRocketActivationPlatformFactory",
+            defaultSize: { x: 50, y: 50, z: 50 },
+            properties: { respawnTimer: 1500 },
+            solid: true,
+            palette: { icon: "/assets/hud/editor/parented_platform.png", label: "Parented rocket platform", category: "Hazards" }
+        },
+        {
+            type: "checkpoint",
+            factory: "CheckpointFactory",
+            defaultSize: { x: 20, y: 4, z: 20 },
+            solid: true,
+            palette: { icon: "/assets/hud/editor/checkpoint.png", label: "Checkpoint", category: "Gameplay" }
+        },
+        {
+            type: "moving_platform",
+            factory: "MovingPlatformFactory",
+            defaultSize: { x: 40, y: 10, z: 40 },
+            solid: true,
+            path: true,
+            palette: { icon: "/assets/hud/editor/moving_platform.png", label: "Moving platform", category: "Platforms" }
+        },
+        {
+            type: "crumbling_platform",
+            factory: "CrumblingPlatformFactory",
+            defaultSize: { x: 40, y: 10, z: 40 },
+            properties: { delay: 600, respawnTimer: 3000 },
+            solid: true,
+            palette: { icon: "/assets/hud/editor/crumbling_platform.png", label: "Crumbling platform", category: "Platforms" }
+        },
+        {
+            type: "bounce_pad",
+            factory: "BouncePlatformFactory",
+            defaultSize: { x: 30, y: 6, z: 30 },
+            properties: { force: 2000 },
+            solid: true,
+            palette: { icon: "/assets/hud/editor/bounce_pad.png", label: "Bounce pad", category: "Platforms" }
+        },
+        {
+            type: "one_way_platform",
+            factory: "OneWayPlatformFactory",
+            defaultSize: { x: 40, y: 4, z: 40 },
+            solid: true,
+            palette: { icon: "/assets/hud/editor/one_way_platform.png", label: "One-way platform", category: "Platforms" }
+        },
+        {
+            type: "conveyor_platform",
+            factory: "ConveyorPlatformFactory",
+            defaultSize: { x: 60, y: 10, z: 40 },
+            properties: { speed: 60 },
+            solid: true,
+            palette: { icon: "/assets/hud/editor/conveyor_platform.png", label: "Conveyor", category: "Platforms" }
+        },
+        {
+            type: "fixed_victory_condition",
+            factory: "FixedVictoryConditionFactory",
+            defaultSize: { x: 20, y: 20, z: 20 }
+        },
+        {
+            type: "rocket",
+            factory: "FixedRocketFactory",
+            defaultSize: { x: 10, y: 10, z: 10 },
+            properties: { damage: 5, explosionRadius: 10 }
+        },
+    ];
+
+    /**
+     * Returns the description of an object type, or undefined if the type is unknown.
+     * @param type The object type.
+     */
+    public static get(type: string): ObjectTypeInfo | undefined {
+        return this.Entries.find(entry => entry.type === type);
+    }
+
+    /**
+     * Returns the descriptions of all the object types, in palette order.
+     */
+    public static getAll(): ObjectTypeInfo[] {
+        return this.Entries;
+    }
+}
@@ -0,0 +1,116 @@
+import { GameObjectFactory } from "./types";
+import { FactoryName, ObjectCatalog, ObjectTypeInfo } from "./ObjectCatalog";
+import { ParentedPlatformFactory, FixedPlatformFactory, ParentedRocketActivationPlatformFactory, FixedRocketActivationPlatformFactory,
+    MovingPlatformFactory, CrumblingPlatformFactory, BouncePlatformFactory, OneWayPlatformFactory, ConveyorPlatformFactory } from "./GameObjects/Platform";
+import { VictoryConditionFactory, FixedVictoryConditionFactory } from "./GameObjects/Victory";
+import { PlayerFactory } from "./GameObjects/Player";
+import { FixedRocketFactory } from "./GameObjects/Rocket";
+import { SpikeTrapFactory } from "./GameObjects/SpikeTrap";
+import { CoinFactory, SuperCoinFactory } from "./GameObjects/Coin";
+import { CheckpointFactory } from "./GameObjects/Checkpoint";
+
+/**
+ * ObjectRegistry.ts defines the registry of every game object type that can appear in a level.
+ *
+ * Responsibilities:
+ * - Instantiates the factory named by each object type described in the ObjectCatalog (default size, properties,
+ *   palette entry), from the table of the factory classes of src/GameObjects.
+ * - Provides the factories to the LevelLoader, the editor and the multiplayer mode.
+ *
+ * Usage:
+ * - Use `ObjectRegistry.getFactory(type)` to create an object of a given type.
+ * - Use `ObjectRegistry.createFactoryMap()` to get a type -> factory map (e.g. to override one factory).
+ * - Use `ObjectRegistry.getPalette()` to list the types placeable in the editor, in palette order,
+ *   and `ObjectRegistry.getPaletteAction(index)` for the input action placing each of them.
+ * - To add a new object type, describe it in the `ObjectCatalog`, naming its factory, and add the factory class to
+ *   `ObjectRegistry.Factories` (the type-checker requires every factory named in the catalog to be there).
+ */
+
+/**
+ * ObjectTypeDefinition declares everything the game needs to know about an object type.
+ */
+export interface ObjectTypeDefinition extends Omit<ObjectTypeInfo, "factory"> {
+    factory: GameObjectFactory;
+}
+
+/**
+ * ObjectRegistry holds the definitions of all the object types.
+ */
+export class ObjectRegistry {
+    /** Factory class of each factory name used in the ObjectCatalog. */
+    private static readonly Factories: { [name in FactoryName]: new () => GameObjectFactory } = {
+        FixedPlatformFactory,
+        ParentedPlatformFactory,
+        FixedRocketActivationPlatformFactory,
+        ParentedRocketActivationPlatformFactory,
+        MovingPlatformFactory,
+        CrumblingPlatformFactory,
+        BouncePlatformFactory,
+        OneWayPlatformFactory,
+        ConveyorPlatformFactory,
+        VictoryConditionFactory,
+        FixedVictoryConditionFactory,
+        PlayerFactory,
+        FixedRocketFactory,
+        SpikeTrapFactory,
+        CoinFactory,
+        SuperCoinFactory,
+        CheckpointFactory,
+    };
+
+    private static readonly definitions: Map<string, ObjectTypeDefinition> = ObjectRegistry.register(ObjectCatalog.getAll());
+
+    /**
+     * Instantiates the factories of the catalog entries and indexes the entries by type.
+     * @param entries The catalog entries to register.
+     */
+    private static register(entries: ObjectTypeInfo[]): Map<string, ObjectTypeDefinition> {
+        const map = new Map<string, ObjectTypeDefinition>();
+        entries.forEach(entry => {
+            map.set(entry.type, { ...entry, factory: new ObjectRegistry.Factories[entry.factory]() });
+        });
+        return map;
+    }
+
+    /**
+     * Returns the definition of an object type, or undefined if the type is unknown.
+     * @param type The object type.
+     */
+    public static get(type: string): ObjectTypeDefinition | undefined {
+        return this.definitions.get(type);
+    }
+
+    /**
+     * Returns the factory of an object type, or undefined if the type is unknown.
+     * @param type The object type.
+     */
+    public static getFactory(type: string): GameObjectFactory | undefined {
+        return this.definitions.get(type)?.factory;
+    }
+
+    /**
+     * Returns a new map from each object type to its factory.
+     */
+    public static createFactoryMap(): Map<string, GameObjectFactory> {
+        const factories = new Map<string, GameObjectFactory>();
+        this.definitions.forEach((definition, type) => factories.set(type, definition.factory));
+        return factories;
+    }
+
+    /**
+     * Returns the definitions of the types placeable in the editor, in palette order.
+     * Only the first ten entries get an input action.
+     */
+    public static getPalette(): ObjectTypeDefinition[] {
+        return Array.from(this.definitions.values()).filter(definition => definition.palette);
+    }
+
+    /**
+     * Returns the input action placing a palette entry ("action_1" ... "action_9", then "action_0").
+     * @param index The index of the entry in the palette.
+     * @returns The action name, or null if the entry has no action.
+     */
+    public static getPaletteAction(index: number): string | null {
+        return index < 10 ? `action_${(index + 1) % 10}` : null;
+    }
+}
@@ -1,67 +1,179 @@
-import { Scene, Vector3, TransformNode, Animation, Mesh, CreateSoundAsync, StaticSound } from "@babylonjs/core";
+import { Scene, Vector3, TransformNode, Animation, Mesh, Color3, CreateSoundAsync, StaticSound, EasingFunction, SineEase, QuadraticEase, CubicEase, BackEase, PhysicsBody, PhysicsMotionType, PhysicsPrestepType, Observer } from "@babylonjs/core";
 
-import { CharacterInput } from "./types";
 import { InputHandler } from "./InputHandler";
+import { LevelSchema, RotationAxis, RotationGroupSettings } from "./LevelSchema";
+import { LevelScope } from "./LevelScope";
 
 /**
- * ParentNode represents a transform node that acts as a parent for other meshes in the scene.
+ * ParentNode represents a transform node that acts as a parent for other meshes in the scene: a rotation group
+ * of the level.
  * 
  * Responsibilities:
- * - Manages a Babylon.js TransformNode to which other meshes can be parented.
- * - Handles animated rotations around the X, Y, or Z axes, with smooth transitions.
- * - Notifies registered observers when a rotation is completed.
- * - Integrates with the InputHandler to allow keyboard-based rotation controls.
+ * - Manages a Babylon.js TransformNode to which other meshes can be parented; its position is the pivot of the rotations.
+ * - Handles animated rotations around its allowed axes (X, Y and/or Z), by its angle step, with time-based eased transitions.
+ * - Queues the rotations requested while one is running (up to a maximum depth) and rejects the others with a sound.
+ * - Waits for a configurable cooldown between two rotations (used in multiplayer to avoid motion sickness),
+ *   counted down at every simulation step of the scene.
+ * - Notifies registered observers when a rotation starts and when it is completed.
+ * - Moves the physics bodies of its children with the rotation, as animated (kinematic) bodies following their mesh
+ *   at every physics step, so that they carry the dynamic bodies touching them (e.g. the player).
  * - Plays a sound effect when a rotation occurs.
  * - Supports serialization for saving/loading its state.
  * - Manages observer registration and removal.
  * 
  * Usage:
- * - Instantiate with a position and scene.
+ * - Instantiate with a position and scene, and optionally the group id, allowed axes and angle step.
  * - Use `addChild` to parent meshes to this node.
- * - Use `rotate` to animate rotation around an axis.
+ * - Use `rotate` to animate rotation around an axis; it returns false if the rotation was rejected.
+ * - Use `configureRotation` to change the duration, easing, cooldown and maximum queue depth.
  * - Register observers to react to rotation changes.
- * - Integrate with InputHandler using `setupKeyActions`.
+ * - Use `addBody` to make the physics body of a child follow the rotations.
+ * - Use a RotationGroupSelector to map the rotation keys to the selected group (see `setupKeyActions`).
  * - Call `dispose` to clean up resources.
  */
 
 /**
  * ParentNodeObserver defines the interface for objects that want to be notified
- * when the ParentNode completes a rotation.
+ * when the ParentNode starts and completes a rotation.
  */
 export interface ParentNodeObserver {
+    onRotationStart: () => void;
     onRotationChange: () => void;
 }
 
+/**
+ * RotationEasing lists the easing curves available for the rotation animation.
+ */
+export type RotationEasing = "linear" | "sine" | "quadratic" | "cubic" | "back";
+
+/**
+ * RotationSettings configures the rotations of a ParentNode.
+ */
+export interface RotationSettings {
+    /** Duration of a rotation (ms). */
+    duration: number;
+    easing: RotationEasing;
+    /** Minimum delay between the end of a rotation and the start of the next one (ms). */
+    cooldown: number;
+    /** Maximum number of rotations waiting while a rotation runs or the cooldown elapses; further requests are rejected. */
+    maxQueue: number;
+}
+
+interface RotationRequest {
+    axis: RotationAxis;
+    angle: number;
+}
+
 export class ParentNode {
     public static readonly Type: string = "parent_node";
+    public static readonly DefaultRotationSettings: RotationSettings = {
+        duration: 500,
+        easing: "sine",
+        cooldown: 0,
+        maxQueue: 1,
+    };
+    /** Frame rate of the rotation animation keys; Babylon.js plays animations according to the elapsed time. */
+    private static readonly AnimationFrameRate: number = 60;
+    /** Default angle of a rotation, in degrees. */
+    public static readonly DefaultAngle: number = 90;
+    /** Duration of the outline shown when the group is selected (ms). */
+    private static readonly HighlightDuration: number = 600;
+    private id: string;
+    private axes: RotationAxis[];
+    private angle: number;
     private node: TransformNode;
     private isAnimating: boolean = false;
     private scene: Scene;
     private observers: ParentNodeObserver[] = [];
-    private readonly rotationConstants: { [key: string]: number } = {
-        x: Math.PI / 2,
-        y: Math.PI / 2,
-        z: Math.PI / 2,
-    };
+    private bodies: PhysicsBody[] = [];
+    private settings: RotationSettings = { ...ParentNode.DefaultRotationSettings };
+    private queue: RotationRequest[] = [];
+    /** Time left before the next rotation can start (ms). */
+    private cooldown: number = 0;
+    private stepObserver: Observer<Scene> | null;
+    /** Number of highlights requested, so that only the last one removes the outline. */
+    private highlights: number = 0;
     private sound: StaticSound;
+    private rejectSound: StaticSound;
 
     /**
      * Constructs a new ParentNode.
-     * @param position The initial position of the node.
+     * @param position The initial position of the node, pivot of the rotations.
      * @param scene The Babylon.js scene.
+     * @param id The id of the rotation group (default: the main group).
+     * @param axes The axes the node can rotate around (default: all).
+     * @param angle The angle of each rotation, in degrees (default: 90).
      */
-    constructor(position: Vector3, scene: Scene) {
+    constructor(position: Vector3, scene: Scene, id: string = LevelSchema.MainGroup,
+                axes: RotationAxis[] = ["x", "y", "z"], angle: number = ParentNode.DefaultAngle) {
         this.scene = scene;
-        this.node = new TransformNode("parent", this.scene);
+        this.id = id;
+        this.axes = axes;
+        this.angle = angle;
+        this.node = new TransformNode(id === LevelSchema.MainGroup ? "parent" : `parent_${id}`, this.scene);
         this.node.position = position;
+        this.stepObserver = LevelScope.of(scene).observe(scene.onBeforeStepObservable,
+            () => this.update(scene.getEngine().getTimeStep()));
         this.createSound();
     }
 
     /**
-     * Asynchronously loads the rotation sound effect.
+     * Returns the id of the rotation group.
+     */
+    public getId(): string {
+        return this.id;
+    }
+
+    /**
+     * Returns the position of the node, pivot of the rotations.
+     */
+    public getPosition(): Vector3 {
+        return this.node.position;
+    }
+
+    /**
+     * Tells whether a mesh is parented to this node.
+     * @param mesh The mesh.
+     */
+    public isParentOf(mesh: Mesh): boolean {
+        return mesh.parent === this.node;
+    }
+
+    /**
+     * Briefly outlines the meshes of the group, e.g. when it is selected.
+     */
+    public highlight() {
+        const meshes = this.node.getChildMeshes();
+        meshes.forEach(mesh => {
+            mesh.renderOutline = true;
+            mesh.outlineColor = Color3.Yellow();
+            mesh.outlineWidth = 0.5;
+        });
+        const highlight = ++this.highlights;
+        LevelScope.of(this.scene).setTimeout(() => {
+            if (highlight === this.highlights) {
+                meshes.forEach(mesh => mesh.renderOutline = false);
+            }
+        }, ParentNode.HighlightDuration);
+    }
+
+    /**
+     * Asynchronously loads the rotation sound effects.
      */
     async createSound() {
         this.sound = await CreateSoundAsync("rotate_sound", "/assets/sounds/rotation.ogg");
+        this.rejectSound = await CreateSoundAsync("rotate_reject_sound", "/assets/sounds/error_004.ogg");
+        // The sounds are not attached to the scene: release them with the level
+        LevelScope.of(this.scene).addSound(this.sound);
+        LevelScope.of(this.scene).addSound(this.rejectSound);
+    }
+
+    /**
+     * Changes the rotation settings. Rotations already running keep their settings.
+     * @param settings The settings to change.
+     */
+    public configureRotation(settings: Partial<RotationSettings>) {
+        this.settings = { ...this.settings, ...settings };
     }
 
     /**
@@ -88,6 +200,36 @@ export class ParentNode {
         this.observers = this.observers.filter(obs => obs !== observer);
     }
 
+    /**
+     * Makes the physics body of a child follow the rotations of the node. The body becomes an animated body,
+     * moved to the transform of its mesh at every physics step while the node rotates; its velocity then
+     * carries the bodies standing on it.
+     * @param body The physics body of a mesh parented to this node.
+     */
+    public addBody(body: PhysicsBody) {
+        body.setMotionType(PhysicsMotionType.ANIMATED);
+        body.setPrestepType(PhysicsPrestepType.DISABLED);
+        // The mesh is moved by the node animation, never by the physics engine
+        body.disableSync = true;
+        this.bodies.push(body);
+    }
+
+    /**
+     * Enables or disables the physics bodies following the node.
+     * When the bodies stop following, their velocity (given by the last move) is reset so that they stay in place.
+     * @param following True while the node rotates.
+     */
+    private setBodiesFollowing(following: boolean) {
+        this.bodies = this.bodies.filter(body => !body.isDisposed);
+        this.bodies.forEach(body => {
+            body.setPrestepType(following ? PhysicsPrestepType.ACTION : PhysicsPrestepType.DISABLED);
+            if (!following) {
+                body.setLinearVelocity(Vector3.Zero());
+                body.setAngularVelocity(Vector3.Zero());
+            }
+        });
+    }
+
     /**
      * Returns the current rotation of the node as a Vector3.
      */
@@ -95,6 +237,15 @@ export class ParentNode {
         return this.node.rotation;
     }
 
+    /**
+     * Notifies all registered observers that a rotation has started.
+     */
+    private notifyRotationStart() {
+        this.observers.forEach(observer => {
+            observer.onRotationStart();
+        });
+    }
+
     /**
      * Notifies all registered observers that a rotation has occurred.
      */
@@ -105,84 +256,202 @@ export class ParentNode {
     }
 
     /**
-     * Animates the rotation of the node around a given axis.
-     * @param axis The axis to rotate around ("x", "y", or "z").
-     * @param angle The angle in radians to rotate.
-     * @param duration The duration of the animation in milliseconds (default: 500).
-     */
-    private animateRotation(axis: "x" | "y" | "z", angle: number, duration: number = 500) {
-        console.log(`Animating rotation around ${axis} by ${angle} radians over ${duration} ms`);
-        if (this.isAnimating) {
-            return; // Prevent starting a new animation while one is already running
+     * Creates the easing function of the rotation animation.
+     * @returns The easing function, or null for a linear animation.
+     */
+    private createEasing(): EasingFunction | null {
+        let easing: EasingFunction;
+        switch (this.settings.easing) {
+            case "sine": easing = new SineEase(); break;
+            case "quadratic": easing = new QuadraticEase(); break;
+            case "cubic": easing = new CubicEase(); break;
+            case "back": easing = new BackEase(0.5); break;
+            default: return null;
         }
+        easing.setEasingMode(EasingFunction.EASINGMODE_EASEINOUT);
+        return easing;
+    }
 
+    /**
+     * Animates the rotation of the node around a given axis.
+     * @param request The axis and the angle in radians to rotate.
+     */
+    private animateRotation(request: RotationRequest) {
+        const { axis, angle } = request;
+        const duration = this.settings.duration;
         this.isAnimating = true;
-
-        const fps = this.scene.getEngine().getFps();
+        this.sound?.play();
+        this.setBodiesFollowing(true);
+        this.notifyRotationStart();
 
         const animation = new Animation(
             `rotate_${axis}`,
             `rotation.${axis}`,
-            fps,
+            ParentNode.AnimationFrameRate,
             Animation.ANIMATIONTYPE_FLOAT,
             Animation.ANIMATIONLOOPMODE_CONSTANT
         );
 
         const currentRotation = this.node.rotation[axis];
-        const keys = [
+        const lastFrame = Math.max(1, duration * ParentNode.AnimationFrameRate / 1000);
+        animation.setKeys([
             { frame: 0, value: currentRotation },
-            { frame: duration / 16.67, value: currentRotation + angle }, // Convert duration to frames
-        ];
-
-        animation.setKeys(keys);
+            { frame: lastFrame, value: currentRotation + angle },
+        ]);
+        animation.setEasingFunction(this.createEasing());
         this.node.animations = [animation];
 
-        this.scene.beginAnimation(this.node, 0, duration / 16.67, false, 1, () => {
+        this.scene.beginAnimation(this.node, 0, lastFrame, false, 1, () => {
             this.isAnimating = false;
+            this.cooldown = this.settings.cooldown;
             this.notifyObservers();
+            this.startNextRotation();
+            if (!this.isAnimating && this.bodies.length > 0) {
+                // Let the bodies reach the final transform before they stop following
+                this.scene.onAfterPhysicsObservable.addOnce(() => {
+                    if (!this.isAnimating) {
+                        this.setBodiesFollowing(false);
+                    }
+                });
+            }
         });
     }
 
     /**
-     * Rotates the node around the specified axis, optionally in the inverted direction.
-     * Plays a sound effect on rotation.
-     * @param axis The axis to rotate ("x", "y", or "z").
-     * @param inverted If true, rotates in the negative direction.
+     * Counts the cooldown down and starts the next queued rotation once it is elapsed.
+     * @param dt The duration of the simulation step (ms).
      */
-    public rotate(axis: "x" | "y" | "z", inverted: boolean = false) {
-        this.animateRotation(axis, inverted ? -this.rotationConstants[axis] : this.rotationConstants[axis]);
-        this.sound.play();
+    private update(dt: number) {
+        if (this.isAnimating || this.cooldown <= 0) {
+            return;
+        }
+        this.cooldown = Math.max(this.cooldown - dt, 0);
+        this.startNextRotation();
     }
 
     /**
-     * Sets up keyboard actions for rotating the node using the InputHandler.
-     * @param inputHandler The InputHandler instance.
+     * Starts the next queued rotation, unless a rotation runs or the cooldown is not elapsed
+     * (the rotation then starts at the step ending the cooldown).
      */
-    public setupKeyActions(inputHandler: InputHandler) {
-        inputHandler.addAction("rotate_left_x", () => this.rotate("x"));
-        inputHandler.addAction("rotate_right_x", () => this.rotate("x", true));
-        inputHandler.addAction("rotate_left_y", () => this.rotate("y"));
-        inputHandler.addAction("rotate_right_y", () => this.rotate("y", true));
-        inputHandler.addAction("rotate_left_z", () => this.rotate("z"));
-        inputHandler.addAction("rotate_right_z", () => this.rotate("z", true));
+    private startNextRotation() {
+        if (this.isAnimating || this.cooldown > 0 || this.queue.length === 0) {
+            return;
+        }
+        this.animateRotation(this.queue.shift());
+    }
+
+    /**
+     * Rotates the node by its angle step around the specified axis, optionally in the inverted direction.
+     * The rotation is queued if another one is running or the cooldown is not elapsed, and rejected
+     * (with a sound) if the axis is not allowed or the queue is full.
+     * @param axis The axis to rotate ("x", "y", or "z").
+     * @param inverted If true, rotates in the negative direction.
+     * @param force If true, the rotation is queued even if the queue is full (e.g. a rotation made by another player).
+     * @returns False if the rotation was rejected.
+     */
+    public rotate(axis: RotationAxis, inverted: boolean = false, force: boolean = false): boolean {
+        const waiting = this.isAnimating || this.queue.length > 0 || this.cooldown > 0;
+        if (!this.axes.includes(axis) || (waiting && !force && this.queue.length >= this.settings.maxQueue)) {
+            this.rejectSound?.play();
+            return false;
+        }
+
+        const angle = this.angle * Math.PI / 180;
+        this.queue.push({ axis, angle: inverted ? -angle : angle });
+        this.startNextRotation();
+        return true;
     }
 
     /**
      * Disposes the node and removes all observers.
      */
     public dispose() {
+        if (this.stepObserver !== null) {
+            this.scene.onBeforeStepObservable.remove(this.stepObserver);
+            this.stepObserver = null;
+        }
+        this.queue = [];
+        this.bodies = [];
         this.node.dispose();
         this.observers.forEach(observer => this.removeObserver(observer));
     }
 
     /**
-     * Serializes the node's position for saving or exporting.
-     * @returns An object containing the node's position.
+     * Serializes the node's position, axes and angle for saving or exporting; the default axes and angle are omitted.
+     * @returns The settings of the rotation group (without its id).
      */
-    public serialize(): any {
-        const data = {
-            position: this.node.position,
+    public serialize(): RotationGroupSettings {
+        const data: RotationGroupSettings = {
+            position: LevelSchema.vec3(this.node.position),
         };
+        if (this.axes.length < 3) {
+            data.axes = this.axes.slice();
+        }
+        if (this.angle !== ParentNode.DefaultAngle) {
+            data.angle = this.angle;
+        }
         return data;
     }
+}
+
+/**
+ * RotationGroupSelector maps the rotation keys to the selected rotation group of a level.
+ * The main group is selected first; the "next_group" key selects the next group and outlines its objects.
+ */
+export class RotationGroupSelector {
+    private groups: ParentNode[];
+    private selected: number = 0;
+
+    /**
+     * Constructs a new RotationGroupSelector.
+     * @param groups The rotation groups of the level, the main group first.
+     */
+    constructor(groups: ParentNode[]) {
+        this.groups = groups;
+    }
+
+    /**
+     * Returns all the rotation groups, the main group first.
+     */
+    public getGroups(): ParentNode[] {
+        return this.groups;
+    }
+
+    /**
+     * Returns the selected rotation group.
+     */
+    public getSelected(): ParentNode {
+        return this.groups[this.selected];
+    }
+
+    /**
+     * Selects the next rotation group (cycling) and outlines its objects.
+     */
+    public selectNext() {
+        if (this.groups.length < 2) return;
+        this.selected = (this.selected + 1) % this.groups.length;
+        this.getSelected().highlight();
+    }
+
+    /**
+     * Sets up keyboard actions for rotating the selected group and selecting the next group using the InputHandler.
+     * @param inputHandler The InputHandler instance.
+     */
+    public setupKeyActions(inputHandler: InputHandler) {
+        inputHandler.addAction("rotate_left_x", () => this.getSelected().rotate("x"));
+        inputHandler.addAction("rotate_right_x", () => this.getSelected().rotate("x", true));
+        inputHandler.addAction("rotate_left_y", () => this.getSelected().rotate("y"));
+        inputHandler.addAction("rotate_right_y", () => this.getSelected().rotate("y", true));
+        inputHandler.addAction("rotate_left_z", () => this.getSelected().rotate("z"));
+        inputHandler.addAction("rotate_right_z", () => this.getSelected().rotate("z", true));
+        inputHandler.addAction("next_group", () => this.selectNext());
+    }
+
+    /**
+     * Disposes all the rotation groups.
+     */
+    public dispose() {
+        this.groups.forEach(group => group.dispose());
+        this.groups = [];
+    }
 }
\ No newline at end of file
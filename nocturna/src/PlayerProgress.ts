@@ -0,0 +1,231 @@
+import { CampaignProgress } from "./Campaign";
+
+/**
+ * PlayerProgress.ts defines the persistent store of the player progress in Nocturna.
+ *
+ * Responsibilities:
+ * - Records, for each level file, whether it was completed, the best time, best score, best number of coins,
+ *   the number of deaths and the date of the first completion.
+ * - Persists the progress in the local storage using a versioned format, migrating older saves on load.
+ * - Exports the progress as JSON and imports a previously exported save.
+ * - Provides the campaign progress used to evaluate unlock rules.
+ *
+ * Usage:
+ * - Use `PlayerProgress.getInstance()` to access the store.
+ * - Call `recordWin(file, run)` when a level is completed and `recordDeath(file)` when the player dies.
+ * - Use `getRecord(file)` to display personal bests.
+ * - Use `export()` / `import(json)` to save or restore the progress as a file.
+ */
+
+/**
+ * LevelRecord holds the progress of the player on a level.
+ * Best values and the completion date are null until a completed run is recorded.
+ */
+export interface LevelRecord {
+    completed: boolean;
+    bestTime: number | null;
+    bestScore: number | null;
+    coins: number;
+    deaths: number;
+    completedAt: string | null;
+}
+
+/**
+ * LevelRun describes a completed run of a level.
+ */
+export interface LevelRun {
+    time: number;
+    score: number;
+    coins: number;
+}
+
+/**
+ * LevelRecordResult is the outcome of recording a run: the updated record and which bests were beaten.
+ * The first completion of a level is not considered a new record.
+ */
+export interface LevelRecordResult {
+    record: LevelRecord;
+    newBestTime: boolean;
+    newBestScore: boolean;
+}
+
+interface ProgressData {
+    version: number;
+    levels: { [file: string]: LevelRecord };
+}
+
+/**
+ * PlayerProgress is the singleton storing the player progress in the local storage.
+ */
+export class PlayerProgress implements CampaignProgress {
+    public static readonly Version: number = 1;
+    private static readonly Key: string = "nocturna.progress";
+    private static instance: PlayerProgress;
+
+    /**
+     * Migrations from a save version to the next one, to add when the format changes.
+     */
+    private static readonly Migrations: { [version: number]: (data: ProgressData) => ProgressData } = {};
+
+    private levels: { [file: string]: LevelRecord } = {};
+
+    private constructor() {
+        try {
+            const saved = localStorage.getItem(PlayerProgress.Key);
+            if (saved) {
+                this.levels = PlayerProgress.parse(saved).levels;
+            }
+        } catch (error) {
+            console.warn("Ignoring corrupted player progress:", error);
+        }
+    }
+
+    /**
+     * Returns the singleton instance of PlayerProgress.
+     */
+    public static getInstance(): PlayerProgress {
+        if (!PlayerProgress.instance) {
+            PlayerProgress.instance = new PlayerProgress();
+        }
+        return PlayerProgress.instance;
+    }
+
+    /**
+     * Parses and migrates a save to the current version.
+     * @param json The serialized save.
+     * @throws Error if the save is invalid or comes from a newer version of the game.
+     */
+    private static parse(json: string): ProgressData {
+        const parsed: unknown = JSON.parse(json);
+        if (!PlayerProgress.isRecord(parsed) || !PlayerProgress.isRecord(parsed.levels)) {
+            throw new Error("Invalid save: missing levels");
+        }
+        if (typeof parsed.version !== "number" || parsed.version < 1) {
+            throw new Error("Invalid save: missing version");
+        }
+        if (parsed.version > PlayerProgress.Version) {
+            throw new Error(`Unsupported save version ${parsed.version} (latest is ${PlayerProgress.Version})`);
+        }
+
+        let data: ProgressData = { version: parsed.version, levels: {} };
+        Object.entries(parsed.levels).forEach(([file, record]) => {
+            if (!PlayerProgress.isLevelRecord(record)) {
+                throw new Error(`Invalid save: bad record for ${file}`);
+            }
+            data.levels[file] = record;
+        });
+        while (data.version < PlayerProgress.Version) {
+            data = PlayerProgress.Migrations[data.version](data);
+        }
+        return data;
+    }
+
+    /**
+     * Checks whether a parsed JSON value is an object (and not an array).
+     * @param value The value.
+     */
+    private static isRecord(value: unknown): value is { [key: string]: unknown } {
+        return typeof value === "object" && value !== null && !Array.isArray(value);
+    }
+
+    /**
+     * Checks whether a parsed JSON value has the shape of a level record.
+     * @param value The value.
+     */
+    private static isLevelRecord(value: unknown): value is LevelRecord {
+        const isNumberOrNull = (field: unknown) => field === null || typeof field === "number";
+        return PlayerProgress.isRecord(value) && typeof value.completed === "boolean"
+            && isNumberOrNull(value.bestTime) && isNumberOrNull(value.bestScore)
+            && typeof value.coins === "number" && typeof value.deaths === "number"
+            && (value.completedAt === null || typeof value.completedAt === "string");
+    }
+
+    /**
+     * Returns the record of a level, or an empty record if the level was never played.
+     * @param file The level file.
+     */
+    public getRecord(file: string): LevelRecord {
+        return this.levels[file] ?? { completed: false, bestTime: null, bestScore: null, coins: 0, deaths: 0, completedAt: null };
+    }
+
+    /**
+     * Checks whether a level was completed.
+     * @param file The level file.
+     */
+    public isCompleted(file: string): boolean {
+        return this.getRecord(file).completed;
+    }
+
+    /**
+     * Returns the total number of coins collected over all levels (best run of each level).
+     */
+    public getTotalCoins(): number {
+        return Object.keys(this.levels).reduce((total, file) => total + this.levels[file].coins, 0);
+    }
+
+    /**
+     * Records a completed run of a level and saves the progress.
+     * @param file The level file.
+     * @param run The time, score and coins of the run.
+     * @returns The updated record and the bests beaten by the run.
+     */
+    public recordWin(file: string, run: LevelRun): LevelRecordResult {
+        const previous = this.getRecord(file);
+        const completed = previous.completed;
+        const newBestTime = previous.bestTime === null || run.time < previous.bestTime;
+        const newBestScore = previous.bestScore === null || run.score > previous.bestScore;
+
+        const record: LevelRecord = {
+            completed: true,
+            bestTime: newBestTime ? run.time : previous.bestTime,
+            bestScore: newBestScore ? run.score : previous.bestScore,
+            coins: Math.max(run.coins, previous.coins),
+            deaths: previous.deaths,
+            completedAt: completed ? previous.completedAt : new Date().toISOString()
+        };
+        this.levels[file] = record;
+        this.save();
+
+        return {
+            record,
+            newBestTime: previous.bestTime !== null && newBestTime,
+            newBestScore: previous.bestScore !== null && newBestScore
+        };
+    }
+
+    /**
+     * Records a death on a level and saves the progress.
+     * @param file The level file.
+     */
+    public recordDeath(file: string): void {
+        const record = this.getRecord(file);
+        this.levels[file] = { ...record, deaths: record.deaths + 1 };
+        this.save();
+    }
+
+    /**
+     * Serializes the progress for an export.
+     * @returns The save as a JSON string.
+     */
+    public export(): string {
+        const data: ProgressData = { version: PlayerProgress.Version, levels: this.levels };
+        return JSON.stringify(data, null, 2);
+    }
+
+    /**
+     * Replaces the progress by an exported save.
+     * @param json The save as a JSON string.
+     * @throws Error if the save is invalid; the current progress is then kept.
+     */
+    public import(json: string): void {
+        this.levels = PlayerProgress.parse(json).levels;
+        this.save();
+    }
+
+    /**
+     * Writes the progress to the local storage.
+     */
+    private save(): void {
+        localStorage.setItem(PlayerProgress.Key, this.export());
+    }
+}
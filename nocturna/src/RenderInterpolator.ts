@@ -0,0 +1,87 @@
+import { PhysicsEngineV2, PhysicsMotionType, Quaternion, Scene, TransformNode, Vector3 } from "@babylonjs/core";
+
+/**
+ * RenderInterpolator.ts defines the RenderInterpolator class, which smooths the rendering of the physics bodies
+ * between two fixed simulation steps.
+ *
+ * Responsibilities:
+ * - Records the transform of the dynamic bodies (player, rockets, ...) before each simulation step.
+ * - Before a frame is rendered, moves them between their previous and current transforms according to the time
+ *   elapsed since the last step, then puts them back once the frame is rendered, so the game logic and the physics
+ *   never see the interpolated transforms.
+ *
+ * Usage:
+ * - Call `capture(scene)` before each simulation step (see `BaseScene.simulate`).
+ * - Call `apply(alpha)` before rendering and `restore()` after it (see `BaseScene.renderFrame`).
+ */
+
+/**
+ * NodeTransform is the transform of a node at a given time.
+ */
+interface NodeTransform {
+    node: TransformNode;
+    position: Vector3;
+    rotation: Quaternion | null;
+}
+
+/**
+ * RenderInterpolator interpolates the transforms of the dynamic bodies between two simulation steps.
+ */
+export class RenderInterpolator {
+    private previous: NodeTransform[] = [];
+    private current: NodeTransform[] = [];
+
+    /**
+     * Records the transforms of the dynamic bodies of the scene, before a simulation step.
+     * @param scene The Babylon.js scene.
+     */
+    public capture(scene: Scene) {
+        const physicsEngine = scene.getPhysicsEngine() as PhysicsEngineV2 | null;
+        const bodies = physicsEngine?.getBodies() ?? [];
+        this.previous = bodies
+            .filter(body => body.getMotionType() === PhysicsMotionType.DYNAMIC && !body.transformNode.isDisposed())
+            .map(body => RenderInterpolator.transformOf(body.transformNode));
+    }
+
+    /**
+     * Moves the dynamic bodies between their transforms before and after the last simulation step.
+     * @param alpha The fraction of a step elapsed since the last step (0 renders the previous transforms).
+     */
+    public apply(alpha: number) {
+        this.current = [];
+        this.previous.forEach(previous => {
+            const node = previous.node;
+            if (node.isDisposed()) {
+                return;
+            }
+            const current = RenderInterpolator.transformOf(node);
+            this.current.push(current);
+            // The interpolation goes from the previous step to the current one, lagging a step behind the simulation
+            Vector3.LerpToRef(previous.position, current.position, alpha, node.position);
+            if (previous.rotation && current.rotation) {
+                Quaternion.SlerpToRef(previous.rotation, current.rotation, alpha, node.rotationQuaternion);
+            }
+        });
+    }
+
+    /**
+     * Puts the dynamic bodies back to their current transforms, after the frame is rendered.
+     */
+    public restore() {
+        this.current.forEach(({ node, position, rotation }) => {
+            node.position.copyFrom(position);
+            if (rotation) {
+                node.rotationQuaternion.copyFrom(rotation);
+            }
+        });
+        this.current = [];
+    }
+
+    private static transformOf(node: TransformNode): NodeTransform {
+        return {
+            node: node,
+            position: node.position.clone(),
+            rotation: node.rotationQuaternion?.clone() ?? null,
+        };
+    }
+}
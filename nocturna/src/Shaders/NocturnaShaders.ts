@@ -2,7 +2,8 @@ import { ShaderMaterial } from "@babylonjs/core";
 
 /**
  * NocturnaShaders provides utility functions to create custom ShaderMaterial instances
- * for special effects in Nocturna, such as the evil portal and lava.
+ * for special effects in Nocturna, such as the evil portal, the face hazards (lava, acid, bounce, tar, safe floor),
+ * the faces of the themes and the sky.
  * 
  * Each function returns a Babylon.js ShaderMaterial configured with the required attributes
  * and uniforms, and initializes the "time" uniform to 0.
@@ -36,4 +37,82 @@ export function createLavaMaterial(scene) {
 
     shaderMaterial.setFloat("time", 0);
     return shaderMaterial;
-}
\ No newline at end of file
+}
+/**
+ * Creates a ShaderMaterial for a face hazard, using the lava vertex shader and the given fragment shader.
+ * @param name - The name of the material.
+ * @param scene - The Babylon.js scene to attach the material to.
+ * @param fragment - The base name of the fragment shader in /shaders.
+ * @returns The configured ShaderMaterial.
+ */
+function createFaceMaterial(name, scene, fragment) {
+    const shaderMaterial = new ShaderMaterial(name, scene, { vertex: "/shaders/lava", fragment: "/shaders/" + fragment }, {
+        attributes: ["position", "normal", "uv"],
+        uniforms: ["worldViewProjection", "time"],
+    });
+
+    shaderMaterial.setFloat("time", 0);
+    return shaderMaterial;
+}
+
+/**
+ * Creates and returns a ShaderMaterial for the "acid" effect (damage-over-time faces).
+ * @param scene - The Babylon.js scene to attach the material to.
+ * @returns The configured ShaderMaterial for the acid.
+ */
+export function createAcidMaterial(scene) {
+    return createFaceMaterial("acidMaterial", scene, "acid");
+}
+
+/**
+ * Creates and returns a ShaderMaterial for the "bounce" effect (faces pushing the player away).
+ * @param scene - The Babylon.js scene to attach the material to.
+ * @returns The configured ShaderMaterial for the bounce faces.
+ */
+export function createBounceMaterial(scene) {
+    return createFaceMaterial("bounceMaterial", scene, "bounce");
+}
+
+/**
+ * Creates and returns a ShaderMaterial for the "tar" effect (sticky faces).
+ * @param scene - The Babylon.js scene to attach the material to.
+ * @returns The configured ShaderMaterial for the tar.
+ */
+export function createTarMaterial(scene) {
+    return createFaceMaterial("tarMaterial", scene, "tar");
+}
+
+/**
+ * Creates and returns a ShaderMaterial for the "safe floor" effect (faces the player can stand on).
+ * @param scene - The Babylon.js scene to attach the material to.
+ * @returns The configured ShaderMaterial for the safe floors.
+ */
+export function createSafeFloorMaterial(scene) {
+    return createFaceMaterial("safeFloorMaterial", scene, "safeFloor");
+}
+
+/**
+ * Creates and returns a ShaderMaterial for the faces of a theme (e.g. "dream"), using the lava vertex shader.
+ * @param scene - The Babylon.js scene to attach the material to.
+ * @param shader - The base name of the fragment shader in /shaders.
+ * @returns The configured ShaderMaterial for the faces.
+ */
+export function createThemeFaceMaterial(scene, shader) {
+    return createFaceMaterial(shader + "Material", scene, shader);
+}
+
+/**
+ * Creates and returns a ShaderMaterial for the sky: a vertical gradient between the "topColor"
+ * and "bottomColor" uniforms.
+ * @param scene - The Babylon.js scene to attach the material to.
+ * @returns The configured ShaderMaterial for the sky.
+ */
+export function createSkyMaterial(scene) {
+    const shaderMaterial = new ShaderMaterial("skyMaterial", scene, "/shaders/sky", {
+        attributes: ["position"],
+        uniforms: ["worldViewProjection", "time", "topColor", "bottomColor"],
+    });
+
+    shaderMaterial.setFloat("time", 0);
+    return shaderMaterial;
+}
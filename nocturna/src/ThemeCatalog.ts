@@ -0,0 +1,85 @@
+import type { ThemeData, ThemeSettings } from "./LevelSchema";
+
+/**
+ * ThemeCatalog.ts describes the built-in environment themes of Nocturna.
+ *
+ * Responsibilities:
+ * - Declares, for each built-in theme, the look of the faces of the cube, the light rig, the fog, the skybox
+ *   and the ambient particles.
+ * - Resolves the `theme` block of a level: its settings override the built-in theme they are based on.
+ * - Does not depend on Babylon.js so the level tools can validate themes under Node.
+ *
+ * Usage:
+ * - Use `ThemeCatalog.resolve(theme)` to get the complete settings of a level theme, and
+ *   `ThemeCatalog.getNames()` to list the built-in themes.
+ * - The Environment builds the settings in the scene.
+ */
+export class ThemeCatalog {
+    /** Theme of the levels without `theme` block: the original look of the game. */
+    public static readonly DefaultTheme: string = "classic";
+
+    /** Built-in themes, by name. */
+    private static readonly Themes: { [name: string]: ThemeSettings } = {
+        classic: {
+            faces: { color: "#1a1a1a", texture: "", shader: "" },
+            light: { color: "#ffffff", groundColor: "#333333", intensity: 0.8, direction: { x: 0, y: 1, z: 0 }, glow: 0 },
+            fog: { color: "#000000", density: 0 },
+            skybox: { topColor: "#33334d", bottomColor: "#33334d" },
+            particles: { effect: "none", color: "#ffffff", count: 0 },
+        },
+        // The "decomposed dream": drifting pastel walls, violet haze and floating dream dust
+        dream: {
+            faces: { color: "#2a1f3d", texture: "", shader: "dream" },
+            light: { color: "#e6d9ff", groundColor: "#3d2b5c", intensity: 0.7, direction: { x: 0.3, y: 1, z: -0.2 }, glow: 0.4 },
+            fog: { color: "#1f1433", density: 0.0006 },
+            skybox: { topColor: "#4a3375", bottomColor: "#0d0a1a" },
+            particles: { effect: "dust", color: "#f2e6ff", count: 400 },
+        },
+        nightmare: {
+            faces: { color: "#2b0a0a", texture: "", shader: "" },
+            light: { color: "#ff9980", groundColor: "#330000", intensity: 0.6, direction: { x: 0, y: -1, z: 0 }, glow: 0.6 },
+            fog: { color: "#260505", density: 0.0009 },
+            skybox: { topColor: "#1a0000", bottomColor: "#661400" },
+            particles: { effect: "embers", color: "#ff6619", count: 300 },
+        },
+        frost: {
+            faces: { color: "#8fa8bf", texture: "", shader: "" },
+            light: { color: "#e6f2ff", groundColor: "#405973", intensity: 0.9, direction: { x: -0.2, y: 1, z: 0.3 }, glow: 0 },
+            fog: { color: "#bfd9f2", density: 0.0004 },
+            skybox: { topColor: "#d9ecff", bottomColor: "#6685a6" },
+            particles: { effect: "snow", color: "#ffffff", count: 600 },
+        },
+    };
+
+    /**
+     * Returns the names of the built-in themes.
+     */
+    public static getNames(): string[] {
+        return Object.keys(this.Themes);
+    }
+
+    /**
+     * Returns a copy of a built-in theme, or undefined if the name is unknown.
+     * @param name The name of the theme.
+     */
+    public static get(name: string): ThemeSettings | undefined {
+        const theme = this.Themes[name];
+        return theme ? JSON.parse(JSON.stringify(theme)) : undefined;
+    }
+
+    /**
+     * Completes the theme of a level with the built-in theme it is based on.
+     * @param theme The `theme` block of the level, if any (assumed valid).
+     * @returns The complete settings.
+     */
+    public static resolve(theme?: ThemeData): ThemeSettings {
+        const base = this.get(theme?.base ?? this.DefaultTheme);
+        return {
+            faces: { ...base.faces, ...theme?.faces },
+            light: { ...base.light, ...theme?.light },
+            fog: { ...base.fog, ...theme?.fog },
+            skybox: { ...base.skybox, ...theme?.skybox },
+            particles: { ...base.particles, ...theme?.particles },
+        };
+    }
+}
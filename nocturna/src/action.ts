@@ -112,11 +112,13 @@ export namespace Action {
         }
 
         /**
-         * Executes the rotation action and sends a network update.
+         * Executes the rotation action and sends a network update, unless the rotation was rejected (cooldown).
          */
         public execute(): void {
             const parent = this.scene.getParent();
-            parent.rotate(this.axis);            
+            if (!parent.rotate(this.axis)) {
+                return;
+            }
 
             const network = NetworkManager.getInstance();
             network.sendUpdate("rotate", {
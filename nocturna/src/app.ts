@@ -1,25 +1,40 @@
 import "@babylonjs/core/Debug/debugLayer";
 import "@babylonjs/inspector";
 import { Engine } from "@babylonjs/core";
-import { BaseScene } from "./scene/BaseScene";
+import { BaseScene, SceneNavigator } from "./scene/BaseScene";
 import { SceneFactory } from "./scene/SceneFactory";
 import { InputHandler } from "./InputHandler";
 import { NocturnaAudio } from "./NocturnaAudio";
 import { CookieManager } from "./utils/CookieManager";
-
-export class App {
+import { PlayerProgress } from "./PlayerProgress";
+import { Translation } from "./utils/translation";
+import { FixedStepLoop } from "./FixedStepLoop";
+import { LevelCode } from "./LevelCode";
+import { LevelSchema } from "./LevelSchema";
+
+/**
+ * App is the entry point of Nocturna: it wires the main menu (mode selection, graphics, audio and save settings)
+ * and manages the scenes.
+ *
+ * Scene management:
+ * - `start(mode)` creates the canvas, the engine and the scene of a mode (see SceneFactory), and runs the game loop.
+ * - A page opened with a shared level link (`#level=` fragment, see LevelCode) starts the singleplayer mode on it.
+ * - `showMainMenu()` disposes the current scene, its engine and canvas, and shows the mode selection again,
+ *   without reloading the page: the audio engine and the connection to the multiplayer server stay alive.
+ * - The scenes go back to the menu with `BaseScene.quitToMenu()`, or with the "menu" key (Escape) once the player
+ *   confirms it (`BaseScene.confirmQuitToMenu()`).
+ */
+export class App implements SceneNavigator {
     public static selectedGraphics: string = "low";
-    private engine: Engine;
-    private scene: BaseScene;
+    private engine: Engine = null;
+    private scene: BaseScene = null;
     private canvas: HTMLCanvasElement;
     private inputHandler: InputHandler;
-    private lastUpdateTime: number = 0;
-    public static readonly FPS_LIMIT: number = 120;
-    public static readonly FPS_LIMIT_MS: number = 1000 / App.FPS_LIMIT;
 
     constructor() {
         App.selectedGraphics = CookieManager.get("graphics") || "low";
         this.inputHandler = InputHandler.getInstance();
+        BaseScene.setNavigator(this);
         document.addEventListener('DOMContentLoaded', () => {
             const cards: NodeListOf<HTMLElement> = document.querySelectorAll('.mode-card');
             const startButton: HTMLElement | null = document.getElementById('start-game');
@@ -52,14 +67,11 @@ export class App {
             startButton.addEventListener('click', () => {
                 if (selectedMode) {
                     console.log(`Starting ${selectedMode} mode`);
-                    //delete the div with id "game-mode-selection"
-                    const gameModeSelectionDiv: HTMLElement | null = document.getElementById('game-mode-selection');
-                    if (gameModeSelectionDiv) {
-                        gameModeSelectionDiv.remove();
-                    }
                     this.start(selectedMode);
                 }
             });
+
+            this.openSharedLevel();
         });
 
         const buttons = document.querySelectorAll<HTMLButtonElement>('.graphics-btn');
@@ -86,6 +98,7 @@ export class App {
         });
 
         this.setupAudioUI();
+        this.setupSaveUI();
 
         NocturnaAudio.getInstance().then(audio => {
             // get slider volume value
@@ -98,6 +111,40 @@ export class App {
         });
     }
 
+    setupSaveUI() {
+        const exportButton = document.getElementById("export-save-button");
+        const importButton = document.getElementById("import-save-button");
+        const importInput = document.getElementById("import-save-input") as HTMLInputElement;
+        const status = document.getElementById("save-status");
+
+        if (exportButton && importButton && importInput && status) {
+            // Download the progress as a JSON file
+            exportButton.addEventListener("click", () => {
+                const blob = new Blob([PlayerProgress.getInstance().export()], { type: "application/json" });
+                const link = document.createElement("a");
+                link.href = URL.createObjectURL(blob);
+                link.download = "nocturna-save.json";
+                link.click();
+                URL.revokeObjectURL(link.href);
+            });
+
+            // Replace the progress by the selected file
+            importButton.addEventListener("click", () => importInput.click());
+            importInput.addEventListener("change", async () => {
+                const file = importInput.files?.[0];
+                if (!file) return;
+                try {
+                    PlayerProgress.getInstance().import(await file.text());
+                    status.textContent = Translation.getTranslation("setting.import-done");
+                } catch (error) {
+                    console.error("Failed to import save:", error);
+                    status.textContent = Translation.getTranslation("setting.import-failed");
+                }
+                importInput.value = "";
+            });
+        }
+    }
+
     setupAudioUI() {
         const audioControl = document.getElementById("audio-control");
         const audioIcon = document.getElementById("audio-icon") as HTMLImageElement;
@@ -198,7 +245,42 @@ export class App {
         }
     }
 
-    async start(mode) {
+    /**
+     * Starts the singleplayer mode on the level of the `#level=` URL fragment, if any. The fragment is removed from
+     * the URL once the level is known to be valid; an invalid level is reported and the main menu stays open.
+     */
+    async openSharedLevel() {
+        const hash = window.location.hash;
+        if (LevelCode.extract(hash) === null) {
+            return;
+        }
+        try {
+            const level = await LevelCode.decode(hash);
+            const errors = LevelSchema.check(level);
+            if (errors.length > 0) {
+                throw new Error(`Invalid level data: ${errors[0]}`);
+            }
+            history.replaceState(null, "", window.location.pathname + window.location.search);
+            await this.start("singleplayer", level);
+        } catch (error) {
+            console.error("Failed to open the shared level:", error);
+            window.alert(`${Translation.getTranslation("level.shared-invalid")}\n${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Starts a mode.
+     * @param mode The name of the mode (see SceneFactory).
+     * @param level Level data to play right away in the singleplayer mode (e.g. from a shared link).
+     */
+    async start(mode, level?: unknown) {
+        if (this.engine) {
+            console.warn("A scene is already running");
+            return;
+        }
+        // hide the mode selection, shown again when going back to the menu
+        document.getElementById("game-mode-selection")?.classList.add("hidden");
+
         // create the canvas html element and attach it to the webpage
         this.canvas = document.createElement("canvas");
         this.canvas.width = window.innerWidth;
@@ -210,27 +292,51 @@ export class App {
         document.body.appendChild(this.canvas);
 
         // initialize babylon scene and engine
-        this.engine = new Engine(this.canvas, true);
-        this.scene = await SceneFactory.createScene(mode, this.engine, this.inputHandler);
-        // if scene is tutorial call initUI
+        const engine = new Engine(this.canvas, true, FixedStepLoop.engineOptions());
+        this.engine = engine;
+        const scene = await SceneFactory.createScene(mode, engine, this.inputHandler, level);
+        if (this.engine !== engine) {
+            // back to the menu while the scene was being created
+            scene.dispose();
+            return;
+        }
+        this.scene = scene;
+        this.inputHandler.addAction("menu", () => this.scene.confirmQuitToMenu());
         this.gameLoop();
     }
 
+    /**
+     * Disposes the current scene, its engine and canvas, and shows the mode selection again.
+     */
+    showMainMenu() {
+        if (!this.engine) {
+            return;
+        }
+        this.engine.stopRenderLoop();
+        this.inputHandler.removeAllActions();
+        this.inputHandler.onResume();
+
+        this.scene?.dispose();
+        this.scene = null;
+        this.engine.dispose();
+        this.engine = null;
+        this.canvas.remove();
+        this.canvas = null;
+        document.body.style.overflow = "";
+        document.getElementById("fps").innerHTML = "0";
+        document.getElementById("game-mode-selection")?.classList.remove("hidden");
+
+        NocturnaAudio.getInstance().then(audio => {
+            audio.setBackgroundMusic("assets/music/lobby.mp3", 0.1);
+        });
+    }
+
     gameLoop() {
         const divFps = document.getElementById("fps");
-        this.lastUpdateTime = performance.now();
 
-        // run the main render loop
+        // run the main render loop: the game is simulated at a fixed rate, whatever the refresh rate
         this.engine.runRenderLoop(() => {
-            const currentTime = performance.now();
-            const deltaTime = currentTime - this.lastUpdateTime;
-            if (deltaTime < App.FPS_LIMIT_MS) {
-                return; // Skip rendering if the frame is too fast
-            }
-            this.lastUpdateTime = currentTime;
-            
-            this.scene.update(this.engine.getDeltaTime());
-            this.scene.render();
+            this.scene.renderFrame();
             
             divFps.innerHTML = this.engine.getFps().toFixed() + " fps";
         });
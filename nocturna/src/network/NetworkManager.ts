@@ -21,6 +21,7 @@ export interface NetworkObserver {
  * - Room creation, joining, and participant management.
  * - Peer-to-peer connection setup using WebRTC (offers, answers, ICE candidates).
  * - Sending and receiving game updates between participants.
+ * - Leaving a room while keeping the WebSocket connection open for the next game.
  * - Notifying observers of network events.
  * 
  * Implements the singleton pattern: use NetworkManager.getInstance() to get the instance.
@@ -145,18 +146,35 @@ export class NetworkManager implements RTCSignaling, RemoteParticipantObserver {
         this.socket.send(JSON.stringify(data));
     }
 
+    /**
+     * Leaves the current room: closes the peer connections and tells the signaling server,
+     * the WebSocket connection staying open to create or join another room.
+     * The observer is removed, since the scene observing the room is being left.
+     */
+    public leaveRoom(): void {
+        this.remoteParticipant.forEach((participant) => participant.close());
+        this.remoteParticipant = [];
+        this.observers = null;
+
+        if (this.roomId && this.socket && this.isConnected) {
+            this.socket.send(JSON.stringify({ cmd: NetworkManager.LEAVE_CMD }));
+        }
+        this.roomId = null;
+        this.id = null;
+    }
+
     /**
      * Handles the response when joining a room.
      * @param msg - The join message data.
      */
     private handleJoined(msg: any): void {
         if(msg.error) {
-            this.observers.onRoomJoinFailed(msg.error);
+            this.observers?.onRoomJoinFailed(msg.error);
             return;
         }
         const data = msg.data;
 
-        this.observers.onRoomJoined(this.roomId, this.id, data.participants);
+        this.observers?.onRoomJoined(this.roomId, this.id, data.participants);
         
         data.participants.forEach((participant: string) => {
             if (participant !== this.id) {
@@ -180,26 +198,29 @@ export class NetworkManager implements RTCSignaling, RemoteParticipantObserver {
         if (cmd === NetworkManager.NEW_PARTICIPANT_CMD) {
             const participant = new RemoteParticipant(data.id, this, this);
             this.remoteParticipant.push(participant);
-            this.observers.onParticipantJoined(data.id);
+            this.observers?.onParticipantJoined(data.id);
         }
         else if (cmd === NetworkManager.LEFT_PARTICIPANT_CMD) {
             const participant = this.remoteParticipant.find((p) => p.id === data.id);
             if (participant) {
                 this.remoteParticipant = this.remoteParticipant.filter((p) => p.id !== data.id);
-                this.observers.onParticipantLeft(data.id);
+                this.observers?.onParticipantLeft(data.id);
             }
         }
         else if (cmd === NetworkManager.CREATE_CMD) {
             if (data.error) {
-                this.observers.onRoomCreationFailed(data.error);
+                this.observers?.onRoomCreationFailed(data.error);
             } else {
                 this.roomId = data.data.id;
-                this.observers.onRoomCreated(this.roomId);
+                this.observers?.onRoomCreated(this.roomId);
             }
         }
         else if (cmd === NetworkManager.JOIN_CMD) {
             this.handleJoined(data);
         }
+        else if (cmd === NetworkManager.LEAVE_CMD) {
+            if (data.error) console.warn("Failed to leave the room:", data.error);
+        }
         else if (cmd === NetworkManager.CALL_CMD) {
             const participant = this.remoteParticipant.find((p) => p.id === data.remoteId);
             console.log("CALL_CMD", participant, this.remoteParticipant);
@@ -285,7 +306,7 @@ export class NetworkManager implements RTCSignaling, RemoteParticipantObserver {
      * @param remoteId - The remote participant's ID.
      */
     public onDataChannelOpened(remoteId: string): void {
-        this.observers.onConnectionEstablished(remoteId);
+        this.observers?.onConnectionEstablished(remoteId);
     }
 
     /**
@@ -305,6 +326,6 @@ export class NetworkManager implements RTCSignaling, RemoteParticipantObserver {
      * @param data - The data payload.
      */
     public onUpdate(id: string, action: string, data: any): void {
-        this.observers.onPeerMessage(id, action, data);
+        this.observers?.onPeerMessage(id, action, data);
     }
 }
\ No newline at end of file
@@ -163,6 +163,16 @@ export class RemoteParticipant {
         this.observer.onUpdate(this.id, data.action, data.data);
     }
 
+    /**
+     * Closes the data channel and the peer connection with the remote participant.
+     */
+    public close(): void {
+        this.dataChannel?.close();
+        this.pc?.close();
+        this.dataChannel = null;
+        this.pc = null;
+    }
+
     /**
      * Sends a message to the remote participant via the data channel.
      * @param id - The sender's ID.
@@ -1,7 +1,19 @@
 import { Engine, Scene, HavokPlugin, Vector3 } from "@babylonjs/core";
 import { InputHandler } from "../InputHandler";
 import HavokPhysics from "@babylonjs/havok";
-import { App } from "../app";
+import { LevelSchema, Vec3Data } from "../LevelSchema";
+import { FixedStepLoop } from "../FixedStepLoop";
+import { RenderInterpolator } from "../RenderInterpolator";
+import { LevelScope } from "../LevelScope";
+import { Translation } from "../utils/translation";
+
+/**
+ * SceneNavigator switches between the scenes of the game at runtime (implemented by the App).
+ */
+export interface SceneNavigator {
+    /** Disposes the current scene and shows the main menu again. */
+    showMainMenu(): void;
+}
 
 /**
  * Abstract base class for all game scenes in Nocturna.
@@ -10,9 +22,17 @@ import { App } from "../app";
  * and input management. Provides utility methods for restarting the scene, 
  * enabling the debug layer, and rendering.
  * 
- * Subclasses must implement the `update` method for per-frame logic.
+ * Subclasses must implement the `update` method for the game logic, called by Babylon.js at each step of its
+ * deterministic lockstep (see FixedStepLoop). The animations and the physics only advance after the steps
+ * whose update called `simulate()` (e.g. not while the game is paused), and rendering never advances them.
+ *
+ * Scenes leave with `quitToMenu()`: the navigator then calls `dispose()`, which subclasses override to also
+ * release what lives outside the Babylon.js scene (DOM HUDs, network room...).
  */
 export abstract class BaseScene {
+    /** Switches the scenes; set once by the App. */
+    private static navigator: SceneNavigator | null = null;
+
     /** The Babylon.js scene instance. */
     protected scene: Scene;
     /** The Babylon.js engine instance. */
@@ -23,6 +43,12 @@ export abstract class BaseScene {
     private havokInstance: any;
     /** Havok physics plugin for Babylon.js (internal use). */
     private hk: HavokPlugin;
+    /** Smooths the rendering of the physics bodies between two simulation steps. */
+    private interpolator: RenderInterpolator = new RenderInterpolator();
+    /** Mirrors the time the scene accumulated for its next steps, to interpolate the rendering. */
+    private loop: FixedStepLoop = new FixedStepLoop();
+    /** Whether the current step advances the animations and the physics (see `simulate`). */
+    private simulating: boolean = false;
 
     /**
      * Constructs a new BaseScene.
@@ -31,22 +57,102 @@ export abstract class BaseScene {
      */
     constructor(engine: any, inputHandler: InputHandler) {
         this.inputHandler = inputHandler;
-        this.scene = new Scene(engine);
         this.engine = engine;
+        this.scene = this.createScene();
+    }
+
+    /**
+     * Creates the Babylon.js scene, its steps running the game logic. Subclasses replacing their scene
+     * (e.g. for a new level) create it here.
+     * @returns The new scene.
+     */
+    protected createScene(): Scene {
+        const scene = new Scene(this.engine);
+        this.loop.reset();
+        scene.onBeforeStepObservable.add(() => this.step());
+        return scene;
+    }
+
+    /**
+     * Runs the game logic for one step of the scene, before Babylon.js advances its animations and physics,
+     * which it only does if the update called `simulate`.
+     */
+    private step() {
+        this.loop.onStep();
+        this.simulating = false;
+        this.update(this.engine.getTimeStep());
+        this.scene.animationsEnabled = this.simulating;
+        this.scene.physicsEnabled = this.simulating;
+    }
+
+    /**
+     * Sets the navigator used by the scenes to leave to the main menu.
+     * @param navigator - The navigator (the App).
+     */
+    public static setNavigator(navigator: SceneNavigator) {
+        BaseScene.navigator = navigator;
+    }
+
+    /**
+     * Leaves the scene and goes back to the main menu, without reloading the page.
+     */
+    public quitToMenu() {
+        BaseScene.navigator?.showMainMenu();
+    }
+
+    /**
+     * Goes back to the main menu once the player confirms it (the "menu" key), since the level in progress
+     * (or the level edited and not saved) is lost, and Escape also leaves the fullscreen and the pointer lock.
+     */
+    public confirmQuitToMenu() {
+        const confirmed = window.confirm(Translation.getTranslation("menu.confirm"));
+        // The dialog received the keyup events of the keys held when it opened
+        this.inputHandler.releaseKeys();
+        if (confirmed) {
+            this.quitToMenu();
+        }
     }
 
     /**
      * Abstract update method to be implemented by subclasses.
-     * Called every frame with the time delta.
-     * @param dt - Time delta since last frame (in seconds).
+     * Called at each simulation step with the fixed step duration.
+     * @param dt - Duration of the step (in milliseconds, see `FixedStepLoop.StepMs`).
      */
     public abstract update(dt: number): void;
 
     /**
-     * Renders the current scene.
+     * Renders the current scene, without advancing it.
      */
     public render() {
-        this.scene.render();
+        this.renderWorld();
+    }
+
+    /**
+     * Runs the simulation steps covering the time elapsed since the previous frame, then renders the frame,
+     * the physics bodies being interpolated between the last two steps.
+     */
+    public renderFrame() {
+        this.loop.beginFrame(this.engine.getDeltaTime());
+        this.scene.animate();
+        this.interpolator.apply(this.loop.alpha());
+        this.render();
+        this.interpolator.restore();
+    }
+
+    /**
+     * Renders the Babylon.js scene without advancing its animations and physics, which only advance in its steps.
+     */
+    public renderWorld() {
+        this.scene.render(true, true);
+    }
+
+    /**
+     * Lets the animations and the physics of the scene advance by the current simulation step, once the update
+     * of the step returns.
+     */
+    protected simulate() {
+        this.interpolator.capture(this.scene);
+        this.simulating = true;
     }
 
     /**
@@ -66,29 +172,63 @@ export abstract class BaseScene {
      * Restarts the scene by disposing and recreating it.
      */
     public restart() {
+        this.disposeScene();
+        this.scene = this.createScene();
+    }
+
+    /**
+     * Disposes the Babylon.js scene, which tears down the resources of its level (see LevelScope),
+     * and logs the resources that survived the previous teardowns.
+     */
+    public disposeScene() {
         this.scene.dispose();
-        this.scene = new Scene(this.scene.getEngine());
+        const leaks = LevelScope.report();
+        if (leaks.length > 0) {
+            console.warn(`${leaks.length} resource(s) survived a level teardown:\n- ${leaks.join("\n- ")}`);
+        }
+    }
+
+    /**
+     * Disposes the scene for good, when switching to another scene. Subclasses release here what they own
+     * outside the Babylon.js scene (DOM HUDs, sounds, network room) before calling `super.dispose()`.
+     */
+    public dispose() {
+        this.disposeScene();
     }
 
     /**
      * Initializes Havok physics for the scene with high gravity and a fixed timestep.
      * Should be called asynchronously.
+     * @param gravity - The gravity vector (defaults to the level format default).
      */
-    protected async addPhysic() {
+    protected async addPhysic(gravity: Vec3Data = LevelSchema.DefaultMeta.gravity) {
         console.log("Adding physics to the scene");
         this.havokInstance = await this.getInitializedHavok();
         if (!this.havokInstance) {
             console.error("Failed to initialize Havok Physics");
             return;
         }
-        // Initialize the physics plugin with higher gravity
+        // Initialize the physics plugin with higher gravity, stepped by the scene with the fixed step
         this.hk = new HavokPlugin(true, this.havokInstance);
-        this.scene.enablePhysics(new Vector3(0, -1000, 0), this.hk);
-        this.scene.getPhysicsEngine().setTimeStep(1 / App.FPS_LIMIT);
+        this.scene.enablePhysics(new Vector3(gravity.x, gravity.y, gravity.z), this.hk);
+        this.scene.getPhysicsEngine().setTimeStep(FixedStepLoop.StepMs / 1000);
 
         console.log("Physics added to the scene");
     }
 
+    /**
+     * Changes the gravity of the physics engine (e.g. from the level metadata).
+     * @param gravity - The new gravity vector.
+     */
+    protected setGravity(gravity: Vec3Data) {
+        const physicsEngine = this.scene.getPhysicsEngine();
+        if (!physicsEngine) {
+            console.warn("Cannot set gravity: physics is not enabled");
+            return;
+        }
+        physicsEngine.setGravity(new Vector3(gravity.x, gravity.y, gravity.z));
+    }
+
     /**
      * Loads and initializes the Havok WASM module.
      * @returns The initialized Havok instance.
@@ -1,32 +1,54 @@
 import { Engine, Vector3, FreeCamera, Mesh, Scene, AssetsManager, StaticSound, CreateSoundAsync } from "@babylonjs/core";
 
-import { BaseScene } from "./BaseScene";import { ParentNode } from "../ParentNode";
+import { BaseScene } from "./BaseScene";import { ParentNode, RotationGroupSelector } from "../ParentNode";
 import { Cube } from "../Cube";
 import { CharacterInput, AbstractState, EditorObject, GameObjectFactory, Utils } from "../types";
+import { ObjectRegistry } from "../ObjectRegistry";
 import { InputHandler } from "../InputHandler";
 import { Player } from "../GameObjects/Player";
-import { LevelLoader, LevelLoaderObserver } from "../LevelLoader";
+import { LevelLoader, LevelLoaderObserver, LevelLoadFailureReason } from "../LevelLoader";
 import { createHUDEditor, IHUDEditor, IHUDEditorListener } from "../HUD/EditorHUD";
+import { createLoadingHUD, ILoadingHUD, ILoadingHUDListener } from "../HUD/LoadingHUD";
 import { EditorState, AdditionState, MoveState, RotationState, ResizeState, SelectionState } from "../states/EditorState";
+import { LevelCode } from "../LevelCode";
+import { LevelData, LevelMeta, LevelObjectData, LevelSchema, ObjectProperties, PathData, PrefabData, PrefabInstanceData, Vec3Data } from "../LevelSchema";
+
+/**
+ * PlacedInstance is a prefab instance of the edited level with the objects it placed. The instance is saved as
+ * such while its objects are unchanged since their placement (see `snapshot`), and as loose objects otherwise.
+ */
+interface PlacedInstance {
+    data: PrefabInstanceData;
+    objects: EditorObject[];
+    /** Serialized objects once placed and loaded, null until then. */
+    snapshot: string | null;
+}
 
 /**
  * EditorScene provides the in-game level editor for Nocturna.
  * 
  * Allows users to create, modify, and test custom levels in a 3D environment.
  * Handles adding, selecting, moving, rotating, resizing, cloning, and deleting objects.
+ * Saves a group of objects (shift + click to add to the group) as a prefab and places prefab instances, saved back
+ * as instances as long as their objects are not edited.
+ * Places the new objects in the selected rotation group ("next_group" key) and saves the group of each object.
+ * Places the objects picked in the palette with a click, and edits the path of the selected moving platform
+ * ("add_waypoint" / "remove_waypoint" keys).
  * Uses Babylon.js for rendering, picking, camera control, and asset management.
  * Integrates a HUD for editor controls and mode display.
  * Manages editor states (Addition, Move, Rotation, Resize, Selection) via a state machine.
  * Plays sound feedback for editor actions (select, drop, delete, save, etc.).
- * Supports serialization/export of the current level to a JSON file.
+ * Supports serialization/export of the current level to a JSON file, or to a shareable level code / link.
  * 
  * Implements:
  * - LevelLoaderObserver: callbacks when the level/cube/parent/player are loaded.
- * - IHUDEditorListener: callbacks for HUD actions (mode, cancel, remove, clone).
+ * - IHUDEditorListener: callbacks for HUD actions (mode, cancel, remove, clone, palette).
+ * - ILoadingHUDListener: callbacks for the loading error screen (retry, back to selection).
  */
-export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDEditorListener {
+export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDEditorListener, ILoadingHUDListener {
 
     private parentNode: ParentNode;
+    private rotationGroups: RotationGroupSelector | null = null;
     private cube: Cube;
     private camera: FreeCamera;
     private currentState: AbstractState;
@@ -35,6 +57,15 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
     private levelLoader: LevelLoader;
     private assetsManager: AssetsManager;
     private hud : IHUDEditor | null = null;
+    private loadingHUD: ILoadingHUD | null = null;
+    private level: string;
+    private meta: LevelMeta;
+    private prefabs: { [name: string]: PrefabData } = {};
+    private currentPrefab: string | null = null;
+    private instances: PlacedInstance[] = [];
+    private group: EditorObject[] = [];
+    /** Type picked in the palette, placed on the next click. */
+    private pendingType: string | null = null;
     private sounds: Map<string, StaticSound> = new Map<string, StaticSound>();
 
     /**
@@ -101,13 +132,16 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
      * @param level The level to load.
      */
     public createLevel(level: string): void {
-        this.scene = new Scene(this.engine);
+        this.level = level;
+        this.scene = this.createScene();
         this.levelLoader = new LevelLoader(this.scene, this, { create: (factory: GameObjectFactory, config: any) => factory.createForEditor(config) });
 
         this.assetsManager = new AssetsManager(this.scene);
         this.assetsManager.useDefaultLoadingScreen = false;
 
         this.inputHandler.addAction("save", () => this.serializeScene());
+        this.inputHandler.addAction("share_code", () => this.shareScene());
+        this.inputHandler.addAction("share_link", () => this.shareScene(true));
 
         this.camera = new FreeCamera("camera", new Vector3(0, 0, -250), this.scene);
         this.camera.attachControl(true); // Permet de contrôler la caméra avec la souris et le clavier
@@ -117,6 +151,7 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
 
         this.setupClickListener();
 
+        this.loadingHUD = createLoadingHUD(this);
         this.levelLoader.loadLevel(level);
     }
 
@@ -127,6 +162,22 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
         this.cube.setupMulti();
     }
 
+    /**
+     * Callback with the level metadata, kept unchanged when the level is saved (only the fields differing from
+     * the defaults are written).
+     */
+    public onMeta(meta: LevelMeta): void {
+        this.meta = meta;
+    }
+
+    /**
+     * Callback with the prefabs of the level, kept when the level is saved and available for placement.
+     */
+    public onPrefabs(prefabs: { [name: string]: PrefabData }): void {
+        this.prefabs = prefabs;
+        this.currentPrefab = Object.keys(prefabs)[0] ?? null;
+    }
+
     /**
      * Callback when the cube is loaded.
      */
@@ -139,16 +190,82 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
      */
     public onParent(parent: ParentNode): void {
         this.parentNode = parent;
-        this.parentNode.setupKeyActions(this.inputHandler);
+    }
+    /**
+     * Callback with all the rotation groups. The rotation keys rotate the selected group,
+     * in which the new objects are placed.
+     */
+    public onRotationGroups(groups: ParentNode[]): void {
+        this.rotationGroups = new RotationGroupSelector(groups);
+        this.rotationGroups.setupKeyActions(this.inputHandler);
     }
     /**
      * Callback when the level is fully loaded.
      */
     public onLevelLoaded(): void {
+        this.loadingHUD?.dispose();
+        this.loadingHUD = null;
+
         this.currentState = new AdditionState(this, this.inputHandler);
         this.currentState.enter();
 
         this.hud = createHUDEditor(this.getScene(), this);
+        this.hud.setPrefab(this.currentPrefab);
+
+        this.instances.forEach((instance) => instance.snapshot = this.snapshotInstance(instance));
+    }
+    /**
+     * Callback while the level assets are loading.
+     */
+    public onProgress(loaded: number, total: number): void {
+        this.loadingHUD?.setProgress(loaded, total);
+    }
+    /**
+     * Callback when the level could not be loaded. Displays the error screen.
+     */
+    public onLevelLoadFailed(reason: LevelLoadFailureReason, details: string): void {
+        this.loadingHUD?.showError(reason, details);
+    }
+    /**
+     * Callback for the "retry" action on the loading error screen. Reloads the same level.
+     */
+    public onLoadRetry(): void {
+        this.clearLevel();
+        this.createLevel(this.level);
+    }
+    /**
+     * Callback for the "back" action on the loading error screen. Returns to the level selection.
+     */
+    public onLoadBack(): void {
+        this.clearLevel();
+        this.scene = this.createScene();
+        this.currentState = new SelectionState(this);
+        this.currentState.enter();
+    }
+    /**
+     * Disposes the partially loaded level and the loading HUD.
+     */
+    private clearLevel(): void {
+        this.loadingHUD?.dispose();
+        this.loadingHUD = null;
+        this.editorObjects = [];
+        this.currentSelection = null;
+        this.group = [];
+        this.instances = [];
+        this.pendingType = null;
+        this.rotationGroups = null;
+        this.disposeScene();
+    }
+    /**
+     * Leaves the editor: exits the current state, disposes the loading HUD, the sounds and the scene.
+     */
+    public override dispose(): void {
+        this.currentState.exit();
+        this.loadingHUD?.dispose();
+        this.loadingHUD = null;
+        this.sounds.forEach(sound => sound.dispose());
+        this.sounds.clear();
+        super.dispose();
     }
     /**
      * Callback when an object is created in the editor.
@@ -156,6 +273,12 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
     public onObjectCreated(object: EditorObject): void {
         this.editorObjects.push(object);
     }
+    /**
+     * Callback with the objects placed by a prefab instance of the level, saved back as an instance.
+     */
+    public onInstanceCreated(instance: PrefabInstanceData, objects: EditorObject[]): void {
+        this.instances.push({ data: instance, objects, snapshot: null });
+    }
 
     /**
      * Finds the EditorObject corresponding to a Babylon mesh.
@@ -169,8 +292,8 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
      * Selects an EditorObject in the editor.
      */
     private selectEditorObject(object: EditorObject) {
-        // Désélectionner l'objet actuel
-        if (this.currentSelection) {
+        // Désélectionner l'objet actuel (sauf s'il fait partie du groupe)
+        if (this.currentSelection && !this.group.includes(this.currentSelection)) {
             this.currentSelection.setSelected(false);
         }
     
@@ -182,9 +305,10 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
     }
 
     /**
-     * Deselects the current selection.
+     * Deselects the current selection and clears the group.
      */
     private deselectCurrentSelection() {
+        this.clearGroup();
         if (this.currentSelection) {
             this.currentSelection.setSelected(false);
             this.currentSelection = null;
@@ -192,17 +316,50 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
         }
     }
 
+    /**
+     * Adds an object to the group saved as a prefab, or removes it if it is already part of it.
+     */
+    private toggleGroup(object: EditorObject) {
+        if (this.group.includes(object)) {
+            this.group = this.group.filter((obj) => obj !== object);
+            if (object !== this.currentSelection) object.setSelected(false);
+        } else {
+            this.group.push(object);
+            if (!object.isSelected()) object.setSelected(true);
+        }
+    }
+
+    /**
+     * Empties the group, keeping the current selection highlighted.
+     */
+    private clearGroup() {
+        this.group.forEach((object) => {
+            if (object !== this.currentSelection && object.isSelected()) object.setSelected(false);
+        });
+        this.group = [];
+    }
+
     /**
      * Sets up the mouse click listener for object selection.
      */
     public setupClickListener() {
-        this.scene.onPointerDown = (_, pickResult) => {
+        this.scene.onPointerDown = (event, pickResult) => {
             console.log("Pointer down event:");
+            if (this.pendingType && pickResult?.hit) {
+                const type = this.pendingType;
+                this.pendingType = null;
+                this.addObject(type);
+                return;
+            }
             if (pickResult?.hit && pickResult.pickedMesh) {
                 console.log("Mesh clicked:", pickResult.pickedMesh.name);
                 // Vérifier si le mesh appartient à un EditorObject
                 const selectedObject = this.getEditorObjectByMesh(pickResult.pickedMesh as Mesh);
-                if (selectedObject) {
+                if (selectedObject && event.shiftKey) {
+                    this.toggleGroup(selectedObject);
+                    this.playSound("select");
+                } else if (selectedObject) {
+                    this.clearGroup();
                     this.selectEditorObject(selectedObject);
                     this.playSound("select");
                 } else {
@@ -215,8 +372,19 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
 
     /**
      * Adds a new object at the position pointed by the mouse.
+     * @param type The registered type of the object.
+     * @param size The size of the object (default: the default size of the type).
+     * @param rotation The rotation of the object.
+     * @param properties The properties of the object.
+     * @param path The path of the object, its waypoints relative to the object so that they follow it where it is added.
      */
-    public addObject(factory: GameObjectFactory, size?: Vector3, rotation?: Vector3) {
+    public addObject(type: string, size?: Vector3, rotation?: Vector3, properties?: ObjectProperties, path?: PathData) {
+        const definition = ObjectRegistry.get(type);
+        if (!definition) {
+            console.error(`Unknown object type: ${type}`);
+            return;
+        }
+
         // Do a raycast to find the position where the mouse is pointing
         const pickResult = this.scene.pick(this.scene.pointerX, this.scene.pointerY);
     
@@ -227,13 +395,18 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
             const config = {
                 position: position,
                 rotation: rotation ?? Vector3.Zero(),
-                size: size,
+                size: size ?? new Vector3(definition.defaultSize.x, definition.defaultSize.y, definition.defaultSize.z),
                 scene: this.scene,
-                parent: this.parentNode,
-                assetsManager: this.assetsManager
+                parent: this.rotationGroups.getSelected(),
+                assetsManager: this.assetsManager,
+                properties: properties,
+                path: path && {
+                    ...path,
+                    waypoints: path.waypoints.map((point) => LevelSchema.vec3(position.add(new Vector3(point.x, point.y, point.z)))),
+                },
             };
 
-            const object = factory.createForEditor(config);
+            const object = definition.factory.createForEditor(config);
             this.editorObjects.push(object);
 
             this.assetsManager.load();
@@ -256,6 +429,148 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
         }
     }
 
+    /**
+     * Saves the group and the current selection as a new prefab. Positions are stored relative to the
+     * current selection (or the first object of the group), which becomes the origin of the prefab.
+     */
+    public saveSelectionAsPrefab() {
+        const objects = this.group.slice();
+        if (this.currentSelection && !objects.includes(this.currentSelection)) {
+            objects.unshift(this.currentSelection);
+        }
+        if (objects.length === 0) {
+            console.log("Nothing selected to save as a prefab.");
+            return;
+        }
+
+        const data = this.serializeObjects(objects);
+        const origin = (this.currentSelection ?? objects[0]).getMesh().position;
+        const relative = (point: Vec3Data) => ({ x: point.x - origin.x, y: point.y - origin.y, z: point.z - origin.z });
+        data.forEach((object) => {
+            object.position = relative(object.position);
+            if (object.path) {
+                object.path.waypoints = object.path.waypoints.map(relative);
+            }
+            // The rotation group is chosen by each instance
+            delete object.group;
+        });
+
+        let index = Object.keys(this.prefabs).length + 1;
+        while (`prefab_${index}` in this.prefabs) index++;
+        this.currentPrefab = `prefab_${index}`;
+        this.prefabs[this.currentPrefab] = { objects: data };
+
+        this.hud?.setPrefab(this.currentPrefab);
+        this.playSound("save");
+    }
+
+    /**
+     * Selects the next prefab of the level for placement.
+     */
+    public nextPrefab() {
+        const names = Object.keys(this.prefabs);
+        if (names.length === 0) return;
+
+        this.currentPrefab = names[(names.indexOf(this.currentPrefab) + 1) % names.length];
+        this.hud?.setPrefab(this.currentPrefab);
+        this.playSound("mode");
+    }
+
+    /**
+     * Places an instance of the current prefab at the position pointed by the mouse, in the selected rotation group.
+     * The objects of the instance can then be edited individually.
+     */
+    public placePrefab() {
+        if (!this.currentPrefab) return;
+
+        const pickResult = this.scene.pick(this.scene.pointerX, this.scene.pointerY);
+        if (!pickResult?.hit || !pickResult.pickedPoint) {
+            console.log("No intersection detected.");
+            return;
+        }
+
+        const instance: PrefabInstanceData = {
+            prefab: this.currentPrefab,
+            position: LevelSchema.vec3(pickResult.pickedPoint),
+            rotation: { x: 0, y: 0, z: 0 },
+            scale: { x: 1, y: 1, z: 1 }
+        };
+        const group = this.rotationGroups.getSelected();
+        if (group.getId() !== LevelSchema.MainGroup) {
+            instance.group = group.getId();
+        }
+        const objects = LevelLoader.expandInstance(this.prefabs[this.currentPrefab], instance);
+
+        const created: EditorObject[] = [];
+        objects.forEach((object) => {
+            const factory = ObjectRegistry.getFactory(object.type);
+            if (!factory) return;
+            created.push(factory.createForEditor({
+                position: new Vector3(object.position.x, object.position.y, object.position.z),
+                rotation: new Vector3(object.rotation.x, object.rotation.y, object.rotation.z),
+                size: new Vector3(object.size.x, object.size.y, object.size.z),
+                scene: this.scene,
+                parent: group,
+                assetsManager: this.assetsManager,
+                properties: object.properties,
+                path: object.path
+            }));
+        });
+        this.editorObjects.push(...created);
+        const placed: PlacedInstance = { data: instance, objects: created, snapshot: null };
+        this.instances.push(placed);
+
+        this.assetsManager.load();
+        this.assetsManager.onFinish = () => {
+            this.scene.executeWhenReady(() => {
+                this.playSound("drop");
+
+                // Translate the whole instance so it is not in the wall
+                const meshes = created.reduce((all, object) => all.concat(object.getMeshes()), [] as Mesh[]);
+                meshes.forEach(m => m.refreshBoundingInfo());
+                const totalbox = Utils.getTotalBoundingBox(meshes);
+                const box = totalbox.maximum.subtract(totalbox.minimum);
+                const offset = new Vector3(0, 0, -box.z / 2);
+                created.forEach((object) => object.translate(offset));
+                instance.position.z += offset.z;
+                placed.snapshot = this.snapshotInstance(placed);
+            });
+        }
+    }
+
+    /**
+     * Adds a waypoint to the path of the selected object at the position pointed by the mouse, moved away from the
+     * wall like the added objects.
+     */
+    public addWaypoint() {
+        const selection = this.currentSelection;
+        if (!selection) return;
+
+        const pickResult = this.scene.pick(this.scene.pointerX, this.scene.pointerY,
+            (mesh) => !selection.getMeshes().includes(mesh as Mesh));
+        if (!pickResult?.hit || !pickResult.pickedPoint) {
+            console.log("No intersection detected.");
+            return;
+        }
+
+        const totalbox = Utils.getTotalBoundingBox(selection.getMeshes());
+        const box = totalbox.maximum.subtract(totalbox.minimum);
+        if (selection.addWaypoint(pickResult.pickedPoint.add(new Vector3(0, 0, -box.z / 2)))) {
+            this.playSound("drop");
+        } else {
+            console.log("The selection does not follow a path.");
+        }
+    }
+
+    /**
+     * Removes the last waypoint of the path of the selected object.
+     */
+    public removeWaypoint() {
+        if (this.currentSelection?.removeWaypoint()) {
+            this.playSound("delete");
+        }
+    }
+
     /**
      * Moves the camera based on keyboard input.
      */
@@ -304,6 +619,7 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
                 this.playSound("delete");
                 // Supprimer l'objet de la scène
                 this.editorObjects = this.editorObjects.filter((obj) => obj !== this.currentSelection);
+                this.group = this.group.filter((obj) => obj !== this.currentSelection);
                 this.currentSelection.getMesh().dispose();
                 this.currentSelection = null;
             }
@@ -324,16 +640,93 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
             this.hud?.setMode(this.currentState.name());
             this.playSound("mode");
         }
+        // The editor has no physics, but its models keep their animations
+        this.simulate();
+    }
+
+    /**
+     * Serializes an object in level coordinates, with the id of its rotation group if it is not the main group.
+     */
+    private serializeObject(object: EditorObject): LevelObjectData {
+        const data = object.serialize();
+        const group = this.rotationGroups.getGroups().find((group) => group.isParentOf(object.getMesh()));
+        if (group) {
+            // Parented meshes are positioned relative to the pivot of their group
+            const pivot = group.getPosition();
+            data.position = { x: data.position.x + pivot.x, y: data.position.y + pivot.y, z: data.position.z + pivot.z };
+            if (group.getId() !== LevelSchema.MainGroup) {
+                data.group = group.getId();
+            }
+        }
+        return data;
+    }
+
+    /**
+     * Serializes objects in level coordinates, without the selection highlight which scales the meshes.
+     */
+    private serializeObjects(objects: EditorObject[]): LevelObjectData[] {
+        const selected = objects.filter((object) => object.isSelected());
+        selected.forEach((object) => object.setSelected(false));
+        const data = objects.map((object) => this.serializeObject(object));
+        selected.forEach((object) => object.setSelected(true));
+        return data;
+    }
+
+    /**
+     * Serializes the objects of a prefab instance, to detect their changes.
+     */
+    private snapshotInstance(instance: PlacedInstance): string {
+        return JSON.stringify(this.serializeObjects(instance.objects));
+    }
+
+    /**
+     * Returns the prefab instances whose objects were neither edited nor deleted since their placement.
+     */
+    private getIntactInstances(): PlacedInstance[] {
+        return this.instances.filter((instance) => instance.snapshot !== null
+            && instance.objects.every((object) => this.editorObjects.includes(object))
+            && this.snapshotInstance(instance) === instance.snapshot);
+    }
+
+    /**
+     * Builds the level data of the current scene. The intact prefab instances are saved as instances, the other
+     * objects as loose objects.
+     */
+    private buildLevelData(): LevelData {
+        const instances = this.getIntactInstances();
+        const instanced = instances.reduce((all, instance) => all.concat(instance.objects), [] as EditorObject[]);
+        const level: LevelData = {
+            version: LevelSchema.Version,
+            Cube: this.cube.serialize(),
+            parent_node: this.parentNode.serialize(),
+            objects: this.serializeObjects(this.editorObjects.filter((object) => !instanced.includes(object))),
+        };
+        const meta = LevelSchema.metaOverrides(this.meta);
+        if (Object.keys(meta).length > 0) {
+            level.meta = meta;
+        }
+        const groups = this.rotationGroups.getGroups().filter((group) => group !== this.parentNode);
+        if (groups.length > 0) {
+            level.groups = groups.map((group) => ({ id: group.getId(), ...group.serialize() }));
+        }
+        const theme = this.cube.getEnvironment().serialize();
+        if (theme) {
+            level.theme = theme;
+        }
+        if (Object.keys(this.prefabs).length > 0) {
+            level.prefabs = this.prefabs;
+        }
+        if (instances.length > 0) {
+            level.instances = instances.map((instance) => instance.data);
+        }
+        return level;
     }
 
     /**
      * Serializes the current scene and triggers a JSON download.
      */
     public serializeScene(): void {
-        const serializedObjects = this.editorObjects.map((obj) => obj.serialize());
-        const jsonScene = { objects : serializedObjects }; // Convertir en JSON formaté
-        jsonScene[Cube.Type] = this.cube.serialize();
-        jsonScene[ParentNode.Type] = this.parentNode.serialize();
+        const jsonScene = this.buildLevelData();
 
         this.playSound("save");
     
@@ -356,6 +749,32 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
         console.log("Scene serialized and download triggered.");
     }
 
+    /**
+     * Encodes the current scene as a level code and copies it to the clipboard. The HUD tells the outcome, and shows
+     * the code to copy by hand if the clipboard is not available.
+     * @param asLink If true, copies a link opening the game with the level instead of the bare code.
+     */
+    public async shareScene(asLink: boolean = false): Promise<void> {
+        const kind = asLink ? "link" : "code";
+        let text: string;
+        try {
+            const code = await LevelCode.encode(this.buildLevelData());
+            text = asLink ? LevelCode.link(code) : code;
+        } catch (error) {
+            console.error("Failed to encode the level:", error);
+            this.hud?.showMessage(`Cannot share the level: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+        try {
+            await navigator.clipboard.writeText(text);
+            this.playSound("save");
+            this.hud?.showMessage(`Level ${kind} copied to the clipboard (${text.length} characters)`);
+        } catch (error) {
+            console.error("Failed to copy the level code:", error);
+            this.hud?.showMessage(`Cannot copy to the clipboard, copy the level ${kind} below:`, text);
+        }
+    }
+
     /**
      * Returns the current Babylon.js scene.
      */
@@ -364,17 +783,19 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
     }
 
     /**
-     * Clones the selected object.
+     * Clones the selected object, with its properties and its path.
      */
-    public clone(factories: Map<string, GameObjectFactory>) {
+    public clone() {
         if (this.currentSelection) {
-            const type = this.currentSelection.getType();
-            const factory = factories.get(type);
-            
-            if(factory) {
-                const config = this.currentSelection.getMesh();
-                this.addObject(factory, config.scaling, config.rotation);
-            }
+            const config = this.currentSelection.getMesh();
+            // The waypoints of the copy are moved with it
+            const origin = config.getAbsolutePosition();
+            const path: PathData | undefined = this.currentSelection.serialize().path;
+            const relativePath = path && {
+                ...path,
+                waypoints: path.waypoints.map((point) => LevelSchema.vec3(new Vector3(point.x, point.y, point.z).subtract(origin))),
+            };
+            this.addObject(this.currentSelection.getType(), config.scaling, config.rotation, this.currentSelection.getProperties(), relativePath);
         }
     }
 
@@ -397,6 +818,11 @@ export class EditorScene extends BaseScene implements LevelLoaderObserver, IHUDE
     }
 
     onCloneSelection(): void {
-        // this.clone(this.parentNode.getFactories());
+        this.clone();
+    }
+
+    onPaletteSelected(type: string): void {
+        this.pendingType = type;
+        this.playSound("mode");
     }
 }
\ No newline at end of file
@@ -1,18 +1,38 @@
-import { Engine, FollowCamera, Scene, PhysicsBody } from "@babylonjs/core";
+import { Engine, FollowCamera, Scene, TargetCamera, Vector3 } from "@babylonjs/core";
 
 import { BaseScene } from "./BaseScene";
-import { Cube, CubeCollisionObserver } from "../Cube";
-import { ParentNode } from "../ParentNode";
+import { Cube, CubeCollisionObserver, FaceCollision } from "../Cube";
+import { FaceCamera, FaceFrame, FaceGravity, FaceGravityObserver } from "../FaceGravity";
+import { ParentNode, RotationGroupSelector } from "../ParentNode";
 import { InputHandler } from "../InputHandler";
 import { Player } from "../GameObjects/Player";
 import { GameObject, GameObjectFactory, GameObjectVisitor, GameObjectConfig, CharacterInput, Enemy, GameObjectObserver } from "../types";
-import { LevelLoaderObserver, LevelLoader } from "../LevelLoader";
+import { LevelLoaderObserver, LevelLoader, LevelLoadFailureReason } from "../LevelLoader";
 import { VictoryCondition } from "../GameObjects/Victory";
 import { Coin } from "../GameObjects/Coin";
+import { Checkpoint } from "../GameObjects/Checkpoint";
+import { BouncePlatform, ConveyorPlatform, CrumblingPlatform } from "../GameObjects/Platform";
 import { HpBar } from "../HUD/HpBar";
 import { NocturnaAudio } from "../NocturnaAudio";
 import { IEndScreenHUDListener } from "../HUD/EndScreenHUD";
+import { ILoadingHUDListener } from "../HUD/LoadingHUD";
+import { LevelMeta, LevelSchema, PrefabData, PrefabInstanceData } from "../LevelSchema";
+import { Campaign } from "../Campaign";
+import { LevelRecordResult, PlayerProgress } from "../PlayerProgress";
 import { AbstractGameSceneState, InGameState, LoadingState, SelectionState } from "../states/GameStates";
+import { LevelScope } from "../LevelScope";
+
+/**
+ * CheckpointState is the progress of the player when it activated its last checkpoint (or when the level started),
+ * restored on respawn in the levels rolling back the progress.
+ */
+interface CheckpointState {
+    timer: number;
+    score: number;
+    coins: number;
+    /** Active face in the face gravity mode, null otherwise. */
+    frame: FaceFrame | null;
+}
 
 /**
  * GameScene manages the main singleplayer gameplay loop in Nocturna.
@@ -21,29 +41,52 @@ import { AbstractGameSceneState, InGameState, LoadingState, SelectionState } fro
  * - Loads and initializes the level, cube, parent node, and player.
  * - Handles the main game loop, including state transitions (loading, selection, in-game).
  * - Manages all game objects, their updates, and collisions.
- * - Sets up cameras (multiple FollowCameras) and allows switching between them.
+ * - Sets up cameras (multiple FollowCameras, or FaceCameras in the face gravity mode) and allows switching between them.
+ * - In the face gravity mode, reorients gravity, the player and the cameras when the player changes face.
  * - Handles score calculation with time-based multipliers.
+ * - Respawns the dead player at the last activated checkpoint while it has lives left (at the start of the level
+ *   before any checkpoint when the lives are limited), keeping or rolling back the timer, the score and the
+ *   collected coins according to the respawn rule of the level.
+ * - Applies the level metadata (music, gravity, time multiplier tiers, par time and score thresholds).
  * - Manages the HUD (health bar, timer, etc.) and background music.
  * - Observes and reacts to collisions (coins, enemies, victory, etc.).
- * - Supports restarting, retrying, and quitting the level.
+ * - Supports restarting, retrying, and quitting to the main menu.
+ * - Follows the campaign: continues to the next unlocked level.
+ * - Records the player progress (best time, best score, coins, deaths) of file-based levels.
+ * - Reports loading progress and lets the player retry or go back to the selection when loading fails.
  * - Implements interfaces for level loading, object observation, collision, and HUD events.
  */
-export class GameScene extends BaseScene implements LevelLoaderObserver, GameObjectVisitor, IEndScreenHUDListener, CubeCollisionObserver, GameObjectObserver {
+export class GameScene extends BaseScene implements LevelLoaderObserver, GameObjectVisitor, IEndScreenHUDListener, ILoadingHUDListener, CubeCollisionObserver, GameObjectObserver, FaceGravityObserver {
     protected cube: Cube;
     protected parent: ParentNode;
+    protected rotationGroups: RotationGroupSelector | null = null;
     protected player: Player;
     protected gameObjects: GameObject[] = [];
     protected levelLoader: LevelLoader;
     protected timer: number = 0;
     protected score: number = 0;
-    protected cameras: FollowCamera[] = [];
+    protected cameras: TargetCamera[] = [];
+    protected faceGravity: FaceGravity | null = null;
     protected activeCameraIndex: number = 0;
     protected state: AbstractGameSceneState;
     protected hpBar: HpBar;
-    protected multiplicators: number[] = [20, 10, 5];
-    protected readonly timeMultiplicator: number = 1000 * 60; // 1 minute in milliseconds
-
-    private data: JSON = null;
+    protected meta: LevelMeta = LevelSchema.meta();
+    protected campaign: Campaign = null;
+    protected progress: PlayerProgress = PlayerProgress.getInstance();
+    protected record: LevelRecordResult = null;
+    protected coins: number = 0;
+    protected checkpoint: Checkpoint | null = null;
+    protected checkpointState: CheckpointState | null = null;
+    /** Coins collected since the last checkpoint, hidden until they are kept or put back by a rollback. */
+    protected collectedCoins: Coin[] = [];
+    /** Lives left, or null if they are unlimited. */
+    protected lives: number | null = null;
+    /** Where the player started the level, its respawn point before any checkpoint when the lives are limited. */
+    protected startPosition: Vector3 | null = null;
+    /** Progress of the player when the level started. */
+    protected startState: CheckpointState | null = null;
+
+    private data: unknown = null;
 
     protected sceneName: string = "level2.json";
     win: boolean = false;
@@ -63,13 +106,24 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
      * Static factory to create and initialize a new GameScene.
      * @param engine - The Babylon.js engine.
      * @param inputHandler - The input handler.
+     * @param level - Level data to play right away (e.g. from a shared link), instead of showing the level selection.
      * @returns The created and initialized GameScene.
      */
-    static async createScene(engine: Engine, inputHandler: InputHandler): Promise<BaseScene> {
+    static async createScene(engine: Engine, inputHandler: InputHandler, level: unknown = null): Promise<BaseScene> {
         const scene = new GameScene(engine, inputHandler);
         await scene.addPhysic();
-        scene.state = new SelectionState(scene);
-        scene.state.enter();
+        scene.campaign = await Campaign.load("game_levels.json").catch(error => {
+            console.error("Failed to load the campaign:", error);
+            return null;
+        });
+        if (level !== null) {
+            scene.state = new LoadingState(scene);
+            scene.state.enter();
+            scene.createLevelFromData(level);
+        } else {
+            scene.state = new SelectionState(scene);
+            scene.state.enter();
+        }
         return scene;
     }
 
@@ -81,7 +135,7 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
         this.loadLevel(file);
     }
 
-    public createLevelFromData(data: JSON) {
+    public createLevelFromData(data: unknown) {
         this.data = data;
         this.levelLoader.loadLevelFromData(data);
     }
@@ -95,6 +149,25 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
         this.levelLoader.loadLevel(file);
     }
 
+    /**
+     * Callback with the metadata of the level being loaded. Applies its gravity.
+     * @param meta - The level metadata.
+     */
+    public onMeta(meta: LevelMeta): void {
+        this.meta = meta;
+        this.setGravity(meta.gravity);
+    }
+
+    /**
+     * Callback with the prefabs of the level (already expanded by the loader, unused in game).
+     */
+    public onPrefabs(_: { [name: string]: PrefabData }): void {}
+
+    /**
+     * Callback with the objects placed by a prefab instance (already notified one by one, unused in game).
+     */
+    public onInstanceCreated(_: PrefabInstanceData, __: GameObject[]): void {}
+
     /**
      * Callback when the cube is created.
      * @param cube - The created Cube.
@@ -121,10 +194,18 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
     public onParent(parent: ParentNode): void {
         console.log("Parent created in GameScene");
         this.parent = parent;
-        this.parent.setupKeyActions(this.inputHandler);
         this.setupKeyActions();
     }
 
+    /**
+     * Callback with all the rotation groups of the level. The rotation keys rotate the selected group.
+     * @param groups - The rotation groups, the main group first.
+     */
+    public onRotationGroups(groups: ParentNode[]): void {
+        this.rotationGroups = new RotationGroupSelector(groups);
+        this.rotationGroups.setupKeyActions(this.inputHandler);
+    }
+
     /**
      * Sets up custom key actions for the scene.
      */
@@ -137,21 +218,49 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
      * Sets up cameras, collisions, timer, HUD, and background music.
      */
     public onLevelLoaded(): void {
+        this.setupFaceGravity();
         this.setupCamera();
         this.setupCollisions();
         this.startTimer();
 
+        this.startPosition = this.player.getMesh().getAbsolutePosition().clone();
+        this.startState = {
+            timer: this.timer,
+            score: this.score,
+            coins: this.coins,
+            frame: this.faceGravity?.getFrame() ?? null,
+        };
+        this.lives = this.meta.lives > 0 ? this.meta.lives : null;
         this.hpBar = new HpBar(this.player.getMaxHp());
+        this.hpBar.setLives(this.lives);
         this.state.exit();
         this.state = new InGameState(this);
         this.state.enter();
 
         // Start background music
         NocturnaAudio.getInstance().then(audio => {
-            audio.setBackgroundMusic("assets/music/background.mp3");
+            audio.setLevelMusic(this.meta.music);
         });
     }
 
+    /**
+     * Callback while the level assets are loading. Forwarded to the current state.
+     * @param loaded - Number of finished asset tasks.
+     * @param total - Total number of asset tasks.
+     */
+    public onProgress(loaded: number, total: number): void {
+        this.state.onProgress(loaded, total);
+    }
+
+    /**
+     * Callback when the level could not be loaded. Forwarded to the current state.
+     * @param reason - Why the level could not be loaded.
+     * @param details - The detailed error message.
+     */
+    public onLevelLoadFailed(reason: LevelLoadFailureReason, details: string): void {
+        this.state.onLevelLoadFailed(reason, details);
+    }
+
     /**
      * Sets up collision callbacks for all game objects.
      */
@@ -172,7 +281,7 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
         console.log(`Adding collision for object: ${object.getType()} with mesh: ${mesh.name}`);
         if (mesh.physicsBody) {
             console.log(`Setting up collision for ${object.getType()} with mesh: ${mesh.name}`);
-            mesh.physicsBody.getCollisionObservable().add((collider) => {
+            LevelScope.of(this.scene).observe(mesh.physicsBody.getCollisionObservable(), (collider) => {
                 if (collider.collidedAgainst === this.player.getMesh().physicsBody) {
                     console.log(`Player collision detected with ${mesh.name}`);
                     object.accept(this);
@@ -196,18 +305,53 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
      * Sets up the available cameras for the scene.
      */
     protected setupCamera() {
+        if (this.faceGravity) {
+            // The cameras look at the active face, whatever its orientation
+            this.cameras = [
+                new FaceCamera("rightCamera", this.scene, this.player.getMesh(), this.faceGravity, 300),
+                new FaceCamera("topRightCamera", this.scene, this.player.getMesh(), this.faceGravity, 12, 300),
+            ];
+            this.scene.activeCamera = this.cameras[this.activeCameraIndex];
+            return;
+        }
+
         // Create cameras
-        this.cameras = [
-            new FollowCamera("rightCamera", this.player.getMesh().position.clone(), this.scene, this.player.getMesh()),
-            new FollowCamera("topRightCamera", this.player.getMesh().position.clone(), this.scene, this.player.getMesh()),
-        ];
+        const right = new FollowCamera("rightCamera", this.player.getMesh().position.clone(), this.scene, this.player.getMesh());
+        const topRight = new FollowCamera("topRightCamera", this.player.getMesh().position.clone(), this.scene, this.player.getMesh());
+        this.cameras = [right, topRight];
 
-        this.cameras[0].radius = -300;
-        this.cameras[1].heightOffset = 300;
+        right.radius = -300;
+        topRight.heightOffset = 300;
 
         this.scene.activeCamera = this.cameras[this.activeCameraIndex];
     }
 
+    /**
+     * Enables the face gravity mode if the level asks for it: the player starts on the back face.
+     */
+    protected setupFaceGravity() {
+        this.faceGravity?.dispose();
+        this.faceGravity = null;
+        if (!this.meta.faceGravity) {
+            return;
+        }
+        this.faceGravity = new FaceGravity(this.cube);
+        this.faceGravity.addObserver(this);
+        this.onFaceChange(this.faceGravity.getFrame());
+    }
+
+    /**
+     * Callback when the player changes face in the face gravity mode: gravity (with the strength of the level
+     * gravity) pulls towards the bottom of the new face, and the player moves along it.
+     * @param frame - The frame of the new active face.
+     */
+    public onFaceChange(frame: FaceFrame): void {
+        const gravity = this.meta.gravity;
+        const strength = new Vector3(gravity.x, gravity.y, gravity.z).length();
+        this.setGravity(frame.up.scale(-strength));
+        this.player.setOrientation(frame.up, frame.right);
+    }
+
     /**
      * Starts the in-game timer and displays the timer UI.
      */
@@ -241,7 +385,12 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
      * @param _ - The VictoryCondition object.
      */
     public visitVictory(_: VictoryCondition): void {
+        if (this.win) return;
         this.win = true;
+
+        if (!this.data) {
+            this.record = this.progress.recordWin(this.sceneName, { time: this.timer, score: this.score, coins: this.coins });
+        }
     }
 
     /**
@@ -257,12 +406,111 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
      * @param coin - The Coin object.
      */
     public visitCoin(coin: Coin): void {
-        const index = Math.floor(this.timer / this.timeMultiplicator);
-        const multiplicator = this.multiplicators[index] || 1;
-        this.score += coin.getScore() * multiplicator;
+        this.score += coin.getScore() * this.getTimeMultiplier();
+        this.coins++;
 
         this.gameObjects = this.gameObjects.filter(o => o !== coin);
-        coin.getMeshes().forEach(m => {
+        if (this.meta.respawnRule === "rollback") {
+            // Put back in the level if the player respawns before the next checkpoint
+            coin.hide();
+            this.collectedCoins.push(coin);
+        } else {
+            this.disposeObject(coin);
+        }
+    }
+
+    /**
+     * Visitor pattern: called when the player touches a checkpoint. The checkpoint becomes the respawn point,
+     * and the progress of the player is saved for the rollback.
+     * @param checkpoint - The Checkpoint object.
+     */
+    public visitCheckpoint(checkpoint: Checkpoint): void {
+        if (checkpoint === this.checkpoint || !this.player.isAlive()) return;
+        this.checkpoint?.deactivate();
+        this.checkpoint = checkpoint;
+        checkpoint.activate();
+
+        this.checkpointState = {
+            timer: this.timer,
+            score: this.score,
+            coins: this.coins,
+            frame: this.faceGravity?.getFrame() ?? null,
+        };
+        this.collectedCoins.forEach(coin => this.disposeObject(coin));
+        this.collectedCoins = [];
+    }
+
+    /**
+     * Visitor pattern: called when the player touches a bounce pad, which launches it if it landed on top.
+     * @param pad - The BouncePlatform object.
+     */
+    public visitBouncePad(pad: BouncePlatform): void {
+        if (!this.player.isAlive()) return;
+        pad.launch(this.player);
+    }
+
+    /**
+     * Visitor pattern: called when the player touches a crumbling platform, which crumbles if the player landed on top.
+     * @param platform - The CrumblingPlatform object.
+     */
+    public visitCrumblingPlatform(platform: CrumblingPlatform): void {
+        if (!this.player.isAlive()) return;
+        platform.crumble(this.player);
+    }
+
+    /**
+     * Visitor pattern: called when the player touches a conveyor; its belt carries the player standing on it.
+     * @param conveyor - The ConveyorPlatform object.
+     */
+    public visitConveyor(conveyor: ConveyorPlatform): void {
+        this.player.setBelt(conveyor, conveyor.getBeltVelocity());
+    }
+
+    /**
+     * Respawns the dead player at the last activated checkpoint, with restored HP. Each respawn costs a life
+     * when the lives are limited; the player then respawns at the start of the level if no checkpoint is active.
+     * With the "rollback" rule, the timer, the score and the coins go back to their values at the checkpoint
+     * (or at the start).
+     * @returns True if the player respawned, false if the level is lost (no checkpoint with unlimited lives,
+     * or no life left).
+     */
+    public respawn(): boolean {
+        if (!this.checkpoint && this.lives === null) {
+            return false;
+        }
+        if (this.lives !== null) {
+            this.lives--;
+            this.hpBar.setLives(this.lives);
+            if (this.lives <= 0) {
+                return false;
+            }
+        }
+
+        const state = this.checkpoint ? this.checkpointState : this.startState;
+        if (this.meta.respawnRule === "rollback") {
+            this.timer = state.timer;
+            this.score = state.score;
+            this.coins = state.coins;
+            this.collectedCoins.forEach(coin => {
+                coin.restore();
+                this.gameObjects.push(coin);
+                this.addCollisions(coin);
+            });
+            this.collectedCoins = [];
+        }
+        if (this.faceGravity && state.frame) {
+            this.faceGravity.setFrame(state.frame);
+        }
+        this.player.respawn(this.checkpoint ? this.checkpoint.getSpawnPosition() : this.startPosition);
+        return true;
+    }
+
+    /**
+     * Removes a game object from the level for good: disposes its meshes and physics bodies.
+     * @param object - The GameObject to dispose.
+     */
+    private disposeObject(object: GameObject) {
+        object.getMeshes().forEach(m => {
             if (m.physicsBody) {
                 m.physicsBody.dispose();
             }
@@ -270,6 +518,15 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
         });
     }
 
+    /**
+     * Returns the score multiplier of the current time tier of the level.
+     * @returns The multiplier, or 1 once every tier has passed.
+     */
+    protected getTimeMultiplier(): number {
+        const tier = this.meta.timeTiers.find(t => this.timer < t.time);
+        return tier ? tier.multiplier : 1;
+    }
+
     /**
      * Hides the UI elements (e.g., health bar).
      */
@@ -285,6 +542,15 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
         return this.win;
     }
 
+    /**
+     * Records a death on the current level. Called at each death, whether the player respawns or loses.
+     */
+    public recordDeath() {
+        if (!this.data) {
+            this.progress.recordDeath(this.sceneName);
+        }
+    }
+
     /**
      * Checks if the player has lost (is dead).
      * @returns True if the player is dead, false otherwise.
@@ -302,6 +568,11 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
         this.gameObjects.forEach((object) => {
             object.update(dt, input);
         });
+        this.simulate();
+        const body = this.player.getMesh().physicsBody;
+        if (this.faceGravity && body) {
+            this.faceGravity.update(this.player.getMesh().getAbsolutePosition(), body.getLinearVelocity());
+        }
         this.hpBar.update(this.player.getHp());
     }
 
@@ -355,6 +626,20 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
         return this.score;
     }
 
+    /**
+     * Returns the metadata of the current level.
+     */
+    public getMeta(): LevelMeta {
+        return this.meta;
+    }
+
+    /**
+     * Returns the result of recording the last win (personal bests, new records), or null.
+     */
+    public getRecord(): LevelRecordResult {
+        return this.record;
+    }
+
     /**
      * Returns the current timer value.
      */
@@ -372,35 +657,58 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
         this.state = new LoadingState(this);
         this.state.enter();
 
-        this.cube.dispose();
-        this.parent.dispose();
+        await this.clearLevel();
+        if (this.data) {
+            this.levelLoader.loadLevelFromData(this.data);
+        } else {
+            this.loadLevel(this.sceneName);
+        }
+    }
+
+    /**
+     * Disposes the current level and replaces the Babylon.js scene by a new one with physics.
+     * The level may be partially loaded (e.g. after a loading failure).
+     */
+    protected async clearLevel() {
+        this.cube?.dispose();
+        this.rotationGroups?.dispose();
 
         this.gameObjects = []
         this.player = null;
         this.parent = null;
+        this.rotationGroups = null;
 
         this.cube = null;
         this.win = false;
 
         this.score = 0;
-
-        this.scene.meshes.forEach(mesh => mesh.dispose());
-        this.scene.materials.forEach(mat => mat.dispose());
-        this.scene.textures.forEach(tex => tex.dispose());
-
-        this.scene.dispose();
-        this.scene = new Scene(this.engine);
+        this.coins = 0;
+        this.record = null;
+        this.checkpoint = null;
+        this.checkpointState = null;
+        this.collectedCoins = [];
+        this.lives = null;
+        this.startPosition = null;
+        this.startState = null;
+
+        this.disposeScene();
+        this.scene = this.createScene();
         this.levelLoader.setScene(this.scene);
 
         this.hpBar = null;
 
         await this.addPhysic();
         // this.scene.enablePhysics(new Vector3(0, -1000, 0), this.hk);
-        if (this.data) {
-            this.levelLoader.loadLevelFromData(this.data);
-        } else {
-            this.loadLevel(this.sceneName);
-        }
+    }
+
+    /**
+     * Leaves the game: exits the current state, which disposes its DOM HUD (level selection, loading screen,
+     * health bar, end screen), hides the timer and disposes the scene.
+     */
+    public override dispose() {
+        this.state?.exit();
+        document.getElementById("game-timer").classList.add("hidden");
+        super.dispose();
     }
 
     /**
@@ -419,10 +727,14 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
     }
 
     /**
-     * Callback for the "continue" action on the end screen HUD.
+     * Callback for the "continue" action on the end screen HUD. Loads the next level of the campaign.
      */
     public onContinue() {
         console.log("Continuing to the next level...");
+        const next = this.campaign?.getNextLevel(this.sceneName);
+        if (next) {
+            this.sceneName = next.file;
+        }
         this.recreateScene();
     }
 
@@ -438,7 +750,26 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
      * Callback for the "quit" action on the end screen HUD.
      */
     public onQuit() {
-        window.location.reload();
+        this.quitToMenu();
+    }
+
+    /**
+     * Callback for the "retry" action on the loading error screen.
+     */
+    public onLoadRetry() {
+        this.onRetry();
+    }
+
+    /**
+     * Callback for the "back" action on the loading error screen. Returns to the level selection.
+     */
+    public onLoadBack() {
+        this.state.exit();
+        this.clearLevel().then(() => {
+            this.data = null;
+            this.state = new SelectionState(this);
+            this.state.enter();
+        });
     }
 
     /**
@@ -451,20 +782,25 @@ export class GameScene extends BaseScene implements LevelLoaderObserver, GameObj
     }
 
     /**
-     * Handles collision with the bottom of the cube (player death).
-     * @param collider - The PhysicsBody that collided.
+     * Handles collision with a face of the cube having a hazard (e.g. player death on the lava).
+     * @param collision - The collision, with the face touched and its hazard.
      */
-    public onBottomCollision(collider: PhysicsBody) {
-        if (this.player.getMesh().physicsBody === collider) {
-            this.player.kill();
+    public onFaceCollision(collision: FaceCollision) {
+        if (this.player.getMesh().physicsBody === collision.collider) {
+            this.player.applyFaceHazard(collision.hazard, collision.normal);
         }
     }
 
     /**
-     * Indicates if there is a next level (always false in this scene).
-     * @returns False.
+     * Indicates if the campaign continues after the current level, i.e. the next level exists and is unlocked.
+     * Levels loaded from custom data are not part of the campaign.
+     * @returns True if the player can continue to the next level.
      */
     public hasNextLevel(): boolean {
-        return false;
+        if (this.data || !this.campaign) {
+            return false;
+        }
+        const next = this.campaign.getNextLevel(this.sceneName);
+        return next !== null && this.campaign.isUnlocked(next.file, this.progress);
     }
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { Engine, Vector3, FollowCamera, UniversalCamera, Scene, Camera, PhysicsBody, ExecuteCodeAction, ActionManager, AssetsManager, StaticSound, CreateSoundAsync } from "@babylonjs/core";
+import { Engine, Vector3, FollowCamera, UniversalCamera, Scene, Camera, ExecuteCodeAction, ActionManager, AssetsManager, StaticSound, CreateSoundAsync } from "@babylonjs/core";
 
 import { BaseScene } from "./BaseScene";
 import { ParentNode } from "../ParentNode";
@@ -9,12 +9,14 @@ import { VictoryCondition } from "../GameObjects/Victory";
 import { NetworkManager } from "../network/NetworkManager";
 import { RemoteGameObject, RemotePlayer } from "../GameObjects/RemoteGameObject";
 import { Coin, CoinFactory, SuperCoinFactory } from "../GameObjects/Coin";
-import { Platform } from "../GameObjects/Platform";
+import { Checkpoint } from "../GameObjects/Checkpoint";
+import { BouncePlatform, ConveyorPlatform, CrumblingPlatform, Platform } from "../GameObjects/Platform";
 import { AbstractGameSceneState, ActionSelectionState, InGameState, LobbyState } from "../states/MultiSceneStates";
 import { Action } from "../action";
 import { Player } from "../GameObjects/Player";
-import { CubeCollisionObserver } from "../Cube";
+import { CubeCollisionObserver, FaceCollision } from "../Cube";
 import { createHUDMulti, IHUDMulti } from "../HUD/MultiHUD";
+import { LevelScope } from "../LevelScope";
 
 /**
  * CoinSpawner is a helper class responsible for spawning coins and super coins in the scene.
@@ -89,6 +91,8 @@ class CoinSpawner {
 export class MultiScene extends BaseScene implements GameObjectVisitor, CubeCollisionObserver {
     /** Maximum number of players in a multiplayer game. */
     public static readonly MaxPlayer: number = 4;
+    /** Minimum delay between two rotations of the cube (ms), so that players don't get motion sick. */
+    public static readonly RotationCooldown: number = 1500;
 
     /** Time interval between coin spawns (ms). */
     private readonly coinInterval: number = 5000;
@@ -144,6 +148,18 @@ export class MultiScene extends BaseScene implements GameObjectVisitor, CubeColl
         super(engine, inputHandler);
     }
 
+    /**
+     * Leaves the game: leaves the network room (the connection to the server stays open),
+     * disposes the DOM HUD of the current state, the rotating parent node (and its queued rotations) and the scene.
+     */
+    public override dispose() {
+        NetworkManager.getInstance().leaveRoom();
+        this.state?.dispose();
+        this.parent?.dispose();
+        this.parent = null;
+        super.dispose();
+    }
+
     /**
      * Plays a sound by name if loaded.
      * @param name - The sound name.
@@ -175,9 +191,12 @@ export class MultiScene extends BaseScene implements GameObjectVisitor, CubeColl
 
     /**
      * Initializes the game scene, inventory, input actions, and physics.
+     * Objects from a previous (failed) loading attempt are dropped.
      */
     public async createGameScene() {
-        this.scene = new Scene(this.engine);
+        this.scene = this.createScene();
+        this.gameObjects = [];
+        this.inventory = [];
         // this.enableDebug();
         this.coinSpawner = new CoinSpawner(this.scene);
         for(let i = 0; i < this.inventorySize; i++) {
@@ -199,7 +218,7 @@ export class MultiScene extends BaseScene implements GameObjectVisitor, CubeColl
     public setupCollisions() {
         this.gameObjects.forEach((object) => {
             if(object.getMesh().physicsBody) {
-                object.getMesh().physicsBody.getCollisionObservable().add((collider) => {
+                LevelScope.of(this.scene).observe(object.getMesh().physicsBody.getCollisionObservable(), (collider) => {
                     const player = this.localObjects[0].getMesh().physicsBody;
                     if(collider.collidedAgainst === player) {
                         object.accept(this);
@@ -220,7 +239,9 @@ export class MultiScene extends BaseScene implements GameObjectVisitor, CubeColl
         });
 
         CreateSoundAsync("powerup", "/assets/sounds/powerup.ogg").then(sound => {
-            this.sounds.set("powerup", sound);
+            if (LevelScope.of(this.scene).addSound(sound)) {
+                this.sounds.set("powerup", sound);
+            }
         });
     }
 
@@ -371,7 +392,7 @@ export class MultiScene extends BaseScene implements GameObjectVisitor, CubeColl
         this.localObjects.push(object);
         const body = object.getMesh().physicsBody;
         if(body) {
-            body.getCollisionObservable().add((collider) => {
+            LevelScope.of(this.scene).observe(body.getCollisionObservable(), (collider) => {
                 if(collider.collidedAgainst === this.localObjects[0].getMesh().physicsBody) {
                     object.accept(this);
                 }
@@ -541,9 +562,9 @@ export class MultiScene extends BaseScene implements GameObjectVisitor, CubeColl
     // === GAME LOGIC        ===
     // =========================
 
-    /** Rotates the parent node (cube) along the given axis. */
+    /** Rotates the parent node (cube) along the given axis, on request of another player (never rejected). */
     public rotate(axis: "x" | "y" | "z"): void {
-        this.parent.rotate(axis);
+        this.parent.rotate(axis, false, true);
     }
 
     /** Called when a new object is created in the scene. */
@@ -562,6 +583,25 @@ export class MultiScene extends BaseScene implements GameObjectVisitor, CubeColl
         });
     }
 
+    /** Checkpoints are not used in multiplayer: a dead player is out of the round. */
+    public visitCheckpoint(_: Checkpoint): void {}
+
+    /** Launches the local player from a bounce pad. */
+    public visitBouncePad(pad: BouncePlatform): void {
+        pad.launch(this.localObjects[0] as Player);
+    }
+
+    /** Crumbles a crumbling platform under the local player. */
+    public visitCrumblingPlatform(platform: CrumblingPlatform): void {
+        platform.crumble(this.localObjects[0] as Player);
+    }
+
+    /** Hands the belt of a conveyor to the local player. */
+    public visitConveyor(conveyor: ConveyorPlatform): void {
+        const player = this.localObjects[0] as Player;
+        player.setBelt(conveyor, conveyor.getBeltVelocity());
+    }
+
     /** Handles coin collection logic. */
     public visitCoin(coin: Coin): void {
         this.score += coin.getScore();
@@ -628,6 +668,7 @@ export class MultiScene extends BaseScene implements GameObjectVisitor, CubeColl
         this.localObjects.forEach((object) => this.updateLocalObject(object, dt, input));
         this.remoteObjects.forEach((object) => object.update(dt, input));
         this.remotePlayers.forEach((player) => player.update(dt, input));
+        this.simulate();
         this.timestamp += dt;
     }
 
@@ -724,6 +765,7 @@ export class MultiScene extends BaseScene implements GameObjectVisitor, CubeColl
     /** Sets the parent node for rotating objects. */
     public addParent(parent: ParentNode): void {
         this.parent = parent;
+        this.parent.configureRotation({ cooldown: MultiScene.RotationCooldown });
     }
 
     /** Checks if a position is within the player's subcube. */
@@ -746,11 +788,11 @@ export class MultiScene extends BaseScene implements GameObjectVisitor, CubeColl
         return -1;
     }
 
-    /** Handles collision with the bottom of the cube (player death). */
-    public onBottomCollision(collider: PhysicsBody) {
+    /** Handles collision with a face of the cube or the separator having a hazard (e.g. player death). */
+    public onFaceCollision(collision: FaceCollision) {
         const player = this.localObjects[0] as Player;
-        if(player.getMesh().physicsBody === collider) {
-            player.kill();
+        if(player.getMesh().physicsBody === collision.collider) {
+            player.applyFaceHazard(collision.hazard, collision.normal);
         }
     }
 
@@ -14,8 +14,8 @@ import { MultiScene } from "./MultiScene";
  * based on a string identifier. Each scene is created asynchronously and returns a BaseScene instance.
  */
 export class SceneFactory {
-    private static scenes: { [key: string]: (engine: Engine, inputHandler: InputHandler) => Promise<BaseScene> } = {
-        singleplayer: (engine: Engine, inputHandler: InputHandler) => GameScene.createScene(engine, inputHandler),
+    private static scenes: { [key: string]: (engine: Engine, inputHandler: InputHandler, level?: unknown) => Promise<BaseScene> } = {
+        singleplayer: (engine: Engine, inputHandler: InputHandler, level?: unknown) => GameScene.createScene(engine, inputHandler, level),
         editor: (engine: Engine, inputHandler: InputHandler) => EditorScene.createScene(engine, inputHandler),
         tutorial: (engine, inputHandler) => TutorialScene.createScene(engine, inputHandler),
         multiplayer: (engine: Engine, inputHandler: InputHandler) => MultiScene.createScene(engine, inputHandler),
@@ -26,15 +26,16 @@ export class SceneFactory {
      * @param name The name of the scene to create ("singleplayer", "editor", "tutorial", "multiplayer").
      * @param engine The Babylon.js engine instance.
      * @param inputHandler The input handler for the scene.
+     * @param level Level data to play right away, for the singleplayer scene (e.g. from a shared link).
      * @returns A promise resolving to the requested scene instance.
      * @throws If the scene name is not found in the factory.
      */
-    public static async createScene(name: string, engine: Engine, inputHandler: InputHandler): Promise<BaseScene> {
+    public static async createScene(name: string, engine: Engine, inputHandler: InputHandler, level?: unknown): Promise<BaseScene> {
         const sceneCreator = this.scenes[name];
         if (!sceneCreator) {
             throw new Error(`Scene "${name}" not found in SceneFactory.`);
         }
 
-        return sceneCreator(engine, inputHandler);
+        return sceneCreator(engine, inputHandler, level);
     }
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { Engine, Scene } from "@babylonjs/core";
+import { Engine } from "@babylonjs/core";
 import { BaseScene } from "./BaseScene";
 import { InputHandler } from "../InputHandler";
 import { GameObject } from "../types";
@@ -7,10 +7,11 @@ import { HpBar } from "../HUD/HpBar";
 import { Translation } from "../utils/translation";
 import { NocturnaAudio } from "../NocturnaAudio";
 import { GameScene } from "./GameScene";
+import { LevelFiles } from "../LevelFiles";
 
 export class TutorialScene extends GameScene {
     protected override sceneName: string = "tutorial.json";
-    protected static readonly sceneOrder: string[] = ["jump.json", "platforms.json", "spike_trap.json", "rocket.json"];
+    protected static readonly sceneOrder: string[] = LevelFiles.Tutorial;
     private static readonly explainationsByScene: number[] = [3, 1, 2, 2];
     private static nextStep: boolean = false;
     protected static sceneIndex: number = 0;
@@ -20,10 +21,14 @@ export class TutorialScene extends GameScene {
         if (tutorialScene) {
             scene = tutorialScene;
         } else {
+            // A new tutorial starts from its first phase
+            TutorialScene.sceneIndex = 0;
+            TutorialScene.nextStep = false;
             scene = new TutorialScene(engine, inputHandler);
+            scene.state = new LoadingState(scene);
+            scene.state.enter();
         }
         await scene.addPhysic();
-        scene.state = new LoadingState(scene);
         scene.loadLevel(this.sceneOrder[this.sceneIndex]);
         return scene;
     }
@@ -45,7 +50,7 @@ export class TutorialScene extends GameScene {
         this.state.enter();
         this.pauseScene();
         NocturnaAudio.getInstance().then(audio => {
-            audio.setBackgroundMusic("assets/music/background.mp3");
+            audio.setLevelMusic(this.meta.music);
         });
     }
 
@@ -55,22 +60,23 @@ export class TutorialScene extends GameScene {
         }
         this.state.exit();
         this.state = new LoadingState(this);
-        this.state.enter();
 
         this.gameObjects = []
         this.player = null;
         this.parent = null;
+        this.rotationGroups = null;
 
         this.cube = null;
         this.win = false;
 
-        this.scene.dispose();
-        this.scene = new Scene(this.engine);
+        this.disposeScene();
+        this.scene = this.createScene();
         this.levelLoader.setScene(this.scene);
         if (TutorialScene.sceneIndex >= TutorialScene.sceneOrder.length) {
             this.showEndTutorial();
             return;
         }
+        this.state.enter();
         TutorialScene.createScene(this.engine, this.inputHandler, this);
     }
 
@@ -79,9 +85,7 @@ export class TutorialScene extends GameScene {
         showEndTutorial.classList.remove("hidden");
 
         const menuButton = document.getElementById("finish-tutorial-button") as HTMLElement;
-        menuButton.addEventListener("click", () => {
-            window.location.href = "index.html";
-        });
+        menuButton.addEventListener("click", () => this.quitToMenu(), { once: true });
     }
 
     private pauseScene() {
@@ -99,7 +103,7 @@ export class TutorialScene extends GameScene {
         const resumeButton = document.getElementById("resume-button") as HTMLElement;
         resumeButton.addEventListener("click", () => {
             this.resumeScene();
-        });
+        }, { once: true });
     }
 
     private resumeScene() {
@@ -143,7 +147,20 @@ export class TutorialScene extends GameScene {
     }
 
     public onQuit() {
-        window.location.reload();
+        this.quitToMenu();
+    }
+
+    /**
+     * Leaves the tutorial: also hides its pause and end screens.
+     */
+    public override dispose() {
+        document.getElementById("pause-overlay").classList.add("hidden");
+        document.getElementById("end-tutorial").classList.add("hidden");
+        super.dispose();
+    }
+
+    public onLoadBack() {
+        this.onQuit();
     }
 
     public onContinue() {
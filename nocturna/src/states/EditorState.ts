@@ -1,13 +1,8 @@
-import { Coin, CoinFactory } from "../GameObjects/Coin";
-import { ParentedPlatform, ParentedPlatformFactory, FixedPlatform, FixedPlatformFactory } from "../GameObjects/Platform";
-import { Player, PlayerFactory } from "../GameObjects/Player";
-import { FixedRocket, FixedRocketFactory } from "../GameObjects/Rocket";
-import { SpikeTrapObject, SpikeTrapFactory } from "../GameObjects/SpikeTrap";
-import { VictoryCondition, VictoryConditionFactory } from "../GameObjects/Victory";
 import { InputHandler } from "../InputHandler";
+import { ObjectRegistry } from "../ObjectRegistry";
 import { LevelSelectionObserver, LevelSelectionScene } from "../HUD/LevelSelection";
 import { EditorScene } from "../scene/EditorScene";
-import { AbstractState, CharacterInput, GameObjectFactory } from "../types";
+import { AbstractState, CharacterInput } from "../types";
 
 /**
  * EditorState is the abstract base class for all editor mode states in the level editor.
@@ -94,23 +89,14 @@ export abstract class EditorState implements AbstractState {
 /**
  * AdditionState allows the user to add new objects to the level.
  * 
- * - Maps input actions to object creation (platforms, coins, traps, player, etc.).
- * - Handles cloning and deletion of selected objects.
+ * - Maps input actions to object creation, following the editor palette of the ObjectRegistry.
+ * - Handles cloning and deletion of selected objects, and the waypoints of the selected moving platform.
+ * - Saves the selected group as a prefab and places prefab instances.
  * - Inherits state transition logic from EditorState.
  */
 export class AdditionState extends EditorState {
-    private factories: Map<string, GameObjectFactory>;
-
     constructor(scene: EditorScene, inputHandler: InputHandler) {
         super(scene, inputHandler);
-        this.factories = new Map<string, GameObjectFactory>();
-        this.factories.set(ParentedPlatform.Type, new ParentedPlatformFactory());
-        this.factories.set(FixedPlatform.Type, new FixedPlatformFactory());
-        this.factories.set(VictoryCondition.Type, new VictoryConditionFactory());
-        this.factories.set(Player.Type, new PlayerFactory());
-        this.factories.set(FixedRocket.Type, new FixedRocketFactory());
-        this.factories.set(SpikeTrapObject.Type, new SpikeTrapFactory());
-        this.factories.set(Coin.Type, new CoinFactory());
     }
 
     public name(): string {
@@ -124,23 +110,36 @@ export class AdditionState extends EditorState {
     enter() {
         super.enter();
 
-        this.inputHandler.addAction("action_1", () => this.scene.addObject(this.factories.get(FixedPlatform.Type)));
-        this.inputHandler.addAction("action_2", () => this.scene.addObject(this.factories.get(ParentedPlatform.Type)));
-        this.inputHandler.addAction("action_3", () => this.scene.addObject(this.factories.get(SpikeTrapObject.Type)));
-        this.inputHandler.addAction("action_4", () => this.scene.addObject(this.factories.get(Coin.Type)));
-        this.inputHandler.addAction("action_5", () => this.scene.addObject(this.factories.get(Player.Type)));
-        this.inputHandler.addAction("action_6", () => this.scene.addObject(this.factories.get(VictoryCondition.Type)));
-        this.inputHandler.addAction("clone", () => this.scene.clone(this.factories));
+        ObjectRegistry.getPalette().forEach((definition, index) => {
+            const action = ObjectRegistry.getPaletteAction(index);
+            if (action) {
+                this.inputHandler.addAction(action, () => this.scene.addObject(definition.type));
+            }
+        });
+        this.inputHandler.addAction("clone", () => this.scene.clone());
+        this.inputHandler.addAction("save_prefab", () => this.scene.saveSelectionAsPrefab());
+        this.inputHandler.addAction("place_prefab", () => this.scene.placePrefab());
+        this.inputHandler.addAction("next_prefab", () => this.scene.nextPrefab());
         this.inputHandler.addAction("delete", () => this.scene.deleteSelection());
+        this.inputHandler.addAction("add_waypoint", () => this.scene.addWaypoint());
+        this.inputHandler.addAction("remove_waypoint", () => this.scene.removeWaypoint());
     }
 
     exit() {
         super.exit();
-        this.inputHandler.removeAction("action_1");
-        this.inputHandler.removeAction("action_2");
-        this.inputHandler.removeAction("action_3");
-        this.inputHandler.removeAction("action_4");
+        ObjectRegistry.getPalette().forEach((_, index) => {
+            const action = ObjectRegistry.getPaletteAction(index);
+            if (action) {
+                this.inputHandler.removeAction(action);
+            }
+        });
+        this.inputHandler.removeAction("clone");
+        this.inputHandler.removeAction("save_prefab");
+        this.inputHandler.removeAction("place_prefab");
+        this.inputHandler.removeAction("next_prefab");
         this.inputHandler.removeAction("delete");
+        this.inputHandler.removeAction("add_waypoint");
+        this.inputHandler.removeAction("remove_waypoint");
     }
 
     update(dt: number, input: CharacterInput): AbstractState | null {
@@ -285,8 +284,12 @@ export class SelectionState implements AbstractState, LevelSelectionObserver {
 
     }
     exit() {
-        this.scene.getScene().dispose();
-        this.scene.createLevel(this.level);
+        this.levelSelector.dispose();
+        // No level when the editor is left from the selection
+        if (this.level) {
+            this.scene.getScene().dispose();
+            this.scene.createLevel(this.level);
+        }
     }
 
     update(_: number, __: CharacterInput): AbstractState | null {
@@ -297,6 +300,6 @@ export class SelectionState implements AbstractState, LevelSelectionObserver {
         this.level = level;
     }
 
-    onDataTransmited(_: JSON): void {
+    onDataTransmited(_: unknown): void {
     }
 }
@@ -1,5 +1,7 @@
 import { createWinScreenHUD, createLoseScreenHUD, IEndScreenHUD } from "../HUD/EndScreenHUD";
 import { LevelSelectionObserver, LevelSelectionScene } from "../HUD/LevelSelection";
+import { createLoadingHUD, ILoadingHUD } from "../HUD/LoadingHUD";
+import { LevelLoadFailureReason } from "../LevelLoader";
 import { GameScene } from "../scene/GameScene";
 import { CharacterInput } from "../types";
 
@@ -43,13 +45,28 @@ export abstract class AbstractGameSceneState {
     public update(_: number, __: CharacterInput): AbstractGameSceneState | null {
         return null;
     }
+
+    /**
+     * Called while the level assets are loading (default: no-op).
+     * @param _ Number of finished asset tasks.
+     * @param __ Total number of asset tasks.
+     */
+    public onProgress(_: number, __: number): void {}
+
+    /**
+     * Called when the level could not be loaded (default: no-op).
+     * @param _ Why the level could not be loaded.
+     * @param __ The detailed error message.
+     */
+    public onLevelLoadFailed(_: LevelLoadFailureReason, __: string): void {}
 }
 
 /**
  * InGameState handles the main gameplay loop.
  * 
  * - Updates all game objects and the timer.
- * - Checks for win/lose conditions and transitions to EndState if needed.
+ * - Checks for win/lose conditions and transitions to EndState if needed; a dead player respawns at the last
+ *   checkpoint instead while it can.
  * - Renders the game scene.
  */
 export class InGameState extends AbstractGameSceneState {
@@ -77,10 +94,16 @@ export class InGameState extends AbstractGameSceneState {
                 createWinScreenHUD(this.gameScene,
                     this.gameScene.hasNextLevel() ? "continue" : "normal",
                     this.gameScene.getScore(), 
-                    this.gameScene.getTimer()));
+                    this.gameScene.getTimer(),
+                    this.gameScene.getMeta(),
+                    this.gameScene.getRecord()));
         }
 
         if(this.gameScene.checkLoose()) {
+            this.gameScene.recordDeath();
+            if (this.gameScene.respawn()) {
+                return null;
+            }
             return new EndState(this.gameScene, createLoseScreenHUD(this.gameScene, this.gameScene.getScore(), this.gameScene.getTimer()));
         }
 
@@ -91,7 +114,7 @@ export class InGameState extends AbstractGameSceneState {
      * Renders the game scene.
      */
     public render(): void {
-        this.gameScene.getScene().render();
+        this.gameScene.renderWorld();
     }
 }
 
@@ -99,12 +122,45 @@ export class InGameState extends AbstractGameSceneState {
  * LoadingState represents the loading phase of the game scene.
  * 
  * - Used while assets and levels are being loaded.
- * - Can be extended for loading animations or progress bars.
+ * - Displays the loading progress bar.
+ * - Displays a recoverable error screen (retry / back to selection) if the loading fails.
  */
 export class LoadingState extends AbstractGameSceneState {
+    private hud: ILoadingHUD;
+
     constructor(gameScene: GameScene) {
         super(gameScene);
     }
+
+    /**
+     * Called when entering the loading state. Displays the loading screen.
+     */
+    public enter(): void {
+        super.enter();
+        this.hud = createLoadingHUD(this.gameScene);
+    }
+
+    /**
+     * Called when exiting the loading state. Disposes the HUD.
+     */
+    public exit(): void {
+        this.hud?.dispose();
+        this.hud = null;
+    }
+
+    /**
+     * Updates the progress bar.
+     */
+    public onProgress(loaded: number, total: number): void {
+        this.hud?.setProgress(loaded, total);
+    }
+
+    /**
+     * Displays the error screen.
+     */
+    public onLevelLoadFailed(reason: LevelLoadFailureReason, details: string): void {
+        this.hud?.showError(reason, details);
+    }
 }
 
 /**
@@ -162,7 +218,7 @@ export class SelectionState extends AbstractGameSceneState implements LevelSelec
     private levelSelector: LevelSelectionScene;
     private level: string = null;
     private file: string = "game_levels.json";
-    private data: JSON = null;
+    private data: unknown = null;
 
     constructor(gameScene: GameScene) {
         super(gameScene);
@@ -172,7 +228,7 @@ export class SelectionState extends AbstractGameSceneState implements LevelSelec
      * Renders the level selection scene.
      */
     public render(): void {
-        this.gameScene.getScene().render();
+        this.gameScene.renderWorld();
     }
 
     /**
@@ -220,7 +276,7 @@ export class SelectionState extends AbstractGameSceneState implements LevelSelec
      * Callback when data is transmitted (not used in this state).
      * @param _ Data transmitted.
      */
-    onDataTransmited(data: JSON): void {
+    onDataTransmited(data: unknown): void {
         this.data = data;
     }
 }
\ No newline at end of file
@@ -1,20 +1,19 @@
 import { AssetsManager, Vector3 } from "@babylonjs/core";
-import { Coin, CoinFactory, SuperCoin, SuperCoinFactory } from "../GameObjects/Coin";
-import { FixedPlatform, FixedPlatformFactory, ParentedPlatform, ParentedPlatformFactory } from "../GameObjects/Platform";
-import { Player, PlayerFactory } from "../GameObjects/Player";
-import { FixedRocket, FixedRocketFactory } from "../GameObjects/Rocket";
-import { SpikeTrapFactory, SpikeTrapObject } from "../GameObjects/SpikeTrap";
-import { VictoryCondition, VictoryConditionFactory } from "../GameObjects/Victory";
+import { Player } from "../GameObjects/Player";
 import { NetworkManager, NetworkObserver } from "../network/NetworkManager";
 import { MultiScene } from "../scene/MultiScene";
 import { CharacterInput, GameObject, GameObjectConfig, GameObjectFactory, Utils } from "../types";
-import { LevelLoader, LevelLoaderObserver } from "../LevelLoader";
+import { LevelLoader, LevelLoaderObserver, LevelLoadFailureReason } from "../LevelLoader";
 import { Cube } from "../Cube";
 import { RemotePlayer } from "../GameObjects/RemoteGameObject";
 import { Lobby, LobbyObserver } from "../HUD/Lobby";
 import { ParentNode } from "../ParentNode";
 import { createMultiLoseScreenHUD, createMultiWinScreenHUD, IEndScreenHUD, IEndScreenHUDListener } from "../HUD/EndScreenHUD";
 import { NocturnaAudio } from "../NocturnaAudio";
+import { createLoadingHUD, ILoadingHUD, ILoadingHUDListener } from "../HUD/LoadingHUD";
+import { LevelFiles } from "../LevelFiles";
+import { LevelMeta, LevelSchema, PrefabData, PrefabInstanceData } from "../LevelSchema";
+import { ObjectRegistry } from "../ObjectRegistry";
 
 type Participant = {
     id: string;
@@ -40,6 +39,8 @@ export abstract class AbstractGameSceneState implements NetworkObserver {
     public enter(): void {}
     public exit(): void {}
     public render(): void {}
+    /** Called when the scene is left in this state: releases what lives outside the Babylon.js scene (DOM HUDs). */
+    public dispose(): void {}
 
     public update(_: number, __: CharacterInput): AbstractGameSceneState | null {
         return null;
@@ -66,7 +67,6 @@ export abstract class AbstractGameSceneState implements NetworkObserver {
  * - Handles network messages for object updates, creation, removal, and player reports.
  */
 export class InGameState extends AbstractGameSceneState {
-    private factories : Map<string, GameObjectFactory>;
     private assetsManager: AssetsManager;
 
     constructor(gameScene: MultiScene) {
@@ -74,16 +74,6 @@ export class InGameState extends AbstractGameSceneState {
         this.assetsManager = new AssetsManager(gameScene.getScene());
         this.assetsManager.useDefaultLoadingScreen = false;
 
-        this.factories = new Map<string, GameObjectFactory>();
-        this.factories.set(ParentedPlatform.Type, new ParentedPlatformFactory());
-        this.factories.set(FixedPlatform.Type, new FixedPlatformFactory());
-        this.factories.set(VictoryCondition.Type, new VictoryConditionFactory());
-        this.factories.set(Player.Type, new PlayerFactory());
-        this.factories.set(FixedRocket.Type, new FixedRocketFactory());
-        this.factories.set(SpikeTrapObject.Type, new SpikeTrapFactory());
-        this.factories.set(Coin.Type, new CoinFactory());
-        this.factories.set(SuperCoin.Type, new SuperCoinFactory());
-
         const networkManager = NetworkManager.getInstance();
         networkManager.setObserver(this);
     }
@@ -115,7 +105,7 @@ export class InGameState extends AbstractGameSceneState {
     }
 
     public render(): void {
-        this.gameScene.getScene().render();
+        this.gameScene.renderWorld();
     }
 
     public onParticipantLeft(id: string): void {
@@ -128,7 +118,7 @@ export class InGameState extends AbstractGameSceneState {
             this.gameScene.updateRemoteObject(data.id, participantId, data.position, data.timestamp);
         }
         else if(action === "createObject") {
-            const factory = this.factories.get(data.type);
+            const factory = ObjectRegistry.getFactory(data.type);
             if(!factory) return;
 
             const config: GameObjectConfig = {
@@ -228,13 +218,16 @@ export class DeadState extends InGameState {
  * 
  * - Loads the level and assigns players to subcubes.
  * - Waits for all players to be ready before starting the game.
+ * - Displays the loading progress, and an error screen (retry / back to menu) if the loading fails.
  * - Implements LevelLoaderObserver for level loading callbacks.
  */
-export class LoadingState extends AbstractGameSceneState implements LevelLoaderObserver {
+export class LoadingState extends AbstractGameSceneState implements LevelLoaderObserver, ILoadingHUDListener {
     private levelLoader: LevelLoader;
     private ready : boolean = false;
     private localPlayer: Participant;
     private remoteParticipant: Participant[];
+    private hud: ILoadingHUD;
+    private meta: LevelMeta = LevelSchema.meta();
 
     private players: Player[] = [];
 
@@ -251,16 +244,24 @@ export class LoadingState extends AbstractGameSceneState implements LevelLoaderO
         const networkManager = NetworkManager.getInstance();
         networkManager.setObserver(this);
 
+        this.loadLevel();
+    }
+
+    private loadLevel(): void {
+        this.players = [];
+        this.hud = createLoadingHUD(this);
         this.gameScene.createGameScene().then(() => {
             this.levelLoader = new LevelLoader(this.gameScene.getScene(), this, 
             { create: (factory: GameObjectFactory, config: GameObjectConfig) => factory.create(config) } );
-            this.levelLoader.loadLevel("multi.json");
+            this.levelLoader.loadLevel(LevelFiles.Multiplayer);
         });
     }
 
     public exit(): void {
+        this.hud?.dispose();
+        this.hud = null;
         NocturnaAudio.getInstance().then(audio => {
-            audio.setBackgroundMusic("assets/music/background.mp3");
+            audio.setLevelMusic(this.meta.music);
         });
     }
 
@@ -275,6 +276,11 @@ export class LoadingState extends AbstractGameSceneState implements LevelLoaderO
         return -1;
     }
 
+    public onMeta(meta: LevelMeta): void {
+        this.meta = meta;
+    }
+    public onPrefabs(_: { [name: string]: PrefabData }): void {}
+    public onInstanceCreated(_: PrefabInstanceData, __: GameObject[]): void {}
     public onCube(cube: Cube): void {
         // this.cube = cube;
         cube.setupMulti();
@@ -286,7 +292,31 @@ export class LoadingState extends AbstractGameSceneState implements LevelLoaderO
     public onParent(parent: ParentNode): void {
         this.gameScene.addParent(parent);
     }
+    // Only the main group is rotated (and synchronized) in multiplayer; the level linter rejects the other groups
+    public onRotationGroups(groups: ParentNode[]): void {
+        if (groups.length > 1) {
+            console.warn(`The rotation groups ${groups.slice(1).map(group => group.getId()).join(", ")} do not rotate in multiplayer.`);
+        }
+    }
+    public onProgress(loaded: number, total: number): void {
+        this.hud?.setProgress(loaded, total);
+    }
+    public onLevelLoadFailed(reason: LevelLoadFailureReason, details: string): void {
+        this.hud?.showError(reason, details);
+    }
+    public onLoadRetry(): void {
+        this.hud.dispose();
+        this.gameScene.disposeScene();
+        this.loadLevel();
+    }
+    public onLoadBack(): void { this.gameScene.quitToMenu(); }
+    public dispose(): void {
+        this.hud?.dispose();
+        this.hud = null;
+    }
     public onLevelLoaded(): void {
+        this.hud?.dispose();
+        this.hud = null;
         this.players.forEach(player => {
             const subcube = this.findSubcube(player);
             if(subcube === this.localPlayer.num) {
@@ -364,7 +394,8 @@ export class WinningState extends AbstractGameSceneState implements IEndScreenHU
 
     public onRetry(): void {}
     public onContinue(): void {}
-    public onQuit(): void { window.location.reload(); }
+    public onQuit(): void { this.gameScene.quitToMenu(); }
+    public dispose(): void { this.exit(); }
 }
 
 /**
@@ -393,7 +424,8 @@ export class LosingState extends AbstractGameSceneState implements IEndScreenHUD
     }
     public onRetry(): void {}
     public onContinue(): void {}
-    public onQuit(): void { window.location.reload(); }
+    public onQuit(): void { this.gameScene.quitToMenu(); }
+    public dispose(): void { this.exit(); }
 }
 
 /**
@@ -423,7 +455,7 @@ export class LobbyState extends AbstractGameSceneState implements LobbyObserver
     public exit(): void {
         console.log("Exiting Lobby State");
         this.lobby.eraseMenu();
-        this.gameScene.getScene().dispose();
+        this.gameScene.disposeScene();
     }
     public onRoomCreated(roomId: string): void {
         console.log("Room created:", roomId);
@@ -503,7 +535,7 @@ export class LobbyState extends AbstractGameSceneState implements LobbyObserver
     }
 
     public render(): void {
-        this.gameScene.getScene().render();
+        this.gameScene.renderWorld();
     }
 
     private findAvailableNum() : number {
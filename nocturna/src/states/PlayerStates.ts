@@ -1,25 +1,45 @@
 // ========================= STATES =========================
 // This section contains the implementation of the player's states,
-// including JumpingState, MovingState, IdleState, FallingState, KnockbackState,
-// PlayerDamageableState, and PlayerInvicibleState. Each state
+// including JumpingState, MovingState, IdleState, FallingState, WallSlideState,
+// WallJumpState, KnockbackState, PlayerDamageableState, and
+// PlayerInvicibleState. Each state
 // manages specific behaviors and transitions based on player input
 // and interactions with the environment.
 // ==========================================================
 
-import { Color3, Color4, Animation, ParticleSystem, Texture, Vector3 } from "@babylonjs/core";
+import { Color3, Color4, Animation, ParticleSystem, Texture } from "@babylonjs/core";
 import { Player } from "../GameObjects/Player";
 import { AbstractState, CharacterInput } from "../types";
 
+/**
+ * Lands the player: plays the landing sound and returns MovingState if a lateral input is held, IdleState otherwise.
+ */
+function land(player: Player, input: CharacterInput): AbstractState {
+    player.playSound("land");
+    if (input.left || input.right) return new MovingState(player);
+    else return new IdleState(player);
+}
+
+/**
+ * Returns WallSlideState if the player pushes against a wall while going down (and wall jumps are enabled),
+ * null otherwise. Pushing is required so that walking off a platform does not slide down its side.
+ */
+function slideOnWall(player: Player, input: CharacterInput): AbstractState | null {
+    const direction = (input.right ? 1 : 0) - (input.left ? 1 : 0);
+    if (direction !== 0 && player.getVerticalSpeed() <= 0 && player.getWall(direction)) {
+        return new WallSlideState(player);
+    }
+    return null;
+}
+
 /**
  * JumpingState handles the player's behavior while jumping or double-jumping.
- * - Allows for a double jump if the input is pressed again mid-air.
- * - Transitions to MovingState or IdleState when the player lands.
+ * - Allows the air jumps of the movement profile if the input is pressed again mid-air.
+ * - Transitions to MovingState or IdleState when the player lands, WallSlideState when it falls against a wall.
  */
 class JumpingState implements AbstractState {
     public static readonly Type: string = "jumping";
     private player: Player;
-    private doubleJumped: boolean = false;
-    private canDoubleJump: boolean = false;
 
     constructor(player: Player) {
         this.player = player;
@@ -29,43 +49,34 @@ class JumpingState implements AbstractState {
         this.player.playSound("jump");
     }
     public exit(): void {
-        this.player.playSound("land");
     }
     public name(): string {
         return JumpingState.Type;
     }
 
     public update(dt: number, input: CharacterInput): AbstractState | null {
-        this.player.move(dt, input);
-
-        if(!this.doubleJumped && !this.canDoubleJump) {
-            // Player must first release the jump button to allow double jump
-            this.canDoubleJump = !input.jump;
-        }
-
-        if(input.jump && this.canDoubleJump) {
-            this.player.jump();
-            this.doubleJumped = true;
-            this.canDoubleJump = false;
-        }
+        this.player.move(input, dt);
+        // Player must press the jump button again (the player tracks the presses) for an air jump
+        this.player.tryJump();
 
         const isGrounded = this.player.isGrounded();
-        const velocity = this.player.getMesh().physicsBody.getLinearVelocity().y;
+        const velocity = this.player.getVerticalSpeed();
 
         // check if velocity is less than 0, meaning the player is falling
         // This avoid detecting as grounded too soon (when starting the jump)
         if (isGrounded && velocity <= 0) {
-            if (input.left || input.right) return new MovingState(this.player);
-            else return new IdleState(this.player);
+            return land(this.player, input);
         }
 
-        return null;
+        return slideOnWall(this.player, input);
     }
 }
 
 /**
  * FallingState handles the player's behavior while falling (not jumping).
- * - Transitions to MovingState or IdleState when the player lands.
+ * - Allows a jump shortly after walking off a ledge (coyote time), or an air jump.
+ * - Transitions to JumpingState when jumping, MovingState or IdleState when the player lands,
+ *   WallSlideState when it pushes against a wall.
  */
 class FallingState implements AbstractState {
     public static readonly Type: string = "falling";
@@ -78,30 +89,119 @@ class FallingState implements AbstractState {
     public enter(): void {
     }
     public exit(): void {
-        this.player.playSound("land");
     }
     public name(): string {
         return FallingState.Type;
     }
 
     public update(dt: number, input: CharacterInput): AbstractState | null {
-        this.player.move(dt, input);
+        this.player.move(input, dt);
+
+        // A wall takes over the jump: the player jumps off it instead of using an air jump
+        const wallSlide = slideOnWall(this.player, input);
+        if (wallSlide) {
+            return wallSlide;
+        }
+
+        if (this.player.tryJump()) {
+            return new JumpingState(this.player);
+        }
 
         const isGrounded = this.player.isGrounded();
 
         if (isGrounded) {
-            if (input.left || input.right) return new MovingState(this.player);
-            else return new IdleState(this.player);
+            return land(this.player, input);
+        }
+
+        return null;
+    }
+}
+
+/**
+ * WallSlideState handles the player's behavior while sliding down a wall (when the level allows wall jumps).
+ * - Limits the fall speed to the wall slide speed of the movement profile.
+ * - Transitions to WallJumpState if jump is pressed, FallingState when the player leaves the wall,
+ *   or MovingState or IdleState when it lands.
+ */
+class WallSlideState implements AbstractState {
+    public static readonly Type: string = "wallslide";
+    private player: Player;
+
+    constructor(player: Player) {
+        this.player = player;
+    }
+
+    public enter(): void {
+        this.player.playSound("wallslide");
+    }
+    public exit(): void {
+    }
+    public name(): string {
+        return WallSlideState.Type;
+    }
+
+    public update(dt: number, input: CharacterInput): AbstractState | null {
+        if (this.player.isGrounded()) {
+            return land(this.player, input);
+        }
+        const wall = this.player.getWall();
+        if (!wall) {
+            return new FallingState(this.player);
+        }
+        if (this.player.tryWallJump(wall)) {
+            return new WallJumpState(this.player);
         }
 
+        this.player.move(input, dt);
+        this.player.slideOnWall();
         return null;
     }
 }
 
+/**
+ * WallJumpState handles the player's behavior after jumping off a wall.
+ * - Ignores the lateral input for a short time (see wallJumpLock), so that the player leaves the wall.
+ * - Then behaves like JumpingState: air jumps, landing, and sliding down the next wall.
+ */
+class WallJumpState implements AbstractState {
+    public static readonly Type: string = "walljump";
+    private player: Player;
+    private lock: number;
+
+    constructor(player: Player) {
+        this.player = player;
+        this.lock = player.getMovement().wallJumpLock;
+    }
+
+    public enter(): void {
+        this.player.playSound("walljump");
+    }
+    public exit(): void {
+    }
+    public name(): string {
+        return WallJumpState.Type;
+    }
+
+    public update(dt: number, input: CharacterInput): AbstractState | null {
+        if (this.lock > 0) {
+            this.lock -= dt;
+            return null;
+        }
+        this.player.move(input, dt);
+        this.player.tryJump();
+
+        if (this.player.isGrounded() && this.player.getVerticalSpeed() <= 0) {
+            return land(this.player, input);
+        }
+        return slideOnWall(this.player, input);
+    }
+}
+
 /**
  * MovingState handles the player's behavior while moving on the ground.
  * - Plays movement sounds at intervals.
- * - Transitions to JumpingState if jump is pressed, IdleState if no movement, or FallingState if not grounded.
+ * - Transitions to JumpingState if jump is pressed (or was pressed just before landing), IdleState if no movement,
+ *   or FallingState if not grounded.
  */
 class MovingState implements AbstractState {
     public static readonly Type: string = "moving";
@@ -124,8 +224,7 @@ class MovingState implements AbstractState {
     }
     public update(dt: number, input: CharacterInput): AbstractState | null {
         // console.log("MovingState", dt, input);
-        if (input.jump) {
-            this.player.jump();
+        if (this.player.tryJump()) {
             return new JumpingState(this.player);
         }
         else if (!input.left && !input.right) {
@@ -135,7 +234,7 @@ class MovingState implements AbstractState {
             return new FallingState(this.player);
         }
 
-        this.player.move(dt, input);
+        this.player.move(input, dt);
 
         if(this.currentSoundTime >= this.soundInterval) {
             this.currentSoundTime = 0;
@@ -151,7 +250,7 @@ class MovingState implements AbstractState {
 
 /**
  * IdleState handles the player's behavior when standing still on the ground.
- * - Stops horizontal movement.
+ * - Slows the horizontal movement down to a stop (see the deceleration of the movement profile).
  * - Transitions to JumpingState, MovingState, or FallingState based on input and grounded state.
  */
 export class IdleState implements AbstractState {
@@ -169,18 +268,14 @@ export class IdleState implements AbstractState {
         return IdleState.Type;
     }
     public update(dt: number, input: CharacterInput): AbstractState | null {
-        // must update the velocity to 0, becuase of moving state inertia
-        const velocity = this.player.getMesh().physicsBody.getLinearVelocity();
-        velocity.x = 0;
-        this.player.getMesh().physicsBody.setLinearVelocity(velocity);
+        // Brakes without input, or starts moving with it
+        this.player.move(input, dt);
 
         // console.log("IdleState", dt, input);
-        if (input.jump) {
-            this.player.jump();
+        if (this.player.tryJump()) {
             return new JumpingState(this.player);
         }
         else if (input.left || input.right) {
-            this.player.move(dt, input);
             return new MovingState(this.player);
         }
         else if (!this.player.isGrounded()) {
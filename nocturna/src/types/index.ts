@@ -2,6 +2,10 @@ import { Mesh, Vector3, Scene, AssetsManager, MeshAssetTask, Matrix, TransformNo
 import { VictoryCondition } from "../GameObjects/Victory";
 import { ParentNode } from "../ParentNode";
 import { Coin } from "../GameObjects/Coin";
+import { Checkpoint } from "../GameObjects/Checkpoint";
+import { BouncePlatform, ConveyorPlatform, CrumblingPlatform } from "../GameObjects/Platform";
+import { ObjectProperties, PathData } from "../LevelSchema";
+import { LevelScope } from "../LevelScope";
 
 /**
  * CharacterInput represents the current input state for character movement and actions.
@@ -22,6 +26,7 @@ export interface CharacterInput {
 export enum CollisionGroup {
     FACES = 0x0002,
     ROCKET = 0x0004,
+    ONE_WAY = 0x0008,
 }
 
 /**
@@ -63,6 +68,10 @@ export interface GameObjectVisitor {
     visitCoin(coin: Coin): void;
     visitEnemy(enemy: Enemy): void;
     visitVictory(portal: VictoryCondition): void;
+    visitCheckpoint(checkpoint: Checkpoint): void;
+    visitBouncePad(pad: BouncePlatform): void;
+    visitCrumblingPlatform(platform: CrumblingPlatform): void;
+    visitConveyor(conveyor: ConveyorPlatform): void;
 }
 
 /**
@@ -76,6 +85,10 @@ export interface GameObjectConfig {
     parent?: ParentNode;
     scene: Scene;
     assetsManager?: AssetsManager;
+    /** Per-instance properties from the level file; factories merge them with the defaults of their type. */
+    properties?: ObjectProperties;
+    /** Path from the level file, for the types moving along a path; waypoints are level coordinates. */
+    path?: PathData;
 }
 
 /**
@@ -105,6 +118,8 @@ export interface AbstractState {
  */
 export interface EditorObject {
     move(movement: Vector3): void;
+    /** Moves the object, and its path if it follows one, by an offset in level coordinates. */
+    translate(offset: Vector3): void;
     updatePosition(dt: number, input: CharacterInput): void;
     updateRotation(dt: number, input: CharacterInput): void;
     updateScale(dt: number, input: CharacterInput): void;
@@ -113,6 +128,11 @@ export interface EditorObject {
     getMesh(): Mesh;
     getType(): string;
     getMeshes(): Mesh[];
+    getProperties(): ObjectProperties;
+    /** Adds a waypoint at the end of the path of the object; returns false if the object does not follow a path. */
+    addWaypoint(point: Vector3): boolean;
+    /** Removes the last waypoint of the path of the object; returns false if there is none. */
+    removeWaypoint(): boolean;
     serialize(): any;
 }
 
@@ -212,20 +232,22 @@ export class Utils {
     }
 
     /**
-     * Loads a sound file using the assets manager.
-     * @param assetsManager The assets manager.
+     * Loads a sound file using the assets manager. The sound is released with the level (see LevelScope).
+     * @param config The game object configuration.
      * @param name The sound name.
      * @param file The sound file path.
-     * @param callback Callback when the sound is loaded.
+     * @param callback Callback when the sound is loaded (not called if the level was disposed meanwhile).
      * @param spatial Whether the sound is spatialized.
      */
-    static loadSound(assetsManager: AssetsManager, name: string, file: string, callback: (sound: StaticSound) => void, spatial?: boolean): void {
-        const soundTask = assetsManager.addBinaryFileTask(name, file);
+    static loadSound(config: GameObjectConfig, name: string, file: string, callback: (sound: StaticSound) => void, spatial?: boolean): void {
+        const soundTask = config.assetsManager.addBinaryFileTask(name, file);
         soundTask.onSuccess = async (task) => {
             console.log(`Loaded sound ${name} successfully`);
             const sound = await CreateSoundAsync(name, task.data, {spatialEnabled: spatial || false, loop: false, autoplay: false});
             sound.volume = 1; // Set volume to 100%
-            callback(sound);
+            if (LevelScope.of(config.scene).addSound(sound)) {
+                callback(sound);
+            }
         };
         soundTask.onError = (_, message) => {
             console.error(`Failed to load sound ${name}: ${message}`);
@@ -248,10 +270,10 @@ export class Utils {
     }
 
     /**
-     * Calculates the position of a child relative to its parent node's rotation.
+     * Calculates the position of a child relative to its parent node's position (pivot) and rotation.
      * @param parent The parent node.
-     * @param position The local position.
-     * @returns The transformed global position.
+     * @param position The position in level coordinates.
+     * @returns The position in the parent node space.
      */
     static calculatePositionRelativeToParent(parent: ParentNode, position: Vector3): Vector3 {
         // Create a rotation matrix from the parent's rotation
@@ -265,10 +287,9 @@ export class Utils {
         // Invert the parent's rotation matrix
         const inverseParentRotationMatrix = Matrix.Invert(parentRotationMatrix);
     
-        // Apply the inverse rotation to the local position
-        const transformedPosition = Vector3.TransformCoordinates(position, inverseParentRotationMatrix);
+        // Apply the inverse rotation to the position relative to the pivot
+        const transformedPosition = Vector3.TransformCoordinates(position.subtract(parent.getPosition()), inverseParentRotationMatrix);
     
-        // Add the parent's position to get the global position
         return transformedPosition;
     }
 
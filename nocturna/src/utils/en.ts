@@ -4,6 +4,13 @@ export const en = {
     "setting.keybinds": "Keybinds",
     "setting.language": "Language",
     "setting.presets": "Presets",
+    "setting.save": "Save",
+    "setting.export": "Export",
+    "setting.import": "Import",
+    "setting.import-done": "Save imported",
+    "setting.import-failed": "Invalid save file",
+    "level.shared-invalid": "This shared level cannot be opened.",
+    "menu.confirm": "Go back to the main menu? The current level and the unsaved changes will be lost.",
     "graphics.ultra-low": "Ultra Low",
     "graphics.low": "Low Graphics",
     "graphics.high": "High Graphics",
@@ -24,6 +31,12 @@ export const en = {
     "win.time": "Time Elapsed:",
     "win.restart": "Restart",
     "win.menu": "Main Menu",
+    "win.par": "Par Time:",
+    "win.rating": "Rating:",
+    "win.by": "by",
+    "win.new-record": "New Record!",
+    "win.best-time": "Best Time:",
+    "win.best-score": "Best Score:",
     "gameover.title": "GAME OVER",
     "gameover.subtitle": "The darkness has consumed you...",
     "gameover.score": "Score:",
@@ -33,6 +46,14 @@ export const en = {
     "tutorial.complete.title": "Tutorial Complete!",
     "tutorial.complete.subtitle": "You have mastered the basics. The real dream awaits...",
     "tutorial.complete.continue": "Continue",
+    "loading.title": "Entering the dream...",
+    "loaderror.title": "LOADING FAILED",
+    "loaderror.fetch": "The level file could not be downloaded.",
+    "loaderror.invalid": "The level file is invalid.",
+    "loaderror.assets": "Some assets of the level could not be loaded.",
+    "loaderror.create": "The level could not be built.",
+    "loaderror.retry": "Retry",
+    "loaderror.back": "Back to Selection",
     "left": "Left",
     "right": "Right",
     "rotate_left_x": "Left rotation X axis",
@@ -58,6 +79,15 @@ export const en = {
     "save": "Save",
     "delete": "Delete",
     "clone": "Clone",
+    "save_prefab": "Save selection as prefab",
+    "place_prefab": "Place prefab",
+    "next_prefab": "Next prefab",
+    "share_code": "Copy level code",
+    "share_link": "Copy level link",
+    "menu": "Main menu",
+    "next_group": "Next rotation group",
+    "add_waypoint": "Add waypoint",
+    "remove_waypoint": "Remove last waypoint",
     "tutorial.phase1.title1": "Objective",
     "tutorial.phase1.desc1": "Reach the crystal.",
     "tutorial.phase1.title2": "Movement",
@@ -118,6 +148,15 @@ export const QWERTY = {
     "save": ["Enter"],
     "delete": ["Backspace"],
     "clone": ["f"],
+    "save_prefab": ["g"],
+    "place_prefab": ["v"],
+    "next_prefab": ["b"],
+    "share_code": ["k"],
+    "share_link": ["l"],
+    "next_group": ["n"],
+    "add_waypoint": ["i"],
+    "remove_waypoint": ["o"],
     "forward": ["q"],
     "backward": ["e"],
+    "menu": ["Escape"],
 }
\ No newline at end of file
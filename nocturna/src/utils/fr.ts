@@ -4,6 +4,13 @@ export const fr = {
     "setting.keybinds": "Touches",
     "setting.language": "Langue",
     "setting.presets": "Préréglages",
+    "setting.save": "Sauvegarde",
+    "setting.export": "Exporter",
+    "setting.import": "Importer",
+    "setting.import-done": "Sauvegarde importée",
+    "setting.import-failed": "Fichier de sauvegarde invalide",
+    "level.shared-invalid": "Ce niveau partagé ne peut pas être ouvert.",
+    "menu.confirm": "Revenir au menu principal ? Le niveau en cours et les modifications non sauvegardées seront perdus.",
     "graphics.ultra-low": "Ultra Faible",
     "graphics.low": "Graphismes Faibles",
     "graphics.high": "Graphismes Élevés",
@@ -24,6 +31,12 @@ export const fr = {
     "win.time": "Temps écoulé :",
     "win.restart": "Recommencer",
     "win.menu": "Menu Principal",
+    "win.par": "Temps de référence :",
+    "win.rating": "Note :",
+    "win.by": "par",
+    "win.new-record": "Nouveau record !",
+    "win.best-time": "Meilleur temps :",
+    "win.best-score": "Meilleur score :",
     "gameover.title": "FIN DE PARTIE",
     "gameover.subtitle": "Les ténèbres vous ont consumé...",
     "gameover.score": "Score :",
@@ -33,6 +46,14 @@ export const fr = {
     "tutorial.complete.title": "Tutoriel terminé !",
     "tutorial.complete.subtitle": "Vous avez maîtrisé les bases. Le vrai rêve vous attend...",
     "tutorial.complete.continue": "Continuer",
+    "loading.title": "Entrée dans le rêve...",
+    "loaderror.title": "ÉCHEC DU CHARGEMENT",
+    "loaderror.fetch": "Le fichier du niveau n'a pas pu être téléchargé.",
+    "loaderror.invalid": "Le fichier du niveau est invalide.",
+    "loaderror.assets": "Certaines ressources du niveau n'ont pas pu être chargées.",
+    "loaderror.create": "Le niveau n'a pas pu être construit.",
+    "loaderror.retry": "Réessayer",
+    "loaderror.back": "Retour à la sélection",
     "left": "Gauche",
     "right": "Droite",
     "rotate_left_x": "Rotation à gauche sur l'axe X",
@@ -58,6 +79,15 @@ export const fr = {
     "save": "Sauvegarder",
     "delete": "Supprimer",
     "clone": "Cloner",
+    "save_prefab": "Enregistrer la sélection en prefab",
+    "place_prefab": "Placer le prefab",
+    "next_prefab": "Prefab suivant",
+    "share_code": "Copier le code du niveau",
+    "share_link": "Copier le lien du niveau",
+    "menu": "Menu principal",
+    "next_group": "Groupe de rotation suivant",
+    "add_waypoint": "Ajouter un point de passage",
+    "remove_waypoint": "Retirer le dernier point de passage",
     "tutorial.phase1.title1": "Objectif",
     "tutorial.phase1.desc1": "Atteignez le cristal.",
     "tutorial.phase1.title2": "Déplacement",
@@ -120,6 +150,15 @@ export const AZERTY = {
     "save": ["Enter"],
     "delete": ["Backspace"],
     "clone": ["f"],
+    "save_prefab": ["g"],
+    "place_prefab": ["v"],
+    "next_prefab": ["b"],
+    "share_code": ["k"],
+    "share_link": ["l"],
+    "next_group": ["n"],
+    "add_waypoint": ["i"],
+    "remove_waypoint": ["o"],
     "forward": ["a"],
     "backward": ["e"],
+    "menu": ["Escape"],
 }
\ No newline at end of file
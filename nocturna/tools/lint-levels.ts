@@ -0,0 +1,287 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+
+import { Campaign } from "../src/Campaign.ts";
+import { LevelFiles } from "../src/LevelFiles.ts";
+import { LevelSchema } from "../src/LevelSchema.ts";
+import type { LevelData, LevelObjectData, Vec3Data } from "../src/LevelSchema.ts";
+import { ObjectCatalog } from "../src/ObjectCatalog.ts";
+
+/**
+ * lint-levels.ts checks the level files of Nocturna without playing them.
+ *
+ * Responsibilities:
+ * - Loads every level listed in the manifests (`levels.json`, `game_levels.json`) and the levels loaded by the code
+ *   (tutorial, multiplayer).
+ * - Reports errors: missing files, invalid level data (including unknown object types), missing or duplicate player,
+ *   missing victory condition, objects outside the cube, named rotation groups in the multiplayer level.
+ * - Reports warnings: overlapping solid objects (platforms), level files referenced nowhere.
+ *   Levels only listed for the editor (`levels.json`, e.g. the blank level) may have no player or victory condition.
+ *
+ * Usage (from the nocturna directory, run by the `tsx` dev dependency):
+ *   npm run lint:levels -- [levels directory] [--strict]
+ * The directory defaults to public/assets/levels.
+ *
+ * Exit codes: 0 if no error was found (warnings allowed unless --strict), 1 if errors were found
+ * (or warnings with --strict), 2 if the levels could not be linted at all.
+ */
+
+/**
+ * LevelUse tells how a level is used: the number of players it holds, whether it must be playable
+ * (levels listed only for the editor may be unfinished) and whether its named rotation groups can rotate.
+ */
+interface LevelUse {
+    players: number;
+    playable: boolean;
+    /** False if the mode playing the level only rotates the main group (multiplayer). */
+    rotationGroups: boolean;
+}
+
+/** Manifests listing the levels shown in the level selections: `levels.json` for the editor, `game_levels.json` for the campaign. */
+const Manifests: { [file: string]: LevelUse } = {
+    "levels.json": { players: 1, playable: false, rotationGroups: true },
+    "game_levels.json": { players: 1, playable: true, rotationGroups: true },
+};
+
+/** Levels loaded directly by the code (see LevelFiles). */
+const CodeLevels: { [file: string]: LevelUse } = {
+    [LevelFiles.Multiplayer]: { players: LevelFiles.MultiplayerPlayers, playable: true, rotationGroups: false },
+};
+LevelFiles.Tutorial.forEach(file => CodeLevels[file] = { players: 1, playable: true, rotationGroups: true });
+
+const PlayerType = "player";
+const VictoryTypes: string[] = ["victory_condition", "fixed_victory_condition"];
+
+/** Overlaps smaller than this fraction of the smaller box are ignored, so that platforms may touch or be joined. */
+const OverlapTolerance = 0.25;
+
+type Severity = "error" | "warning";
+
+interface Problem {
+    file: string;
+    severity: Severity;
+    message: string;
+}
+
+/**
+ * Box is an object of a level in world coordinates, with its axis-aligned bounding box.
+ */
+interface Box {
+    label: string;
+    type: string;
+    center: Vec3Data;
+    halfExtents: Vec3Data;
+}
+
+type Quaternion = [number, number, number, number];
+
+/**
+ * Quaternion of a rotation given as Euler angles, in the Babylon.js convention (yaw around Y, pitch around X, roll around Z).
+ */
+function quaternion(rotation: Vec3Data): Quaternion {
+    const [sy, cy] = [Math.sin(rotation.y / 2), Math.cos(rotation.y / 2)];
+    const [sp, cp] = [Math.sin(rotation.x / 2), Math.cos(rotation.x / 2)];
+    const [sr, cr] = [Math.sin(rotation.z / 2), Math.cos(rotation.z / 2)];
+    return [
+        cy * sp * cr + sy * cp * sr,
+        sy * cp * cr - cy * sp * sr,
+        cy * cp * sr - sy * sp * cr,
+        cy * cp * cr + sy * sp * sr,
+    ];
+}
+
+function multiply(a: Quaternion, b: Quaternion): Quaternion {
+    const [ax, ay, az, aw] = a;
+    const [bx, by, bz, bw] = b;
+    return [
+        aw * bx + ax * bw + ay * bz - az * by,
+        aw * by - ax * bz + ay * bw + az * bx,
+        aw * bz + ax * by - ay * bx + az * bw,
+        aw * bw - ax * bx - ay * by - az * bz,
+    ];
+}
+
+/**
+ * Rotation matrix (rows) of a quaternion.
+ */
+function matrix([x, y, z, w]: Quaternion): number[][] {
+    return [
+        [1 - 2 * (y * y + z * z), 2 * (x * y - z * w), 2 * (x * z + y * w)],
+        [2 * (x * y + z * w), 1 - 2 * (x * x + z * z), 2 * (y * z - x * w)],
+        [2 * (x * z - y * w), 2 * (y * z + x * w), 1 - 2 * (x * x + y * y)],
+    ];
+}
+
+function transform(m: number[][], v: Vec3Data): Vec3Data {
+    return {
+        x: m[0][0] * v.x + m[0][1] * v.y + m[0][2] * v.z,
+        y: m[1][0] * v.x + m[1][1] * v.y + m[1][2] * v.z,
+        z: m[2][0] * v.x + m[2][1] * v.y + m[2][2] * v.z,
+    };
+}
+
+/**
+ * Builds the box of an object rotated by a quaternion; the bounding box encloses the rotated object.
+ */
+function box(label: string, object: LevelObjectData, center: Vec3Data, rotation: Quaternion, scale: Vec3Data): Box {
+    const m = matrix(rotation);
+    const half = { x: Math.abs(object.size.x * scale.x) / 2, y: Math.abs(object.size.y * scale.y) / 2, z: Math.abs(object.size.z * scale.z) / 2 };
+    const extent = (row: number[]) => Math.abs(row[0]) * half.x + Math.abs(row[1]) * half.y + Math.abs(row[2]) * half.z;
+    return { label, type: object.type, center, halfExtents: { x: extent(m[0]), y: extent(m[1]), z: extent(m[2]) } };
+}
+
+/**
+ * Lists the objects of a level in level coordinates (whatever their rotation group, before any rotation),
+ * prefab instances being expanded like the LevelLoader does.
+ */
+function boxes(level: LevelData): Box[] {
+    const one = { x: 1, y: 1, z: 1 };
+    const result = level.objects.map((object, i) => box(`objects[${i}] (${object.type})`, object,
+        object.position, quaternion(object.rotation), one));
+
+    (level.instances ?? []).forEach((instance, i) => {
+        const rotation = quaternion(instance.rotation);
+        const m = matrix(rotation);
+        level.prefabs[instance.prefab].objects.forEach((object, j) => {
+            const offset = transform(m, { x: object.position.x * instance.scale.x, y: object.position.y * instance.scale.y, z: object.position.z * instance.scale.z });
+            result.push(box(`instances[${i}].objects[${j}] (${object.type})`, object,
+                { x: instance.position.x + offset.x, y: instance.position.y + offset.y, z: instance.position.z + offset.z },
+                multiply(rotation, quaternion(object.rotation)), instance.scale));
+        });
+    });
+    return result;
+}
+
+/**
+ * Returns the overlap of two boxes relative to the smaller one: the smallest ratio, over the three axes,
+ * between the overlap and the smaller box extent (negative if they are apart).
+ */
+function overlap(a: Box, b: Box): number {
+    return Math.min(...(["x", "y", "z"] as const).map(axis => {
+        const depth = a.halfExtents[axis] + b.halfExtents[axis] - Math.abs(a.center[axis] - b.center[axis]);
+        return depth / (2 * Math.max(Math.min(a.halfExtents[axis], b.halfExtents[axis]), Number.EPSILON));
+    }));
+}
+
+/**
+ * Lints one level file.
+ * @param directory The levels directory.
+ * @param file The level file.
+ * @param use How the level is used.
+ */
+function lintLevel(directory: string, file: string, use: LevelUse): Problem[] {
+    const problems: Problem[] = [];
+    const report = (severity: Severity, message: string) => problems.push({ file, severity, message });
+
+    let data: any;
+    try {
+        data = JSON.parse(readFileSync(path.join(directory, file), "utf8"));
+    } catch (error) {
+        report("error", `cannot be read: ${error instanceof Error ? error.message : error}`);
+        return problems;
+    }
+    const errors = LevelSchema.check(data);
+    if (errors.length > 0) {
+        errors.forEach(error => report("error", error));
+        return problems;
+    }
+
+    const level = LevelSchema.parse(data);
+    const objects = boxes(level);
+
+    const playerCount = objects.filter(object => object.type === PlayerType).length;
+    if (playerCount === 0) {
+        report(use.playable ? "error" : "warning", "no player");
+    } else if (playerCount > use.players) {
+        report("error", `${playerCount} players (expected ${use.players})`);
+    }
+    if (!objects.some(object => VictoryTypes.includes(object.type))) {
+        report(use.playable ? "error" : "warning", "no victory condition");
+    }
+
+    if (!use.rotationGroups && (level.groups ?? []).length > 0) {
+        report("error", "named rotation groups are not supported in multiplayer (only the main group rotates)");
+    }
+
+    const cube = level.Cube;
+    objects.forEach(object => {
+        const outside = (["x", "y", "z"] as const).some(axis => Math.abs(object.center[axis] - cube.position[axis]) > cube.size);
+        if (outside) {
+            report("error", `${object.label} is outside the cube (size ${cube.size})`);
+        }
+    });
+
+    const solids = objects.filter(object => ObjectCatalog.get(object.type)?.solid);
+    solids.forEach((a, i) => {
+        solids.slice(i + 1).forEach(b => {
+            if (overlap(a, b) > OverlapTolerance) {
+                report("warning", `${a.label} overlaps ${b.label}`);
+            }
+        });
+    });
+    return problems;
+}
+
+/**
+ * Lints the levels directory: manifests, the levels they reference and the unreferenced files.
+ * @param directory The levels directory.
+ * @returns The problems found.
+ * @throws Error if the directory cannot be read.
+ */
+function lintDirectory(directory: string): Problem[] {
+    const problems: Problem[] = [];
+    const levels = new Map<string, LevelUse>(Object.keys(CodeLevels).map(file => [file, CodeLevels[file]]));
+
+    Object.keys(Manifests).forEach(manifest => {
+        try {
+            const campaign = new Campaign(JSON.parse(readFileSync(path.join(directory, manifest), "utf8")));
+            campaign.getLevels().forEach(level => {
+                const use = levels.get(level.file);
+                levels.set(level.file, {
+                    players: Math.max(use?.players ?? 0, Manifests[manifest].players),
+                    playable: (use?.playable ?? false) || Manifests[manifest].playable,
+                    rotationGroups: (use?.rotationGroups ?? true) && Manifests[manifest].rotationGroups
+                });
+            });
+        } catch (error) {
+            problems.push({ file: manifest, severity: "error", message: `invalid manifest: ${error instanceof Error ? error.message : error}` });
+        }
+    });
+
+    levels.forEach((use, file) => {
+        if (!existsSync(path.join(directory, file))) {
+            problems.push({ file, severity: "error", message: "referenced but missing" });
+        } else {
+            problems.push(...lintLevel(directory, file, use));
+        }
+    });
+
+    readdirSync(directory)
+        .filter(file => file.endsWith(".json") && !(file in Manifests) && !levels.has(file))
+        .forEach(file => problems.push({ file, severity: "warning", message: "not referenced by any manifest" }));
+    return problems;
+}
+
+function main(args: string[]): number {
+    const strict = args.includes("--strict");
+    const directory = args.find(arg => !arg.startsWith("--")) ?? path.join("public", "assets", "levels");
+
+    let problems: Problem[];
+    try {
+        problems = lintDirectory(directory);
+    } catch (error) {
+        console.error(`Cannot lint ${directory}: ${error instanceof Error ? error.message : error}`);
+        return 2;
+    }
+
+    problems.forEach(problem => {
+        const line = `${problem.file}: ${problem.severity}: ${problem.message}`;
+        problem.severity === "error" ? console.error(line) : console.warn(line);
+    });
+    const errors = problems.filter(problem => problem.severity === "error").length;
+    const warnings = problems.length - errors;
+    console.log(`${errors} error(s), ${warnings} warning(s)`);
+    return errors > 0 || (strict && warnings > 0) ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));